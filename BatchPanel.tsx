@@ -0,0 +1,140 @@
+'use client';
+
+import type { BatchItem } from '../hooks/useBatchProcessing';
+import { BATCH_STATUS_LABELS, BatchItemStatus } from '../lib/batch-export';
+import { getHistoryPatientName } from '../lib/history-store';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  // 結果を通常の結果表示欄に表示する
+  onOpen: (item: BatchItem) => void;
+  onExport: (format: 'json' | 'csv') => void;
+  // Azureの設定が済んでいるか
+  canStart: boolean;
+}
+
+// 状態ごとの表示色
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-600 bg-gray-100 dark:text-gray-300 dark:bg-gray-700',
+  running: 'text-blue-700 bg-blue-100 dark:text-blue-300 dark:bg-blue-900/40',
+  done: 'text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/40',
+  failed: 'text-red-700 bg-red-100 dark:text-red-300 dark:bg-red-900/40',
+  cancelled: 'text-gray-500 bg-gray-100 dark:text-gray-400 dark:bg-gray-700',
+};
+
+const SMALL_BUTTON_CLASS = 'px-2 py-1 text-xs rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600';
+
+// 複数の問診票の処理状況と結果を患者ごとに表示する一覧
+export default function BatchPanel({
+  items,
+  isRunning,
+  onStart,
+  onStop,
+  onRetry,
+  onCancel,
+  onRemove,
+  onClearFinished,
+  onOpen,
+  onExport,
+  canStart
+}: BatchPanelProps) {
+  const count = (status: BatchItemStatus) => items.filter((item) => item.status === status).length;
+  const hasResults = count('done') > 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-sm text-gray-600 dark:text-gray-300 mr-auto">
+          {items.length}件（完了 {count('done')}・失敗 {count('failed')}・待機中 {count('queued')}）
+        </span>
+        {isRunning ? (
+          <button
+            onClick={onStop}
+            className="px-3 py-1 text-sm rounded-md text-white bg-gray-600 hover:bg-gray-700"
+          >
+            待機中の処理を中止
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={!canStart || count('queued') === 0}
+            className={`px-3 py-1 text-sm rounded-md text-white ${
+              !canStart || count('queued') === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            一括処理を開始
+          </button>
+        )}
+        <button onClick={() => onExport('json')} disabled={!hasResults} className={`${SMALL_BUTTON_CLASS} disabled:opacity-50`}>
+          JSONで出力
+        </button>
+        <button onClick={() => onExport('csv')} disabled={!hasResults} className={`${SMALL_BUTTON_CLASS} disabled:opacity-50`}>
+          CSVで出力
+        </button>
+        <button onClick={onClearFinished} className={SMALL_BUTTON_CLASS}>
+          終了した項目を削除
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[32rem] overflow-y-auto">
+        {items.map((item) => {
+          const patientName = item.result?.intakeRecord ? getHistoryPatientName(item.result.intakeRecord) : '';
+          return (
+            <li key={item.id} className="py-2">
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-0.5 text-xs rounded-full shrink-0 ${STATUS_CLASSES[item.status]}`}>
+                  {BATCH_STATUS_LABELS[item.status]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                    {item.status === 'done' ? patientName || '氏名不明' : item.file.name}
+                  </p>
+                  {item.status === 'done' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.file.name}</p>
+                  )}
+                  {item.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>
+                  )}
+                </div>
+                {item.status === 'done' && (
+                  <button
+                    onClick={() => onOpen(item)}
+                    className="px-2 py-1 text-xs rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    表示
+                  </button>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <button onClick={() => onRetry(item.id)} className={SMALL_BUTTON_CLASS}>
+                    再試行
+                  </button>
+                )}
+                {(item.status === 'queued' || item.status === 'running') ? (
+                  <button onClick={() => onCancel(item.id)} className={SMALL_BUTTON_CLASS}>
+                    キャンセル
+                  </button>
+                ) : (
+                  <button onClick={() => onRemove(item.id)} className={SMALL_BUTTON_CLASS}>
+                    削除
+                  </button>
+                )}
+              </div>
+              {item.status === 'running' && (
+                <div className="mt-2 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${item.progress}%` }} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { IntakeField } from '../lib/intake-record';
+import { renderPdfPage } from '../lib/pdf-render';
+
+interface DocumentViewerProps {
+  file: File;
+  // extractStructuredDataのpages
+  pages: Array<Record<string, unknown>>;
+  // 強調表示するフィールド
+  highlights: IntakeField<unknown>[];
+}
+
+// 多角形の座標配列をSVGのpoints属性に変換
+function toPoints(polygon: number[]): string {
+  const points: string[] = [];
+  for (let i = 0; i + 1 < polygon.length; i += 2) {
+    points.push(`${polygon[i]},${polygon[i + 1]}`);
+  }
+  return points.join(' ');
+}
+
+// フィールドの抽出元の領域を探す（座標がない場合は抽出元テキストと一致する行を使用）
+function locateField(field: IntakeField<unknown>, page: Record<string, unknown>): number[] | null {
+  if (field.page !== null && field.page !== page.pageNumber) {
+    return null;
+  }
+
+  if (field.boundingBox && field.boundingBox.length >= 8) {
+    return field.boundingBox;
+  }
+
+  const lines = (page.lines || []) as Array<Record<string, unknown>>;
+  const line = lines.find((l) => l.content === field.sourceText)
+    || lines.find((l) => typeof l.content === 'string' && l.content.length > 1 && field.sourceText.includes(l.content));
+
+  return Array.isArray(line?.boundingBox) ? line.boundingBox as number[] : null;
+}
+
+// スキャンした問診票の上にOCRの行を重ねて表示するビューア
+export default function DocumentViewer({ file, pages, highlights }: DocumentViewerProps) {
+  // 表示中のページの位置（ページを選択して分析した場合はページ番号と一致しない）
+  const [pageIndex, setPageIndex] = useState(0);
+  const [image, setImage] = useState<{ src: string; width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const page = pages[pageIndex] || pages[0];
+  const currentPage = Number(page?.pageNumber) || 1;
+  const pageWidth = Number(page?.width) || 1;
+  const pageHeight = Number(page?.height) || 1;
+
+  // 強調表示するフィールドのページに移動
+  useEffect(() => {
+    const highlightPage = highlights.find((field) => field.page !== null)?.page;
+    const index = pages.findIndex((p) => p.pageNumber === highlightPage);
+    if (index >= 0) {
+      setPageIndex(index);
+    }
+  }, [highlights, pages]);
+
+  // ページの画像を用意
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setError(null);
+
+    if (file.type === 'application/pdf') {
+      renderPdfPage(file, currentPage)
+        .then(({ dataUrl, width, height }) => {
+          if (!cancelled) setImage({ src: dataUrl, width, height });
+        })
+        .catch((err) => {
+          console.error('PDFの描画に失敗しました:', err);
+          if (!cancelled) setError('PDFのページを表示できませんでした');
+        });
+    } else {
+      objectUrl = URL.createObjectURL(file);
+      setImage({ src: objectUrl, width: pageWidth, height: pageHeight });
+    }
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file, currentPage, pageWidth, pageHeight]);
+
+  if (!page) {
+    return null;
+  }
+
+  const lines = (page.lines || []) as Array<Record<string, unknown>>;
+  const highlightRegions = highlights
+    .map((field) => locateField(field, page))
+    .filter((region): region is number[] => region !== null);
+
+  return (
+    <div>
+      {pages.length > 1 && (
+        <div className="flex items-center justify-between mb-2 text-sm text-gray-600 dark:text-gray-300">
+          <button
+            onClick={() => setPageIndex((i) => Math.max(0, i - 1))}
+            disabled={pageIndex <= 0}
+            className="px-2 py-1 rounded disabled:opacity-40 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            前のページ
+          </button>
+          <span>{currentPage}ページ目（{pageIndex + 1} / {pages.length}）</span>
+          <button
+            onClick={() => setPageIndex((i) => Math.min(pages.length - 1, i + 1))}
+            disabled={pageIndex >= pages.length - 1}
+            className="px-2 py-1 rounded disabled:opacity-40 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            次のページ
+          </button>
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : image && (
+        <div className="relative border border-gray-200 dark:border-gray-600 rounded-md overflow-hidden">
+          <Image
+            src={image.src}
+            alt={`${currentPage}ページ目`}
+            width={image.width}
+            height={image.height}
+            className="w-full h-auto"
+            unoptimized
+          />
+          <svg
+            className="absolute inset-0 w-full h-full"
+            viewBox={`0 0 ${pageWidth} ${pageHeight}`}
+            preserveAspectRatio="none"
+          >
+            {lines.map((line, index) => Array.isArray(line.boundingBox) && (
+              <polygon
+                key={index}
+                points={toPoints(line.boundingBox as number[])}
+                className="fill-blue-400/10 stroke-blue-400/60"
+                strokeWidth={pageWidth / 1000}
+              >
+                <title>{String(line.content)}</title>
+              </polygon>
+            ))}
+            {highlightRegions.map((region, index) => (
+              <polygon
+                key={`highlight-${index}`}
+                points={toPoints(region)}
+                className="fill-yellow-300/40 stroke-orange-500"
+                strokeWidth={pageWidth / 300}
+              />
+            ))}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
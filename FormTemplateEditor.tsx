@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FormTemplate, matchFormTemplate, validateFormTemplate } from '../lib/form-template';
+import { INTAKE_FIELD_LABELS } from '../lib/intake-record';
+
+interface FormTemplateEditorProps {
+  templates: FormTemplate[];
+  onSave: (template: FormTemplate) => void;
+  onDelete: (id: string) => void;
+  // プレビューに使うサンプルの問診票（直前のOCR結果のextractStructuredData）
+  sample: Record<string, unknown> | null;
+}
+
+// 新規作成時のひな形
+const NEW_TEMPLATE: FormTemplate = {
+  id: 'clinic-form',
+  name: '新しい問診票',
+  rules: [
+    { field: 'patientName', source: { type: 'key', key: '氏名|お名前' } },
+    { field: 'chiefComplaints', source: { type: 'table', row: '症状', column: '内容' } },
+    { field: 'smoking', source: { type: 'checkbox', question: '喫煙' } },
+    { field: 'presentIllness', source: { type: 'region', page: 1, left: 0.05, top: 0.4, right: 0.95, bottom: 0.55 } },
+  ],
+};
+
+function toJson(template: FormTemplate): string {
+  return JSON.stringify(template, null, 2);
+}
+
+// 問診票テンプレートをJSONで編集し、サンプルの問診票に適用した結果を確認するエディタ
+export default function FormTemplateEditor({ templates, onSave, onDelete, sample }: FormTemplateEditorProps) {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [json, setJson] = useState(toJson(NEW_TEMPLATE));
+
+  // 選択したテンプレートを編集欄に読み込む
+  useEffect(() => {
+    const template = templates.find((t) => t.id === selectedId);
+    setJson(toJson(template || NEW_TEMPLATE));
+  }, [selectedId, templates]);
+
+  let template: FormTemplate | null = null;
+  let error: string | null = null;
+  try {
+    template = validateFormTemplate(JSON.parse(json));
+  } catch (err) {
+    error = err instanceof SyntaxError ? `JSONの形式が不正です: ${err.message}` : String((err as Error).message || err);
+  }
+
+  const matches = template && sample ? matchFormTemplate(template, sample) : [];
+  const sampleKeys = ((sample?.keyValuePairs || []) as Array<Record<string, unknown>>)
+    .map((pair) => String(pair.key || ''))
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">新しいテンプレート</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            if (!template) return;
+            onSave(template);
+            setSelectedId(template.id);
+          }}
+          disabled={!template}
+          className="px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          保存
+        </button>
+        {selectedId && (
+          <button
+            onClick={() => {
+              onDelete(selectedId);
+              setSelectedId('');
+            }}
+            className="px-3 py-2 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+          >
+            削除
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        rows={14}
+        spellCheck={false}
+        className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+      />
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        source.type は key（項目名）/ table（表の行・列）/ checkbox（選択マーク）/ region（ページ上の領域、0〜1の割合）のいずれかです。
+        同じIDで保存すると上書きされます。
+      </p>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">プレビュー</h4>
+        {!sample ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            サンプルの問診票をOCR処理すると、テンプレートを適用した結果がここに表示されます
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-1 text-sm">
+              {matches.map(({ rule, values }, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="w-24 shrink-0 text-gray-600 dark:text-gray-400">{INTAKE_FIELD_LABELS[rule.field]}</span>
+                  {values.length === 0 ? (
+                    <span className="text-amber-600 dark:text-amber-400">一致なし</span>
+                  ) : (
+                    <span className="text-gray-800 dark:text-gray-200">
+                      {values.map(({ value, source }) => `${value}${source.page !== null ? `（${source.page}ページ）` : ''}`).join(' / ')}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {sampleKeys.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                サンプルの項目名: {sampleKeys.join('、')}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import Image from 'next/image';
+import type { HistoryEntry, HistoryQuery } from '../lib/history-store';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  query: HistoryQuery;
+  onQueryChange: (query: HistoryQuery) => void;
+  // 結果を再表示する
+  onOpen: (entry: HistoryEntry) => void;
+  // 現在のテンプレートで構造化データを作り直して再表示する
+  onReformat: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  error?: string | null;
+}
+
+// IndexedDBに保存した処理履歴の一覧（患者名・処理日で検索）
+export default function HistoryPanel({ entries, query, onQueryChange, onOpen, onReformat, onDelete, error }: HistoryPanelProps) {
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="search"
+          value={query.name || ''}
+          onChange={(e) => onQueryChange({ ...query, name: e.target.value })}
+          placeholder="患者名で検索"
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        />
+        <input
+          type="date"
+          value={query.date || ''}
+          onChange={(e) => onQueryChange({ ...query, date: e.target.value || undefined })}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        />
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">履歴はありません</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-96 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 py-2">
+              {entry.thumbnail ? (
+                <Image
+                  src={entry.thumbnail}
+                  alt={entry.fileName}
+                  width={48}
+                  height={64}
+                  className="w-12 h-16 object-cover rounded border border-gray-200 dark:border-gray-600"
+                  unoptimized
+                />
+              ) : (
+                <div className="w-12 h-16 rounded bg-gray-100 dark:bg-gray-700" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                  {entry.patientName || '氏名不明'}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {new Date(entry.createdAt).toLocaleString('ja-JP')}・{entry.fileName}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpen(entry)}
+                className="px-2 py-1 text-xs rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                開く
+              </button>
+              <button
+                onClick={() => onReformat(entry)}
+                className="px-2 py-1 text-xs rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100 dark:text-blue-300 dark:bg-blue-900/30"
+              >
+                再整形
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="px-2 py-1 text-xs rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
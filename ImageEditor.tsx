@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import {
+  DEFAULT_IMAGE_EDIT_SETTINGS,
+  FULL_QUAD,
+  ImageEditSettings,
+  Quad,
+  detectDocumentCorners,
+  loadRotatedCanvas,
+  preprocessImage
+} from '../lib/image-preprocess';
+
+interface ImageEditorProps {
+  // 撮影したままの画像
+  file: File;
+  // 補正後の画像を受け取る
+  onApply: (file: File) => void;
+  onCancel: () => void;
+}
+
+// プレビューの長辺のピクセル数
+const PREVIEW_DIMENSION = 1000;
+
+// 縮小後の長辺の選択肢（0は縮小しない）
+const MAX_DIMENSION_OPTIONS = [1600, 2400, 3200, 0];
+
+const CORNER_LABELS = ['左上', '右上', '右下', '左下'];
+
+// アップロード前に問診票の画像を回転・切り抜き・補正する編集画面
+export default function ImageEditor({ file, onApply, onCancel }: ImageEditorProps) {
+  const [settings, setSettings] = useState<ImageEditSettings>(DEFAULT_IMAGE_EDIT_SETTINGS);
+  const [preview, setPreview] = useState<{ dataUrl: string; width: number; height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  // 回転した画像のプレビューを作成
+  useEffect(() => {
+    let cancelled = false;
+    loadRotatedCanvas(file, settings.rotation, PREVIEW_DIMENSION)
+      .then((canvas) => {
+        if (cancelled) return;
+        previewCanvasRef.current = canvas;
+        setPreview({ dataUrl: canvas.toDataURL('image/jpeg', 0.8), width: canvas.width, height: canvas.height });
+      })
+      .catch((error) => setMessage(error instanceof Error ? error.message : String(error)));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, settings.rotation]);
+
+  const corners = settings.corners || FULL_QUAD;
+
+  // 回転すると座標が変わるため、切り抜く範囲はリセットする
+  const rotate = (delta: 90 | 270) => {
+    setSettings((prev) => ({
+      ...prev,
+      rotation: ((prev.rotation + delta) % 360) as ImageEditSettings['rotation'],
+      corners: null,
+    }));
+  };
+
+  const detectCorners = () => {
+    if (!previewCanvasRef.current) return;
+    const detected = detectDocumentCorners(previewCanvasRef.current);
+    if (detected) {
+      setSettings((prev) => ({ ...prev, corners: detected, deskew: true }));
+      setMessage(null);
+    } else {
+      setMessage('用紙を検出できませんでした。四隅をドラッグして指定してください');
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null || !overlayRef.current) return;
+    const rect = overlayRef.current.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setSettings((prev) => {
+      const next = [...(prev.corners || FULL_QUAD)] as Quad;
+      next[index] = { x, y };
+      return { ...prev, corners: next };
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setMessage(null);
+    try {
+      onApply(await preprocessImage(file, settings));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => rotate(270)}
+          className="px-3 py-1 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+        >
+          左に90度回転
+        </button>
+        <button
+          onClick={() => rotate(90)}
+          className="px-3 py-1 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+        >
+          右に90度回転
+        </button>
+        <button
+          onClick={detectCorners}
+          disabled={!preview}
+          className="px-3 py-1 text-sm rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100 dark:text-blue-300 dark:bg-blue-900/30"
+        >
+          用紙を自動検出
+        </button>
+        <button
+          onClick={() => setSettings((prev) => ({ ...prev, corners: null }))}
+          disabled={!settings.corners}
+          className="px-3 py-1 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50"
+        >
+          範囲をリセット
+        </button>
+      </div>
+
+      {preview ? (
+        <div
+          ref={overlayRef}
+          className="relative mx-auto w-fit select-none touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => {
+            dragIndexRef.current = null;
+          }}
+          onPointerLeave={() => {
+            dragIndexRef.current = null;
+          }}
+        >
+          <Image
+            src={preview.dataUrl}
+            alt="補正する画像"
+            width={preview.width}
+            height={preview.height}
+            className="max-h-[28rem] w-auto rounded"
+            draggable={false}
+            unoptimized
+          />
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+            <polygon
+              points={corners.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(59, 130, 246, 0.15)"
+              stroke="rgb(59, 130, 246)"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {corners.map((point, index) => (
+            <div
+              key={index}
+              title={CORNER_LABELS[index]}
+              onPointerDown={(e) => {
+                e.preventDefault();
+                dragIndexRef.current = index;
+              }}
+              className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-blue-500 cursor-move"
+              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">画像を読み込んでいます...</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.deskew}
+            onChange={(e) => setSettings((prev) => ({ ...prev, deskew: e.target.checked }))}
+          />
+          傾き補正
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.enhanceContrast}
+            onChange={(e) => setSettings((prev) => ({ ...prev, enhanceContrast: e.target.checked }))}
+          />
+          コントラスト強調
+        </label>
+        <label className="flex items-center gap-1">
+          長辺の最大サイズ
+          <select
+            value={settings.maxDimension}
+            onChange={(e) => setSettings((prev) => ({ ...prev, maxDimension: Number(e.target.value) }))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            {MAX_DIMENSION_OPTIONS.map((size) => (
+              <option key={size} value={size}>{size > 0 ? `${size}px` : '縮小しない'}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {message && <p className="text-sm text-red-600 dark:text-red-400">{message}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+        >
+          補正せずに使用
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isApplying || !preview}
+          className={`px-4 py-2 text-sm rounded-md text-white ${
+            isApplying || !preview ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {isApplying ? '補正中...' : '補正を適用'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  KARTE_TEMPLATE_PRESETS,
+  KARTE_TEMPLATE_VARIABLES,
+  KarteTemplate,
+  renderKarteText,
+  validateKarteTemplate
+} from '../lib/karte-template';
+import { MedicalIntakeRecord, createEmptyIntakeRecord } from '../lib/intake-record';
+
+interface KarteTemplateEditorProps {
+  templates: KarteTemplate[];
+  onSave: (template: KarteTemplate) => void;
+  onDelete: (id: string) => void;
+  // プレビューに使う構造化データ（直前のOCR結果）
+  record: MedicalIntakeRecord | null;
+}
+
+// カルテのテンプレートを編集し、構造化データに適用した結果を確認するエディタ
+export default function KarteTemplateEditor({ templates, onSave, onDelete, record }: KarteTemplateEditorProps) {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [name, setName] = useState('');
+  const [body, setBody] = useState(KARTE_TEMPLATE_PRESETS[0].body);
+
+  // 選択したテンプレートを編集欄に読み込む（新規作成時は標準の形式をひな形にする）
+  useEffect(() => {
+    const template = templates.find((t) => t.id === selectedId);
+    setName(template?.name || '');
+    setBody(template?.body || KARTE_TEMPLATE_PRESETS[0].body);
+  }, [selectedId, templates]);
+
+  let template: KarteTemplate | null = null;
+  let error: string | null = null;
+  let preview = '';
+  try {
+    template = validateKarteTemplate({ id: selectedId || `custom-${Date.now()}`, name, body });
+    preview = renderKarteText(record || createEmptyIntakeRecord(), template);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">新しいテンプレート</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = KARTE_TEMPLATE_PRESETS.find((p) => p.id === e.target.value);
+            if (preset) setBody(preset.body);
+          }}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          <option value="">プリセットを読み込む</option>
+          {KARTE_TEMPLATE_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="テンプレート名（例: 内科外来）"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+      />
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={14}
+        spellCheck={false}
+        className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+      />
+      <details className="text-xs text-gray-500 dark:text-gray-400">
+        <summary className="cursor-pointer">書式と使用できる変数</summary>
+        <p className="mt-1">
+          {'{{変数}}'} 値を出力 / {'{{変数?}}'} 空なら行ごと省略 / {'{{変数|default:なし}}'} 空の場合の文字列 /
+          {' {{変数|bullet}}'} 1行ずつ「・」付きで出力 / {'{{変数|join:、}}'} 区切って出力 /
+          {' {{変数|prefix:…}}'} {'{{変数|suffix:…}}'} 前後に付ける文字列 /
+          {' {{#変数,変数}}…{{/変数,変数}}'} いずれかが空でない場合のみ出力 / {'{{^変数}}…{{/変数}}'} 空の場合のみ出力
+        </p>
+        <ul className="mt-1 grid grid-cols-2 gap-x-4">
+          {Object.entries(KARTE_TEMPLATE_VARIABLES).map(([key, label]) => (
+            <li key={key}><code>{key}</code> {label}</li>
+          ))}
+        </ul>
+      </details>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => {
+            if (!template) return;
+            onSave(template);
+            setSelectedId(template.id);
+          }}
+          disabled={!template}
+          className="px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          保存
+        </button>
+        {selectedId && (
+          <button
+            onClick={() => {
+              onDelete(selectedId);
+              setSelectedId('');
+            }}
+            className="px-3 py-2 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+          >
+            削除
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          プレビュー{!record && '（空の問診票）'}
+        </h4>
+        <pre className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md max-h-60 overflow-y-auto text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+          {preview}
+        </pre>
+      </div>
+    </div>
+  );
+}
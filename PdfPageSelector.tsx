@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { renderPdfPage } from '../lib/pdf-render';
+
+interface PdfPageSelectorProps {
+  file: File;
+  pageCount: number;
+  // 分析するページ番号
+  selectedPages: number[];
+  onChange: (pages: number[]) => void;
+  // ページごとのOCR結果（分析後のみ）
+  pageTexts?: Record<number, string>;
+}
+
+// 縮小画像の幅
+const THUMBNAIL_WIDTH = 160;
+
+// PDFの各ページを縮小画像で表示し、分析するページを選択する
+export default function PdfPageSelector({ file, pageCount, selectedPages, onChange, pageTexts }: PdfPageSelectorProps) {
+  const [thumbnails, setThumbnails] = useState<Record<number, { dataUrl: string; width: number; height: number }>>({});
+
+  // 1ページずつ順に描画（ページ数が多い場合もブラウザが固まらないように）
+  useEffect(() => {
+    let cancelled = false;
+    setThumbnails({});
+
+    (async () => {
+      for (let page = 1; page <= pageCount && !cancelled; page++) {
+        try {
+          const thumbnail = await renderPdfPage(file, page, THUMBNAIL_WIDTH);
+          if (!cancelled) setThumbnails((prev) => ({ ...prev, [page]: thumbnail }));
+        } catch (error) {
+          console.warn(`${page}ページ目を描画できませんでした:`, error);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, pageCount]);
+
+  const togglePage = (page: number) => {
+    onChange(
+      selectedPages.includes(page)
+        ? selectedPages.filter((p) => p !== page)
+        : [...selectedPages, page].sort((a, b) => a - b)
+    );
+  };
+
+  const allPages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2 text-sm text-gray-600 dark:text-gray-300">
+        <span>{pageCount}ページ中{selectedPages.length}ページを分析</span>
+        <button
+          onClick={() => onChange(allPages)}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          すべて選択
+        </button>
+        <button
+          onClick={() => onChange([])}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          選択を解除
+        </button>
+      </div>
+
+      <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {allPages.map((page) => {
+          const thumbnail = thumbnails[page];
+          const text = pageTexts?.[page];
+          return (
+            <li key={page} className="flex gap-3 p-2 border border-gray-200 dark:border-gray-700 rounded-md">
+              <label className="flex flex-col items-center gap-1 shrink-0 cursor-pointer">
+                {thumbnail ? (
+                  <Image
+                    src={thumbnail.dataUrl}
+                    alt={`${page}ページ目`}
+                    width={thumbnail.width}
+                    height={thumbnail.height}
+                    className={`w-24 h-auto rounded border ${
+                      selectedPages.includes(page) ? 'border-blue-500' : 'border-gray-200 opacity-50 dark:border-gray-600'
+                    }`}
+                    unoptimized
+                  />
+                ) : (
+                  <div className="w-24 h-32 rounded bg-gray-100 dark:bg-gray-700" />
+                )}
+                <span className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={selectedPages.includes(page)}
+                    onChange={() => togglePage(page)}
+                  />
+                  {page}ページ目
+                </span>
+              </label>
+              {pageTexts && (
+                <pre className="flex-1 min-w-0 max-h-48 overflow-y-auto text-xs whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                  {text ?? '（分析していません）'}
+                </pre>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
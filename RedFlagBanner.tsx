@@ -0,0 +1,57 @@
+'use client';
+
+import { RED_FLAG_SEVERITY_LABELS, RedFlagMatch } from '../lib/red-flags';
+
+interface RedFlagBannerProps {
+  matches: RedFlagMatch[];
+  // 項目を選択したときに問診票上の位置を表示する
+  onSelect?: (match: RedFlagMatch) => void;
+}
+
+// 見落としてはならない記載（緊急性の高い症状、薬剤アレルギーなど）を結果の先頭に目立つように表示する
+export default function RedFlagBanner({ matches, onSelect }: RedFlagBannerProps) {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const hasCritical = matches.some((match) => match.severity === 'critical');
+
+  return (
+    <div
+      role="alert"
+      className={`p-4 border-2 rounded-md ${
+        hasCritical
+          ? 'border-red-500 bg-red-50 dark:border-red-600 dark:bg-red-900/30'
+          : 'border-orange-400 bg-orange-50 dark:border-orange-600 dark:bg-orange-900/20'
+      }`}
+    >
+      <h3 className={`text-md font-semibold mb-2 ${hasCritical ? 'text-red-800 dark:text-red-300' : 'text-orange-800 dark:text-orange-300'}`}>
+        注意が必要な記載があります（{matches.length}件）
+      </h3>
+      <ul className="space-y-2">
+        {matches.map((match, index) => (
+          <li key={`${match.ruleId}-${index}`} className="text-sm">
+            <button
+              onClick={() => onSelect?.(match)}
+              className="w-full text-left flex items-start gap-2 hover:underline"
+            >
+              <span
+                className={`shrink-0 px-2 py-0.5 text-xs font-medium rounded text-white ${
+                  match.severity === 'critical' ? 'bg-red-600' : 'bg-orange-500'
+                }`}
+              >
+                {RED_FLAG_SEVERITY_LABELS[match.severity]}
+              </span>
+              <span className="text-gray-800 dark:text-gray-100">
+                <span className="font-medium">{match.label}</span>（{match.matchedText}）
+                <span className="block text-xs text-gray-600 dark:text-gray-400">
+                  {match.page !== null && `${match.page}ページ: `}{match.sourceText}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  RED_FLAG_CATEGORY_LABELS,
+  RED_FLAG_SEVERITY_LABELS,
+  RedFlagCategory,
+  RedFlagRule,
+  RedFlagSeverity,
+  validateRedFlagRule
+} from '../lib/red-flags';
+
+interface RedFlagRuleEditorProps {
+  rules: RedFlagRule[];
+  onSave: (rules: RedFlagRule[]) => void;
+  onReset: () => void;
+}
+
+// 編集中のルール（語句は「、」区切りの文字列で編集する）
+type DraftRule = Omit<RedFlagRule, 'terms' | 'pattern'> & { terms: string; pattern: string };
+
+function toDraft(rule: RedFlagRule): DraftRule {
+  return { ...rule, terms: rule.terms.join('、'), pattern: rule.pattern || '' };
+}
+
+const inputClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white';
+
+// 見落としてはならない記載の検出ルールを編集するエディタ
+export default function RedFlagRuleEditor({ rules, onSave, onReset }: RedFlagRuleEditorProps) {
+  const [drafts, setDrafts] = useState<DraftRule[]>(rules.map(toDraft));
+  const [error, setError] = useState<string | null>(null);
+
+  // 保存済みのルールが読み込まれたら編集欄に反映する
+  useEffect(() => {
+    setDrafts(rules.map(toDraft));
+  }, [rules]);
+
+  const updateDraft = (index: number, update: Partial<DraftRule>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...update } : draft)));
+  };
+
+  const save = () => {
+    try {
+      onSave(drafts.map((draft) => validateRedFlagRule({
+        ...draft,
+        terms: draft.terms.split(/[、,，\n]/),
+        pattern: draft.pattern || null,
+      })));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        語句は「、」区切りで入力します。語句の直後に「なし」「☐」などがある記載（例: 胸痛: なし）は検出しません。
+      </p>
+      <ul className="space-y-3">
+        {drafts.map((draft, index) => (
+          <li key={draft.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => updateDraft(index, { enabled: e.target.checked })}
+                aria-label="このルールを使用する"
+              />
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => updateDraft(index, { label: e.target.value })}
+                placeholder="ルール名（例: 胸痛）"
+                className={`flex-1 ${inputClassName}`}
+              />
+              <select
+                value={draft.category}
+                onChange={(e) => updateDraft(index, { category: e.target.value as RedFlagCategory })}
+                className={inputClassName}
+              >
+                {Object.entries(RED_FLAG_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={draft.severity}
+                onChange={(e) => updateDraft(index, { severity: e.target.value as RedFlagSeverity })}
+                className={inputClassName}
+              >
+                {Object.entries(RED_FLAG_SEVERITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                className="px-2 py-1 text-xs rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+              >
+                削除
+              </button>
+            </div>
+            <input
+              type="text"
+              value={draft.terms}
+              onChange={(e) => updateDraft(index, { terms: e.target.value })}
+              placeholder="語句（例: 胸痛、胸の痛み）"
+              className={`w-full ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.pattern}
+              onChange={(e) => updateDraft(index, { pattern: e.target.value })}
+              placeholder="正規表現（任意）"
+              spellCheck={false}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setDrafts([...drafts, {
+            id: `custom-${Date.now()}`,
+            label: '',
+            category: 'urgent-symptom',
+            severity: 'critical',
+            terms: '',
+            pattern: '',
+            enabled: true,
+          }])}
+          className="px-3 py-2 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+        >
+          ルールを追加
+        </button>
+        <button
+          onClick={save}
+          className="px-3 py-2 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          保存
+        </button>
+        <button
+          onClick={() => {
+            onReset();
+            setError(null);
+          }}
+          className="px-3 py-2 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+        >
+          組み込みのルールに戻す
+        </button>
+      </div>
+    </div>
+  );
+}
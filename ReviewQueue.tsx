@@ -0,0 +1,122 @@
+'use client';
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeCheckboxGroup,
+  IntakeField,
+  IntakeSex,
+  MedicalIntakeRecord,
+  SEX_LABELS,
+  listIntakeFields,
+  normalizeFieldValue,
+  updateIntakeField
+} from '../lib/intake-record';
+
+interface ReviewQueueProps {
+  record: MedicalIntakeRecord;
+  onChange: (record: MedicalIntakeRecord) => void;
+  // 項目を選択したときに問診票上の位置を表示する
+  onSelect?: (field: IntakeField<unknown>) => void;
+}
+
+// OCRの信頼度が低いフィールドを一覧にし、カルテにコピーする前に修正できるようにする
+export default function ReviewQueue({ record, onChange, onSelect }: ReviewQueueProps) {
+  const flagged = listIntakeFields(record).filter(({ field }) => field.needsReview);
+
+  if (flagged.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20 rounded-md">
+      <h3 className="text-md font-medium text-amber-800 dark:text-amber-300 mb-1">
+        要確認（{flagged.length}件）
+      </h3>
+      <p className="mb-3 text-xs text-amber-700 dark:text-amber-400">
+        読み取りの信頼度が低い項目や、日付・番号の形式が正しくない項目です。元の問診票と照らし合わせて修正し、確認済みにしてください。
+      </p>
+      <ul className="space-y-3">
+        {flagged.map(({ key, index, field }) => (
+          <li key={`${key}-${index ?? 0}`} className="text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <button
+                onClick={() => onSelect?.(field)}
+                className="font-medium text-gray-700 dark:text-gray-200 hover:underline"
+              >
+                {INTAKE_FIELD_LABELS[key]}
+              </button>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                信頼度 {field.confidence !== null && field.confidence !== undefined ? `${Math.round(field.confidence * 100)}%` : '不明'}
+                {field.page !== null && `・${field.page}ページ`}
+                {field.handwritten && '・手書き'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {key === 'checkboxes' ? (
+                <div className="flex-1 flex flex-wrap gap-3">
+                  <span className="text-gray-600 dark:text-gray-300">{(field.value as IntakeCheckboxGroup).question}</span>
+                  {(field.value as IntakeCheckboxGroup).options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={option.checked}
+                        onChange={(e) => {
+                          const group = field.value as IntakeCheckboxGroup;
+                          onChange(updateIntakeField(record, key, index, {
+                            value: {
+                              ...group,
+                              options: group.options.map((o, i) => (i === optionIndex ? { ...o, checked: e.target.checked } : o)),
+                            },
+                          }));
+                        }}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              ) : key === 'sex' ? (
+                <select
+                  value={String(field.value)}
+                  onChange={(e) => onChange(updateIntakeField(record, key, index, { value: e.target.value as IntakeSex }))}
+                  className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                >
+                  {(Object.keys(SEX_LABELS) as IntakeSex[]).map((sex) => (
+                    <option key={sex} value={sex}>{SEX_LABELS[sex]}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={key === 'age' ? 'number' : 'text'}
+                  value={String(field.value)}
+                  onChange={(e) => {
+                    const normalized = normalizeFieldValue(key, e.target.value);
+                    onChange(updateIntakeField(record, key, index, {
+                      value: key === 'age' ? Number(e.target.value) : e.target.value,
+                      ...(normalized !== undefined ? { normalized } : {}),
+                    }));
+                  }}
+                  className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                />
+              )}
+              <button
+                onClick={() => onChange(updateIntakeField(record, key, index, { needsReview: false }))}
+                className="px-3 py-1 text-xs rounded-md text-white bg-amber-600 hover:bg-amber-700"
+              >
+                確認済み
+              </button>
+            </div>
+            {field.normalized === null && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                {INTAKE_FIELD_LABELS[key]}として読み取れません（桁数・検証番号・日付を確認してください）
+              </p>
+            )}
+            {field.normalized && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">正規化した値: {field.normalized}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">読み取り元: {field.sourceText}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { TableLayout, buildTableLayout, renderTableHtml, renderTableMarkdown } from '../lib/table-layout';
+
+interface TableViewProps {
+  // extractStructuredDataの結果の表
+  tables: Array<Record<string, unknown>>;
+  onCopy: (text: string) => void;
+}
+
+type TableFormat = 'table' | 'markdown' | 'html';
+
+const FORMAT_LABELS: Record<TableFormat, string> = {
+  table: '表',
+  markdown: 'Markdown',
+  html: 'HTML',
+};
+
+// 結合セルを反映した表を表示
+function TableGrid({ layout }: { layout: TableLayout }) {
+  const rows = Array.from({ length: layout.rowCount }, (_, row) => layout.cells.filter((cell) => cell.rowIndex === row));
+
+  return (
+    <table className="min-w-full text-sm border-collapse">
+      <tbody>
+        {rows.map((cells, row) => (
+          <tr key={row}>
+            {cells.map((cell) => {
+              const Tag = row < layout.headerRowCount ? 'th' : 'td';
+              return (
+                <Tag
+                  key={`${cell.rowIndex}-${cell.columnIndex}`}
+                  rowSpan={cell.rowSpan}
+                  colSpan={cell.columnSpan}
+                  className={`px-2 py-1 border border-gray-300 dark:border-gray-600 text-left text-gray-800 dark:text-gray-200 ${
+                    Tag === 'th' ? 'bg-gray-100 dark:bg-gray-700 font-medium' : ''
+                  }`}
+                >
+                  {cell.content}
+                </Tag>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// 問診票の表を、表・Markdown・HTMLのいずれかで表示する
+export default function TableView({ tables, onCopy }: TableViewProps) {
+  const [format, setFormat] = useState<TableFormat>('table');
+  const layouts = tables.map((table) => buildTableLayout(table));
+
+  if (layouts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-medium text-gray-700 dark:text-gray-300">
+          表（{layouts.length}件）
+        </h3>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TableFormat)}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        >
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-4">
+        {layouts.map((layout, index) => {
+          const text = format === 'html' ? renderTableHtml(layout) : renderTableMarkdown(layout);
+          return (
+            <div key={index}>
+              <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md max-h-60 overflow-auto">
+                {format === 'table' ? (
+                  <TableGrid layout={layout} />
+                ) : (
+                  <pre className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre">{text}</pre>
+                )}
+              </div>
+              <button
+                onClick={() => onCopy(format === 'table' ? renderTableMarkdown(layout) : text)}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                表{index + 1}を{format === 'html' ? 'HTML' : 'Markdown'}でコピー
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
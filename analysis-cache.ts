@@ -0,0 +1,108 @@
+// Azureの分析結果（analyzeResult）をファイルの内容ごとに保持するキャッシュ
+// 同じファイルを再送信した場合にAzureを呼び出さない（再課金を防ぐ）ために使用する
+
+import { createHash } from 'crypto';
+
+export interface AnalysisCache {
+  get(key: string): Record<string, unknown> | null;
+  set(key: string, result: Record<string, unknown>): void;
+}
+
+interface CacheEntry {
+  result: Record<string, unknown>;
+  // JSONにしたときのバイト数（容量の上限の判定に使用）
+  size: number;
+  expiresAt: number;
+}
+
+// キャッシュの保持時間のデフォルト（24時間）
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// キャッシュの容量のデフォルト（100MB）
+const DEFAULT_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+// ファイルの内容・モデル・APIバージョン・エンドポイント・分析するページ・追加機能と出力形式からキャッシュのキーを作成
+// カスタムモデルはAzureのリソースごとに異なるため、エンドポイントもキーに含める
+export function computeAnalysisCacheKey(
+  fileBytes: Uint8Array,
+  modelId: string,
+  apiVersion: string,
+  endpoint: string,
+  pages = '',
+  variant = ''
+): string {
+  return createHash('sha256')
+    .update(fileBytes)
+    .update('\0')
+    .update(modelId)
+    .update('\0')
+    .update(apiVersion)
+    .update('\0')
+    .update(endpoint)
+    .update('\0')
+    .update(pages)
+    .update('\0')
+    .update(variant)
+    .digest('hex');
+}
+
+// メモリ上に保持するキャッシュ（保持時間を過ぎたもの、容量を超えた分は古い順に削除）
+export function createInMemoryAnalysisCache(ttlMs: number, maxBytes: number): AnalysisCache {
+  // Mapは挿入順を保持するため、参照時に入れ直すことで最近使ったものを末尾にする
+  const entries = new Map<string, CacheEntry>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      totalBytes -= entry.size;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    set(key, result) {
+      const size = Buffer.byteLength(JSON.stringify(result));
+      // 1件で容量を超える結果は保持しない
+      if (size > maxBytes) {
+        return;
+      }
+
+      remove(key);
+      entries.set(key, { result, size, expiresAt: Date.now() + ttlMs });
+      totalBytes += size;
+
+      for (const oldestKey of entries.keys()) {
+        if (totalBytes <= maxBytes) break;
+        remove(oldestKey);
+      }
+    },
+  };
+}
+
+const globalForAnalysisCache = globalThis as unknown as { analysisCache?: AnalysisCache };
+
+// 環境変数（AZURE_CACHE_TTL_MS、AZURE_CACHE_MAX_BYTES）に応じたキャッシュを取得
+export function getAnalysisCache(): AnalysisCache {
+  if (!globalForAnalysisCache.analysisCache) {
+    globalForAnalysisCache.analysisCache = createInMemoryAnalysisCache(
+      Number(process.env.AZURE_CACHE_TTL_MS) || DEFAULT_CACHE_TTL_MS,
+      Number(process.env.AZURE_CACHE_MAX_BYTES) || DEFAULT_CACHE_MAX_BYTES
+    );
+  }
+  return globalForAnalysisCache.analysisCache;
+}
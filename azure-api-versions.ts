@@ -0,0 +1,177 @@
+// Azure Document IntelligenceのAPIバージョンごとのリクエストとレスポンスの違いを扱う関数
+// 2023-07-31（v3.1）はformrecognizer、2024-11-30（v4.0）はdocumentintelligenceのパスで呼び出し、
+// Markdown出力はv4.0のみ対応する。どのバージョンの結果もextractStructuredDataが扱える同じ形式にそろえる
+
+export type AzureApiVersion = '2023-07-31' | '2024-11-30';
+
+// analyzeのfeaturesで指定する追加機能（add-on）
+export type AzureAnalyzeFeature = 'keyValuePairs' | 'barcodes' | 'languages' | 'ocrHighResolution';
+
+// 分析結果のcontentの形式
+export type AzureOutputContentFormat = 'text' | 'markdown';
+
+// APIバージョン・追加機能・出力形式の設定
+export interface AzureAnalyzeSettings {
+  apiVersion: AzureApiVersion;
+  features: AzureAnalyzeFeature[];
+  outputContentFormat: AzureOutputContentFormat;
+}
+
+interface AzureApiVersionSpec {
+  label: string;
+  // analyzeのURLのパスの先頭
+  pathPrefix: string;
+  features: AzureAnalyzeFeature[];
+  markdown: boolean;
+}
+
+export const AZURE_API_VERSIONS: Record<AzureApiVersion, AzureApiVersionSpec> = {
+  '2024-11-30': {
+    label: '2024-11-30（v4.0 GA）',
+    pathPrefix: 'documentintelligence',
+    features: ['keyValuePairs', 'barcodes', 'languages', 'ocrHighResolution'],
+    markdown: true,
+  },
+  '2023-07-31': {
+    label: '2023-07-31（v3.1 GA）',
+    pathPrefix: 'formrecognizer',
+    features: ['keyValuePairs', 'barcodes', 'languages', 'ocrHighResolution'],
+    markdown: false,
+  },
+};
+
+export const AZURE_FEATURE_LABELS: Record<AzureAnalyzeFeature, string> = {
+  keyValuePairs: 'キーと値のペア',
+  barcodes: 'バーコード',
+  languages: '言語の判定',
+  ocrHighResolution: '高解像度OCR（小さい文字）',
+};
+
+export const DEFAULT_AZURE_API_VERSION: AzureApiVersion = '2024-11-30';
+
+// keyValuePairsを既定で有効にするモデル（prebuilt-readなど他のモデルには追加機能を指定しない）
+const KEY_VALUE_PAIR_MODELS = ['prebuilt-layout', 'prebuilt-document'];
+
+// prebuilt-layoutはkeyValuePairsを指定しないとキーと値のペアを返さないため、既定で有効にする
+export const DEFAULT_AZURE_ANALYZE_SETTINGS: AzureAnalyzeSettings = {
+  apiVersion: DEFAULT_AZURE_API_VERSION,
+  features: ['keyValuePairs'],
+  outputContentFormat: 'text',
+};
+
+// モデルに応じた既定の追加機能
+export function getDefaultAzureFeatures(modelId: string): AzureAnalyzeFeature[] {
+  return KEY_VALUE_PAIR_MODELS.includes(modelId) ? ['keyValuePairs'] : [];
+}
+
+export function isAzureApiVersion(value: unknown): value is AzureApiVersion {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AZURE_API_VERSIONS, value);
+}
+
+// リクエストで受け取った設定を検証し、省略された項目は既定値にする（追加機能はモデルに応じた既定値）
+export function parseAzureAnalyzeSettings(input: {
+  apiVersion?: unknown;
+  features?: unknown;
+  outputContentFormat?: unknown;
+  modelId?: string;
+}): AzureAnalyzeSettings {
+  const apiVersion = input.apiVersion === undefined || input.apiVersion === ''
+    ? DEFAULT_AZURE_ANALYZE_SETTINGS.apiVersion
+    : input.apiVersion;
+  if (!isAzureApiVersion(apiVersion)) {
+    throw new Error(`サポートされていないAPIバージョンです: ${String(apiVersion)}`);
+  }
+  const spec = AZURE_API_VERSIONS[apiVersion];
+
+  if (input.features !== undefined && !Array.isArray(input.features)) {
+    throw new Error('追加機能は配列で指定してください');
+  }
+  const features = (input.features ?? getDefaultAzureFeatures(input.modelId || 'prebuilt-layout')) as unknown[];
+  for (const feature of features) {
+    if (!spec.features.includes(feature as AzureAnalyzeFeature)) {
+      throw new Error(`APIバージョン${apiVersion}では追加機能「${String(feature)}」を使用できません`);
+    }
+  }
+
+  const outputContentFormat = input.outputContentFormat ?? DEFAULT_AZURE_ANALYZE_SETTINGS.outputContentFormat;
+  if (outputContentFormat !== 'text' && outputContentFormat !== 'markdown') {
+    throw new Error(`サポートされていない出力形式です: ${String(outputContentFormat)}`);
+  }
+  if (outputContentFormat === 'markdown' && !spec.markdown) {
+    throw new Error(`APIバージョン${apiVersion}はMarkdown出力に対応していません`);
+  }
+
+  return {
+    apiVersion,
+    features: [...new Set(features as AzureAnalyzeFeature[])],
+    outputContentFormat,
+  };
+}
+
+// analyzeのURLを作成
+export function buildAnalyzeUrl(
+  baseEndpoint: string,
+  modelId: string,
+  settings: AzureAnalyzeSettings,
+  pages?: string
+): string {
+  const spec = AZURE_API_VERSIONS[settings.apiVersion];
+  const query = [
+    `api-version=${settings.apiVersion}`,
+    ...(pages ? [`pages=${pages}`] : []),
+    ...(settings.features.length > 0 ? [`features=${settings.features.join(',')}`] : []),
+    ...(settings.outputContentFormat === 'markdown' ? ['outputContentFormat=markdown'] : []),
+  ];
+  return `${baseEndpoint}/${spec.pathPrefix}/documentModels/${modelId}:analyze?${query.join('&')}`;
+}
+
+// キャッシュのキーに含める、追加機能と出力形式の文字列
+export function describeAnalyzeVariant(settings: AzureAnalyzeSettings): string {
+  return `${[...settings.features].sort().join(',')};${settings.outputContentFormat}`;
+}
+
+// Markdown出力の選択マーク（☒ / ☐）を、テキスト出力と同じ :selected: / :unselected: にする
+function toTextSelectionMarks(content: unknown): unknown {
+  return typeof content === 'string'
+    ? content.replace(/☒/g, ':selected:').replace(/☐/g, ':unselected:')
+    : content;
+}
+
+function withTextContent<T extends Record<string, unknown>>(item: T): T {
+  return { ...item, content: toTextSelectionMarks(item.content) };
+}
+
+// バージョン・出力形式による分析結果の違いをそろえる
+// Markdown出力の場合は元のcontentをmarkdownに移し、行・段落・表・キーと値のペアの選択マークをテキスト出力の形式にする
+export function normalizeAnalyzeResponse(analysisResult: Record<string, unknown>): Record<string, unknown> {
+  const analyzeResult = analysisResult.analyzeResult as Record<string, unknown> | undefined;
+  if (!analyzeResult || analyzeResult.contentFormat !== 'markdown') {
+    return analysisResult;
+  }
+
+  const mapItems = (items: unknown, map: (item: Record<string, unknown>) => Record<string, unknown>) =>
+    Array.isArray(items) ? (items as Array<Record<string, unknown>>).map(map) : items;
+
+  return {
+    ...analysisResult,
+    analyzeResult: {
+      ...analyzeResult,
+      markdown: analyzeResult.content,
+      pages: mapItems(analyzeResult.pages, (page) => ({
+        ...page,
+        lines: mapItems(page.lines, withTextContent),
+        words: mapItems(page.words, withTextContent),
+      })),
+      paragraphs: mapItems(analyzeResult.paragraphs, withTextContent),
+      tables: mapItems(analyzeResult.tables, (table) => ({
+        ...table,
+        cells: mapItems(table.cells, withTextContent),
+      })),
+      keyValuePairs: mapItems(analyzeResult.keyValuePairs, (pair) => ({
+        ...pair,
+        key: pair.key ? withTextContent(pair.key as Record<string, unknown>) : pair.key,
+        value: pair.value ? withTextContent(pair.value as Record<string, unknown>) : pair.value,
+      })),
+    },
+  };
+}
@@ -0,0 +1,586 @@
+// Azure Document Intelligenceとの連携の結合テスト
+// 偽サーバー（fake-document-intelligence）と実際の問診票の分析結果を記録したフィクスチャを使い、
+// Azureのキーがなくても分析・エラー処理・テキスト抽出・カルテの整形を確認する
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { analyzeDocument } from '../app/api/azure-provider';
+import { DEFAULT_AZURE_API_VERSION } from '../app/api/azure-api-versions';
+import {
+  extractAzureErrorInfo,
+  extractStructuredData,
+  extractTextFromAnalysisResult
+} from '../app/api/azure-utils';
+import { CANCELLED_MESSAGE } from '../app/api/azure-poller';
+import { getJobStore, ProcessingJob } from '../app/api/job-store';
+import { POST } from '../app/api/process-document/route';
+import { DEFAULT_CONFIDENCE_THRESHOLD, extractIntakeRecord, flagLowConfidenceFields } from '../app/lib/intake-record';
+import { renderKarteText } from '../app/lib/karte-template';
+import { FAKE_API_KEY, FakeDocumentIntelligence, startFakeDocumentIntelligence } from './fake-document-intelligence';
+import internalMedicineIntake from './fixtures/internal-medicine-intake.json';
+import orthopedicsIntakeLayout from './fixtures/orthopedics-intake-layout.json';
+
+// 形式の判別に使う先頭のバイト列だけを持つPNG（偽サーバーは画像の中身を見ない）
+const PNG_BYTES = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+  0x00, 0x00, 0x00, 0x10, 0x00, 0x00, 0x00, 0x10, 0x08, 0x02, 0x00, 0x00, 0x00,
+]);
+
+const INTERNAL_MEDICINE_KARTE = `【基本情報】
+・氏名: 山田 太郎
+・フリガナ: ヤマダ タロウ
+・生年月日: 昭和45年3月2日
+・年齢: 54歳
+・性別: 男性
+
+【主訴・症状】
+・3日前からの発熱と咳
+
+【既往歴】
+・高血圧
+・脂質異常症
+
+【現病歴】
+情報なし
+
+【服薬情報】
+・アムロジピン5mg（アムロジピンベシル酸塩）
+
+【アレルギー】
+・ペニシリン
+
+【生活歴】
+・喫煙: 吸わない
+
+【チェック項目】
+・これまでにかかった病気（既往歴）: 高血圧☑ 糖尿病☐ 脂質異常症☑ 喘息☐
+・喫煙: 吸う☐ 吸わない☑
+
+【診察メモ】
+問診票の内容から、以下の点に注意して診察を行うことが推奨されます：
+・訴えられている症状の詳細な確認が必要
+・既往歴に関連する現在の症状との関連性を確認
+・現在の服薬状況と薬剤の相互作用の確認
+・アレルギー情報に基づく処方時の注意
+
+※この診察メモは問診票の情報のみに基づいており、実際の診察で詳細な確認が必要です。`;
+
+const ORTHOPEDICS_TEXT = `===== ページ 1 =====
+
+整形外科 問診票
+氏名: 佐藤 花子
+フリガナ: サトウ ハナコ
+生年月日: 1979年11月3日
+年齢: 44歳
+性別: 女
+主訴: 腰の痛み
+現在の症状: 2週間前に重い荷物を持ってから腰が痛む
+服薬: なし
+以下の症状はありますか
+症状
+はい
+いいえ
+腰痛
+足のしびれ
+排尿の異常
+
+===== ページ 2 =====
+
+アレルギー: なし
+飲酒: 週に2回
+その他 ご質問など
+仕事で長時間座っていることが多い
+
+===== テーブル =====
+
+テーブル 1:
+症状: 腰痛 / はい: ☑ / いいえ: ☐
+症状: 足のしびれ / はい: ☐ / いいえ: ☑
+症状: 排尿の異常 / はい: ☐ / いいえ: ☑
+
+===== チェック項目 =====
+
+腰痛: はい☑ いいえ☐
+足のしびれ: はい☐ いいえ☑
+排尿の異常: はい☐ いいえ☑`;
+
+const ORTHOPEDICS_KARTE = `【基本情報】
+・氏名: 佐藤 花子
+・フリガナ: サトウ ハナコ
+・生年月日: 1979年11月3日
+・年齢: 44歳
+・性別: 女性
+
+【主訴・症状】
+・腰の痛み
+
+【既往歴】
+特記事項なし
+
+【現病歴】
+2週間前に重い荷物を持ってから腰が痛む
+
+【服薬情報】
+特記事項なし
+
+【アレルギー】
+特記事項なし
+
+【生活歴】
+・飲酒: 週に2回
+
+【チェック項目】
+・腰痛: はい☑ いいえ☐
+・足のしびれ: はい☐ いいえ☑
+・排尿の異常: はい☐ いいえ☑
+
+【診察メモ】
+問診票の内容から、以下の点に注意して診察を行うことが推奨されます：
+・40代以上の女性のため、婦人科系の検査も考慮
+・訴えられている症状の詳細な確認が必要
+
+※この診察メモは問診票の情報のみに基づいており、実際の診察で詳細な確認が必要です。`;
+
+// ルートと同じ手順で分析結果からカルテのテキストを作成
+function formatFixture(analysisResult: Record<string, unknown>) {
+  const text = extractTextFromAnalysisResult(analysisResult);
+  const structuredData = extractStructuredData(analysisResult);
+  const record = flagLowConfidenceFields(extractIntakeRecord(structuredData, text), DEFAULT_CONFIDENCE_THRESHOLD, structuredData);
+  return { record, karte: renderKarteText(record) };
+}
+
+// 偽サーバーに分析を依頼（キャッシュは使わない）
+function analyze(fake: FakeDocumentIntelligence, options: Parameters<typeof analyzeDocument>[6] = {}) {
+  return analyzeDocument(PNG_BYTES, 'intake.png', 'image/png', FAKE_API_KEY, fake.endpoint, 'prebuilt-layout', {
+    forceRefresh: true,
+    ...options,
+  });
+}
+
+function analyzeRequests(fake: FakeDocumentIntelligence) {
+  return fake.requests.filter((request) => request.method === 'POST');
+}
+
+describe('analyzeDocument', () => {
+  let fake: FakeDocumentIntelligence;
+
+  before(async () => {
+    fake = await startFakeDocumentIntelligence();
+  });
+
+  after(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    fake.requests.length = 0;
+  });
+
+  it('running の後に succeeded になるまでポーリングし、テキストと構造化データを返す', async () => {
+    fake.useScenarios({ runningPolls: 2, outcome: { status: 'succeeded', result: internalMedicineIntake } });
+    const statuses: string[] = [];
+
+    const result = await analyze(fake, { pages: '1', onPoll: (_attempt, status) => { statuses.push(status); } });
+
+    assert.equal(result.success, true);
+    assert.ok(result.success && result.content.includes('氏名: 山田 太郎'));
+    assert.equal(result.success && (result.structuredData?.keyValuePairs as unknown[]).length, 9);
+    assert.equal(result.success && result.cached, false);
+    assert.deepEqual(statuses, ['running', 'running', 'succeeded']);
+
+    const [request] = analyzeRequests(fake);
+    assert.equal(request.path, '/documentintelligence/documentModels/prebuilt-layout:analyze');
+    assert.deepEqual(request.query, { 'api-version': DEFAULT_AZURE_API_VERSION, pages: '1', features: 'keyValuePairs' });
+    assert.equal(request.contentType, 'application/octet-stream');
+    assert.equal(request.apiKey, FAKE_API_KEY);
+    assert.equal(request.bodyBytes, PNG_BYTES.byteLength);
+  });
+
+  it('同じファイルの2回目はキャッシュした結果を返し、Azureを呼び出さない', async () => {
+    fake.useScenarios({ outcome: { status: 'succeeded', result: orthopedicsIntakeLayout } });
+    const bytes = Buffer.concat([PNG_BYTES, Buffer.from('cache-test')]);
+    const run = () => analyzeDocument(bytes, 'intake.png', 'image/png', FAKE_API_KEY, fake.endpoint, 'prebuilt-layout');
+
+    const first = await run();
+    const second = await run();
+
+    assert.equal(first.success && first.cached, false);
+    assert.equal(second.success && second.cached, true);
+    assert.equal(second.success && second.content, first.success && first.content);
+    assert.equal(analyzeRequests(fake).length, 1);
+  });
+
+  it('prebuilt-readには既定の追加機能（keyValuePairs）を付けずに呼び出す', async () => {
+    fake.useScenarios({ outcome: { status: 'succeeded', result: internalMedicineIntake } });
+
+    const result = await analyzeDocument(PNG_BYTES, 'intake.png', 'image/png', FAKE_API_KEY, fake.endpoint, 'prebuilt-read', {
+      forceRefresh: true,
+    });
+
+    assert.equal(result.success, true);
+    const [request] = analyzeRequests(fake);
+    assert.equal(request.path, '/documentintelligence/documentModels/prebuilt-read:analyze');
+    assert.deepEqual(request.query, { 'api-version': DEFAULT_AZURE_API_VERSION });
+  });
+
+  it('2023-07-31はformrecognizerのパスで、指定した追加機能を付けて呼び出す', async () => {
+    fake.useScenarios({ outcome: { status: 'succeeded', result: internalMedicineIntake } });
+
+    const result = await analyze(fake, {
+      analyzeSettings: { apiVersion: '2023-07-31', features: ['keyValuePairs', 'barcodes'], outputContentFormat: 'text' },
+    });
+
+    assert.equal(result.success, true);
+    const [request] = analyzeRequests(fake);
+    assert.equal(request.path, '/formrecognizer/documentModels/prebuilt-layout:analyze');
+    assert.deepEqual(request.query, { 'api-version': '2023-07-31', features: 'keyValuePairs,barcodes' });
+  });
+
+  it('Markdown出力の結果は選択マークをテキスト出力の形式にそろえ、全文をmarkdownとして返す', async () => {
+    const markdown = '# 問診票\n\n喫煙 ☒ はい ☐ いいえ\n';
+    fake.useScenarios({
+      outcome: {
+        status: 'succeeded',
+        result: {
+          status: 'succeeded',
+          analyzeResult: {
+            contentFormat: 'markdown',
+            content: markdown,
+            pages: [{
+              pageNumber: 1,
+              lines: [{ content: '喫煙 ☒ はい ☐ いいえ' }],
+              barcodes: [{ kind: 'QRCode', value: 'P-0001', confidence: 0.99 }],
+            }],
+            languages: [{ locale: 'ja', confidence: 0.95 }],
+          },
+        },
+      },
+    });
+
+    const result = await analyze(fake, {
+      analyzeSettings: { apiVersion: '2024-11-30', features: ['barcodes', 'languages'], outputContentFormat: 'markdown' },
+    });
+
+    assert.equal(analyzeRequests(fake)[0].query.outputContentFormat, 'markdown');
+    assert.ok(result.success);
+    assert.equal(result.content, [
+      '===== ページ 1 =====',
+      '',
+      '喫煙 :selected: はい :unselected: いいえ',
+      '',
+      '===== バーコード =====',
+      '',
+      'QRCode: P-0001',
+    ].join('\n'));
+    assert.equal(result.structuredData?.markdown, markdown);
+    assert.deepEqual(result.structuredData?.languages, [{ locale: 'ja', confidence: 0.95 }]);
+    assert.equal((result.structuredData?.barcodes as Array<Record<string, unknown>>)[0].value, 'P-0001');
+  });
+
+  it('分析が failed になった場合はAzureのエラーを含めて失敗する', async () => {
+    fake.useScenarios({
+      runningPolls: 1,
+      outcome: { status: 'failed', error: { code: 'InvalidContent', message: 'The file is corrupted or format is unsupported.' } },
+    });
+
+    const result = await analyze(fake);
+
+    assert.equal(result.success, false);
+    assert.match(!result.success ? result.error : '', /^分析に失敗しました: .*InvalidContent/);
+  });
+
+  for (const [status, message] of [
+    [401, 'Azure APIの認証に失敗しました。APIキーを確認してください。'],
+    [403, 'Azure APIへのアクセスが拒否されました。APIキーの権限を確認してください。'],
+    [404, 'Azure APIのエンドポイントが見つかりません。エンドポイントURLを確認してください。'],
+  ] as const) {
+    it(`analyzeが${status}を返した場合は再試行せずに日本語のエラーを返す`, async () => {
+      fake.useScenarios({ analyzeStatus: status });
+
+      const result = await analyze(fake);
+
+      assert.deepEqual(result, { success: false, error: message });
+      assert.equal(analyzeRequests(fake).length, 1);
+    });
+  }
+
+  it('APIキーが違う場合は偽サーバーも401を返す', async () => {
+    const result = await analyzeDocument(
+      PNG_BYTES, 'intake.png', 'image/png', 'fedcba9876543210fedcba9876543210', fake.endpoint, 'prebuilt-layout', { forceRefresh: true }
+    );
+
+    assert.deepEqual(result, { success: false, error: 'Azure APIの認証に失敗しました。APIキーを確認してください。' });
+  });
+
+  it('429が続く場合は上限まで再試行してからレート制限のエラーを返す', async () => {
+    fake.useScenarios({ analyzeStatus: 429, retryAfterSeconds: 0 });
+
+    const result = await analyze(fake);
+
+    assert.deepEqual(result, {
+      success: false,
+      error: 'Azure APIのレート制限を超えました。しばらく待ってから再試行してください。',
+    });
+    assert.equal(analyzeRequests(fake).length, 4);
+  });
+
+  it('429の後に受け付けられた場合は分析を続ける', async () => {
+    fake.useScenarios(
+      { analyzeStatus: 429, retryAfterSeconds: 0 },
+      { outcome: { status: 'succeeded', result: orthopedicsIntakeLayout } }
+    );
+
+    const result = await analyze(fake);
+
+    assert.equal(result.success, true);
+    assert.equal(analyzeRequests(fake).length, 2);
+  });
+
+  it('Operation-Locationヘッダーがない場合は失敗する', async () => {
+    fake.useScenarios({ omitOperationLocation: true });
+
+    const result = await analyze(fake);
+
+    assert.deepEqual(result, { success: false, error: 'Operation-Locationヘッダーが見つかりません' });
+  });
+
+  it('待機時間内に完了しない場合はタイムアウトする', async () => {
+    fake.useScenarios({ runningPolls: 100, retryAfterSeconds: 1 });
+
+    const result = await analyze(fake, { timeoutMs: 500 });
+
+    assert.deepEqual(result, { success: false, error: 'タイムアウト: 1秒以内にドキュメント分析が完了しませんでした' });
+  });
+
+  it('応答が遅い場合もキャンセルできる', async () => {
+    fake.useScenarios({ responseDelayMs: 2000 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await analyze(fake, { signal: controller.signal });
+
+    assert.deepEqual(result, { success: false, error: CANCELLED_MESSAGE });
+  });
+
+  it('APIキーの形式が正しくない場合はAzureを呼び出さない', async () => {
+    const result = await analyzeDocument(PNG_BYTES, 'intake.png', 'image/png', 'invalid-key', fake.endpoint, 'prebuilt-layout');
+
+    assert.deepEqual(result, { success: false, error: '無効なAPIキーです' });
+    assert.equal(fake.requests.length, 0);
+  });
+});
+
+describe('extractAzureErrorInfo', () => {
+  it('HTTPステータスに応じたメッセージを返す', () => {
+    assert.match(extractAzureErrorInfo(new Response(null, { status: 401 }), {}), /認証に失敗しました/);
+    assert.match(extractAzureErrorInfo(new Response(null, { status: 403 }), {}), /アクセスが拒否されました/);
+    assert.match(extractAzureErrorInfo(new Response(null, { status: 404 }), {}), /エンドポイントが見つかりません/);
+    assert.match(extractAzureErrorInfo(new Response(null, { status: 429 }), {}), /レート制限を超えました/);
+  });
+
+  it('本文のエラーコードとメッセージを含める', () => {
+    const response = new Response(null, { status: 400 });
+
+    assert.equal(
+      extractAzureErrorInfo(response, { error: { code: 'InvalidRequest', message: 'Invalid request.' } }),
+      'Azure APIエラー (InvalidRequest): Invalid request.'
+    );
+    assert.equal(extractAzureErrorInfo(response, { error: 'Bad input' }), 'Azure APIエラー: Bad input');
+    assert.equal(extractAzureErrorInfo(response, { error: { innererror: 'x' } }), 'Azure APIエラー: {"innererror":"x"}');
+  });
+
+  it('本文にエラーがない場合はステータスを返す', () => {
+    const response = new Response(null, { status: 500, statusText: 'Internal Server Error' });
+
+    assert.equal(extractAzureErrorInfo(response, {}), 'Azure APIエラー (500): Internal Server Error');
+  });
+});
+
+describe('extractTextFromAnalysisResult', () => {
+  it('ページ・フォームフィールド・チェック項目を抽出する', () => {
+    const text = extractTextFromAnalysisResult(internalMedicineIntake);
+
+    assert.ok(text.startsWith('===== ページ 1 =====\n\n内科 問診票\n'));
+    assert.ok(text.includes('===== フォームフィールド =====\n\n記入日: 2024年5月14日\nフリガナ: ヤマダ タロウ\n'));
+    assert.ok(text.endsWith(
+      '===== チェック項目 =====\n\nこれまでにかかった病気（既往歴）: 高血圧☑ 糖尿病☐ 脂質異常症☑ 喘息☐\n喫煙: 吸う☐ 吸わない☑'
+    ));
+  });
+
+  it('複数ページと表のチェックボックスを抽出する', () => {
+    assert.equal(extractTextFromAnalysisResult(orthopedicsIntakeLayout), ORTHOPEDICS_TEXT);
+  });
+
+  it('分析結果が空の場合は空文字を返す', () => {
+    assert.equal(extractTextFromAnalysisResult({}), '');
+  });
+});
+
+describe('カルテの整形', () => {
+  it('キーと値のペアとチェックボックスからカルテを作成する', () => {
+    const { record, karte } = formatFixture(internalMedicineIntake);
+
+    assert.equal(karte, INTERNAL_MEDICINE_KARTE);
+    assert.equal(record.birthDate?.normalized, '1970-03-02');
+    assert.equal(record.visitDate?.normalized, '2024-05-14');
+    assert.equal(record.medications[0].needsReview, true);
+    assert.equal(record.patientName?.needsReview, false);
+  });
+
+  it('表のチェックボックスと「項目: 値」の行からカルテを作成する', () => {
+    const { record, karte } = formatFixture(orthopedicsIntakeLayout);
+
+    assert.equal(karte, ORTHOPEDICS_KARTE);
+    assert.equal(record.alcohol?.needsReview, true);
+    assert.equal(record.alcohol?.page, 2);
+  });
+});
+
+describe('POST /api/process-document', () => {
+  let fake: FakeDocumentIntelligence;
+
+  before(async () => {
+    fake = await startFakeDocumentIntelligence();
+  });
+
+  after(async () => {
+    await fake.close();
+  });
+
+  function postDocument(settings: Record<string, unknown>) {
+    const form = new FormData();
+    form.append('file', new Blob([PNG_BYTES], { type: 'image/png' }), 'intake.png');
+    form.append('settings', JSON.stringify(settings));
+    return POST(new NextRequest('http://localhost/api/process-document', { method: 'POST', body: form }));
+  }
+
+  // ジョブが完了または失敗するまで待機
+  async function waitForJob(jobId: string): Promise<ProcessingJob> {
+    for (let i = 0; i < 100; i++) {
+      const job = await getJobStore().get(jobId);
+      if (job && (job.stage === 'done' || job.stage === 'failed')) {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    throw new Error('ジョブが完了しませんでした');
+  }
+
+  it('偽サーバーで分析し、カルテを作成するジョブを実行する', async () => {
+    fake.useScenarios({ runningPolls: 1, outcome: { status: 'succeeded', result: internalMedicineIntake } });
+
+    const response = await postDocument({ azureApiKey: FAKE_API_KEY, azureEndpoint: fake.endpoint, forceOcr: true });
+    assert.equal(response.status, 202);
+    const job = await waitForJob((await response.json()).jobId);
+
+    assert.equal(job.stage, 'done');
+    assert.equal(job.result?.formattedContent, INTERNAL_MEDICINE_KARTE);
+    assert.equal(job.result?.ocrProvider, 'azure');
+    assert.deepEqual(
+      job.events.filter((event) => event.type === 'azure-status').map((event) => event.type === 'azure-status' && event.status),
+      ['running', 'succeeded']
+    );
+  });
+
+  it('Azureのエラーはジョブの失敗として記録する', async () => {
+    fake.useScenarios({ analyzeStatus: 403 });
+
+    const response = await postDocument({ azureApiKey: FAKE_API_KEY, azureEndpoint: fake.endpoint, forceOcr: true });
+    const job = await waitForJob((await response.json()).jobId);
+
+    assert.equal(job.stage, 'failed');
+    assert.equal(job.error, 'Azure APIへのアクセスが拒否されました。APIキーの権限を確認してください。');
+  });
+
+  it('APIバージョンが対応していない出力形式・追加機能は400を返す', async () => {
+    const markdown = await postDocument({
+      azureApiKey: FAKE_API_KEY,
+      azureEndpoint: fake.endpoint,
+      azureApiVersion: '2023-07-31',
+      azureOutputContentFormat: 'markdown',
+    });
+    const feature = await postDocument({ azureApiKey: FAKE_API_KEY, azureEndpoint: fake.endpoint, azureFeatures: ['formulas'] });
+
+    assert.equal(markdown.status, 400);
+    assert.deepEqual(await markdown.json(), { error: 'APIバージョン2023-07-31はMarkdown出力に対応していません' });
+    assert.equal(feature.status, 400);
+    assert.deepEqual(await feature.json(), { error: 'APIバージョン2024-11-30では追加機能「formulas」を使用できません' });
+  });
+
+  it('分析するページ数が上限を超える巨大な範囲は400を返す', async () => {
+    const response = await postDocument({ azureApiKey: FAKE_API_KEY, azureEndpoint: fake.endpoint, pages: '1-100000000' });
+
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /分析するページ数が上限（\d+ページ）を超えています/);
+  });
+
+  it('Base64のJSONも、デコードする前に本文のサイズで上限を判定する', async () => {
+    const previous = process.env.MAX_UPLOAD_BYTES;
+    process.env.MAX_UPLOAD_BYTES = '1024';
+    try {
+      const body = JSON.stringify({ fileBase64: Buffer.alloc(100 * 1024).toString('base64'), fileName: 'intake.png' });
+      const response = await POST(new NextRequest('http://localhost/api/process-document', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      }));
+
+      assert.equal(response.status, 413);
+    } finally {
+      if (previous === undefined) delete process.env.MAX_UPLOAD_BYTES;
+      else process.env.MAX_UPLOAD_BYTES = previous;
+    }
+  });
+
+  it('Content-Lengthのないmultipartも、上限を超えた時点で読み込みをやめて413を返す', async () => {
+    const previous = process.env.MAX_UPLOAD_BYTES;
+    process.env.MAX_UPLOAD_BYTES = '1024';
+    try {
+      const chunk = new Uint8Array(64 * 1024);
+      const totalChunks = 100;
+      let sentChunks = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sentChunks === totalChunks) {
+            controller.close();
+            return;
+          }
+          sentChunks++;
+          controller.enqueue(chunk);
+        },
+      });
+      const response = await POST(new NextRequest('http://localhost/api/process-document', {
+        method: 'POST',
+        headers: { 'Content-Type': 'multipart/form-data; boundary=qscan' },
+        body,
+        duplex: 'half',
+      }));
+
+      assert.equal(response.status, 413);
+      assert.ok(sentChunks < totalChunks);
+    } finally {
+      if (previous === undefined) delete process.env.MAX_UPLOAD_BYTES;
+      else process.env.MAX_UPLOAD_BYTES = previous;
+    }
+  });
+
+  it('対応していないLLMバックエンドは400を返す', async () => {
+    const response = await postDocument({
+      azureApiKey: FAKE_API_KEY,
+      azureEndpoint: fake.endpoint,
+      gemmaBaseUrl: 'http://localhost:8080',
+      gemmaBackend: 'vllm',
+    });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'サポートされていないLLMバックエンドです: vllm' });
+  });
+
+  it('Azureのキーがない場合は400を返す', async () => {
+    const response = await postDocument({ azureEndpoint: fake.endpoint });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Azure APIキーとエンドポイントが必要です' });
+  });
+});
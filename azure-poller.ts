@@ -0,0 +1,187 @@
+// Azure APIの呼び出しを再試行し、非同期操作の完了を待機するためのユーティリティ関数
+
+import { extractAzureErrorInfo } from './azure-utils';
+
+// 再試行の設定
+export interface RetryOptions {
+  // 一時的なエラーを再試行する最大回数
+  maxRetries?: number;
+  // バックオフの初期待機時間
+  initialDelayMs?: number;
+  // バックオフの最大待機時間
+  maxDelayMs?: number;
+  // この時刻（エポックミリ秒）を過ぎたら再試行しない
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+// ポーリングの設定
+export interface PollOptions extends RetryOptions {
+  // 完了を待機する合計時間
+  timeoutMs?: number;
+  onPoll?: (attempt: number, status: string, elapsedMs: number, timeoutMs: number) => Promise<void> | void;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 10000;
+export const DEFAULT_POLL_TIMEOUT_MS = 120000;
+
+// キャンセル時に投げるエラーメッセージ
+export const CANCELLED_MESSAGE = '処理がキャンセルされました';
+
+// 再試行すべき一時的なエラーかどうか
+export function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-Afterヘッダー（秒数またはHTTP日付）を待機時間に変換
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+// 上限付き指数バックオフの待機時間（ジッター付き）
+export function computeBackoffDelay(attempt: number, initialDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error(CANCELLED_MESSAGE);
+  }
+}
+
+// キャンセル可能な待機
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(CANCELLED_MESSAGE));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 一時的なエラー（429/5xx、ネットワークエラー）を再試行するfetch
+// 再試行しても成功しない場合は最後のレスポンスを返す
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions = {}): Promise<Response> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let retry = 0; ; retry++) {
+    throwIfAborted(options.signal);
+
+    let response: Response | null = null;
+    let networkError: unknown = null;
+
+    try {
+      response = await fetch(url, { ...init, signal: options.signal });
+    } catch (error) {
+      throwIfAborted(options.signal);
+      networkError = error;
+    }
+
+    if (response && !isTransientStatus(response.status)) {
+      return response;
+    }
+
+    const delay = parseRetryAfter(response?.headers.get('Retry-After') ?? null)
+      ?? computeBackoffDelay(retry + 1, initialDelayMs, maxDelayMs);
+    const pastDeadline = options.deadline !== undefined && Date.now() + delay > options.deadline;
+
+    if (retry >= maxRetries || pastDeadline) {
+      if (response) {
+        return response;
+      }
+      throw networkError;
+    }
+
+    await sleep(delay, options.signal);
+  }
+}
+
+// エラーレスポンスの本文を読み取り、人間が理解しやすいメッセージに変換
+export async function readAzureError(response: Response): Promise<string> {
+  let errorBody = {};
+  try {
+    errorBody = await response.json();
+  } catch {
+    // JSONでない場合はスキップ
+  }
+
+  return extractAzureErrorInfo(response, errorBody as Record<string, unknown>);
+}
+
+// Operation-LocationのURLをポーリングし、分析が完了するまで待機
+export async function pollAnalyzeOperation(
+  operationLocation: string,
+  apiKey: string,
+  options: PollOptions = {}
+): Promise<Record<string, unknown>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_POLL_TIMEOUT_MS;
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const startedAt = Date.now();
+  const deadline = options.deadline ?? startedAt + timeoutMs;
+
+  for (let attempt = 1; ; attempt++) {
+    const statusResponse = await fetchWithRetry(operationLocation, {
+      method: 'GET',
+      headers: {
+        'Ocp-Apim-Subscription-Key': apiKey,
+      },
+    }, { ...options, deadline });
+
+    if (!statusResponse.ok) {
+      throw new Error(await readAzureError(statusResponse));
+    }
+
+    const statusResult = await statusResponse.json();
+
+    if (options.onPoll) {
+      await options.onPoll(attempt, String(statusResult.status), Date.now() - startedAt, timeoutMs);
+    }
+
+    if (statusResult.status === 'succeeded') {
+      return statusResult;
+    } else if (statusResult.status === 'failed') {
+      throw new Error(`分析に失敗しました: ${JSON.stringify(statusResult.error || statusResult.errors)}`);
+    }
+
+    // まだ処理中の場合は、Retry-Afterまたはバックオフの時間だけ待機
+    const delay = parseRetryAfter(statusResponse.headers.get('Retry-After'))
+      ?? computeBackoffDelay(attempt, initialDelayMs, maxDelayMs);
+
+    if (Date.now() + delay > deadline) {
+      throw new Error(`タイムアウト: ${Math.round(timeoutMs / 1000)}秒以内にドキュメント分析が完了しませんでした`);
+    }
+
+    await sleep(delay, options.signal);
+  }
+}
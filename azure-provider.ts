@@ -0,0 +1,152 @@
+// Azure Document Intelligenceで分析するOCRプロバイダー
+
+import {
+  validateFileType,
+  normalizeAzureEndpoint,
+  validateApiKey,
+  humanizeErrorMessage
+} from './azure-utils';
+import {
+  DEFAULT_POLL_TIMEOUT_MS,
+  fetchWithRetry,
+  pollAnalyzeOperation,
+  readAzureError
+} from './azure-poller';
+import { computeAnalysisCacheKey, getAnalysisCache } from './analysis-cache';
+import {
+  AzureAnalyzeSettings,
+  DEFAULT_AZURE_ANALYZE_SETTINGS,
+  getDefaultAzureFeatures,
+  buildAnalyzeUrl,
+  describeAnalyzeVariant,
+  normalizeAnalyzeResponse
+} from './azure-api-versions';
+import { OcrOptions, OcrProvider, toOcrResult } from './ocr-provider';
+
+// Azureの接続設定
+export interface AzureOcrConfig {
+  apiKey: string;
+  endpoint: string;
+  modelId: string;
+  // APIバージョン・追加機能・出力形式（省略時は既定の設定）
+  analyzeSettings?: AzureAnalyzeSettings;
+}
+
+// analyzeDocumentのオプション
+export interface AnalyzeOptions extends OcrOptions {
+  // 分析するページ（例: 1-3,5、省略時はすべて）
+  pages?: string;
+  // APIバージョン・追加機能・出力形式（省略時は既定の設定）
+  analyzeSettings?: AzureAnalyzeSettings;
+}
+
+// Azure Document Intelligence APIを呼び出す関数
+export async function analyzeDocument(
+  fileBytes: Buffer,
+  fileName: string,
+  fileType: string,
+  apiKey: string,
+  endpoint: string,
+  modelId: string,
+  options: AnalyzeOptions = {}
+) {
+  try {
+    // 入力の検証
+    if (!validateFileType(fileType)) {
+      throw new Error('サポートされていないファイル形式です');
+    }
+    
+    if (!validateApiKey(apiKey)) {
+      throw new Error('無効なAPIキーです');
+    }
+    
+    // モデルIDの検証
+    if (!modelId || modelId.trim() === '') {
+      modelId = 'prebuilt-layout'; // デフォルトモデルとしてprebuilt-layoutを使用
+    }
+    
+    // エンドポイントの正規化
+    const baseEndpoint = normalizeAzureEndpoint(endpoint);
+    const settings = options.analyzeSettings ?? { ...DEFAULT_AZURE_ANALYZE_SETTINGS, features: getDefaultAzureFeatures(modelId) };
+    const apiUrl = buildAnalyzeUrl(baseEndpoint, modelId, settings, options.pages);
+    
+    // 同じファイル・モデル・ページ・設定の分析結果があればAzureを呼び出さない
+    const cache = getAnalysisCache();
+    const cacheKey = computeAnalysisCacheKey(
+      fileBytes,
+      modelId,
+      settings.apiVersion,
+      baseEndpoint,
+      options.pages,
+      describeAnalyzeVariant(settings)
+    );
+    const cachedResult = options.forceRefresh ? null : cache.get(cacheKey);
+    if (cachedResult) {
+      return { success: true as const, ...toOcrResult(cachedResult, true) };
+    }
+    
+    const timeoutMs = options.timeoutMs ?? DEFAULT_POLL_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    // Azure Document Intelligence APIにファイルのバイナリを送信（429/5xxは再試行）
+    const response = await fetchWithRetry(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Ocp-Apim-Subscription-Key': apiKey,
+      },
+      body: new Uint8Array(fileBytes),
+    }, { signal: options.signal, deadline });
+
+    if (!response.ok) {
+      throw new Error(await readAzureError(response));
+    }
+
+    // 非同期操作の結果を取得するためのURLを取得
+    const operationLocation = response.headers.get('Operation-Location');
+    
+    if (!operationLocation) {
+      throw new Error('Operation-Locationヘッダーが見つかりません');
+    }
+
+    // 結果が準備できるまで待機
+    const analysisResult = normalizeAnalyzeResponse(await pollAnalyzeOperation(operationLocation, apiKey, {
+      signal: options.signal,
+      onPoll: options.onPoll,
+      timeoutMs,
+      deadline,
+    }));
+    cache.set(cacheKey, analysisResult);
+    
+    // 結果からテキストと構造化データを抽出
+    return { success: true as const, ...toOcrResult(analysisResult, false) };
+  } catch (error) {
+    console.error('Azure Document Intelligence APIエラー:', error);
+    return {
+      success: false as const,
+      error: humanizeErrorMessage(error),
+    };
+  }
+}
+
+// Azure Document IntelligenceのOCRプロバイダーを作成
+export function createAzureOcrProvider(config: AzureOcrConfig): OcrProvider {
+  return {
+    type: 'azure',
+    async analyze(input, options = {}) {
+      const result = await analyzeDocument(
+        input.bytes,
+        input.fileName,
+        input.fileType,
+        config.apiKey,
+        config.endpoint,
+        config.modelId,
+        { ...options, pages: input.pages, analyzeSettings: config.analyzeSettings }
+      );
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return { content: result.content, structuredData: result.structuredData, cached: result.cached };
+    },
+  };
+}
@@ -1,5 +1,10 @@
 // Azure Document Intelligence APIとの統合を強化するためのユーティリティ関数
 
+import { associateSelectionMarks, groupSelectionMarks } from './selection-marks';
+import { buildReadingOrder, isHandwrittenText, readHandwrittenSpans } from './reading-order';
+import { buildTableLayout, buildTableRecords, formatTableRecord, renderTableMarkdown } from '../lib/table-layout';
+import { HANDWRITTEN_MARKER } from '../lib/intake-record';
+
 // ファイルタイプの検証
 export function validateFileType(fileType: string): boolean {
   const supportedTypes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'];
@@ -38,20 +43,146 @@ export function validateApiKey(apiKey: string): boolean {
   return apiKeyRegex.test(apiKey);
 }
 
+// 行に含まれる単語の信頼度のうち最も低いものを求める（単語が見つからない場合はnull）
+export function computeLineConfidence(
+  line: Record<string, unknown>,
+  words: Array<Record<string, unknown>>
+): number | null {
+  const spans = (line.spans || []) as Array<Record<string, number>>;
+  let confidence: number | null = null;
+  
+  for (const word of words) {
+    const wordSpan = word.span as Record<string, number> | undefined;
+    if (!wordSpan || typeof word.confidence !== 'number') continue;
+    
+    const inLine = spans.some((span) =>
+      wordSpan.offset >= span.offset && wordSpan.offset + wordSpan.length <= span.offset + span.length
+    );
+    if (inLine) {
+      confidence = confidence === null ? word.confidence : Math.min(confidence, word.confidence);
+    }
+  }
+  
+  return confidence;
+}
+
+// 分析結果からテキストを抽出する関数
+export function extractTextFromAnalysisResult(result: Record<string, unknown>): string {
+  try {
+    // ページごとのテキストを抽出
+    const analyzeResult = result.analyzeResult as Record<string, unknown> | undefined;
+    const pages = (analyzeResult?.pages || []) as Array<Record<string, unknown>>;
+    const readingOrder = buildReadingOrder(analyzeResult);
+    const handwrittenSpans = readHandwrittenSpans(analyzeResult);
+    let extractedText = '';
+    
+    for (const page of pages) {
+      const pageNumber = page.pageNumber;
+      extractedText += `===== ページ ${pageNumber} =====\n\n`;
+      
+      // 段落がある場合は読み順に組み立てた行（ヘッダー・フッターを除き、質問と手書きの回答をまとめる）、
+      // ない場合はページ内の行を抽出し、手書きの行には目印を付ける
+      const lines = readingOrder.length > 0
+        ? readingOrder.filter((line) => line.pageNumber === pageNumber)
+        : ((page.lines || []) as Array<Record<string, unknown>>).map((line) => ({
+          content: String(line.content),
+          handwritten: isHandwrittenText(line.spans, handwrittenSpans),
+        }));
+      for (const line of lines) {
+        extractedText += line.handwritten ? `${line.content} ${HANDWRITTEN_MARKER}\n` : `${line.content}\n`;
+      }
+      
+      extractedText += '\n';
+    }
+    
+    // テーブルがある場合は抽出
+    const tables = (analyzeResult?.tables || []) as Array<Record<string, unknown>>;
+    if (tables.length > 0) {
+      extractedText += '===== テーブル =====\n\n';
+      
+      for (let i = 0; i < tables.length; i++) {
+        extractedText += `テーブル ${i + 1}:\n`;
+        
+        // 結合セルと見出し行を考慮して再構成し、行ごとに「見出し: 値」の形式で出力
+        // （見出し行しかない表はMarkdownの表として出力）
+        const layout = buildTableLayout(tables[i]);
+        const records = buildTableRecords(layout);
+        extractedText += records.length > 0
+          ? records.map(formatTableRecord).join('\n')
+          : renderTableMarkdown(layout);
+        
+        extractedText += '\n\n';
+      }
+    }
+    
+    // キーと値のペアがある場合は抽出
+    const keyValuePairs = (analyzeResult?.keyValuePairs || []) as Array<Record<string, unknown>>;
+    if (keyValuePairs.length > 0) {
+      extractedText += '===== フォームフィールド =====\n\n';
+      
+      for (const pair of keyValuePairs) {
+        const key = ((pair.key as Record<string, unknown>)?.content as string) || '不明なフィールド';
+        const value = ((pair.value as Record<string, unknown>)?.content as string) || '';
+        extractedText += `${key}: ${value}\n`;
+      }
+      
+      extractedText += '\n';
+    }
+    
+    // 選択マーク（チェックボックス）がある場合は質問ごとに抽出
+    const selectionMarks = pages.flatMap((page) => associateSelectionMarks(page, tables));
+    if (selectionMarks.length > 0) {
+      extractedText += '===== チェック項目 =====\n\n';
+      
+      for (const group of groupSelectionMarks(selectionMarks)) {
+        const options = group.options.map((mark) => `${mark.label}${mark.checked ? '☑' : '☐'}`).join(' ');
+        extractedText += group.question ? `${group.question}: ${options}\n` : `${options}\n`;
+      }
+      
+      extractedText += '\n';
+    }
+    
+    // 追加機能（barcodes）でバーコードを検出した場合は抽出
+    const barcodes = pages.flatMap((page) => (page.barcodes || []) as Array<Record<string, unknown>>);
+    if (barcodes.length > 0) {
+      extractedText += '===== バーコード =====\n\n';
+      
+      for (const barcode of barcodes) {
+        extractedText += `${barcode.kind || 'バーコード'}: ${barcode.value || ''}\n`;
+      }
+      
+      extractedText += '\n';
+    }
+    
+    return extractedText.trim();
+  } catch (error) {
+    console.error('テキスト抽出エラー:', error);
+    return '結果からテキストを抽出できませんでした';
+  }
+}
+
 // 分析結果からより構造化されたデータを抽出する拡張関数
 export function extractStructuredData(analysisResult: Record<string, unknown>): Record<string, unknown> | null {
   try {
     const result: Record<string, unknown> = {
       pages: [],
+      readingOrder: [],
       tables: [],
       keyValuePairs: [],
+      selectionMarks: [],
+      barcodes: [],
+      languages: [],
+      // outputContentFormat=markdownで分析した場合の全文（テキスト出力の場合はnull）
+      markdown: null,
     };
     
     // ページデータの抽出
     const analyzeResult = analysisResult.analyzeResult as Record<string, unknown> | undefined;
     const pages = (analyzeResult?.pages || []) as Array<Record<string, unknown>>;
+    const handwrittenSpans = readHandwrittenSpans(analyzeResult);
     
     for (const page of pages) {
+      const words = (page.words as Array<Record<string, unknown>> || []);
       const pageData = {
         pageNumber: page.pageNumber,
         width: page.width,
@@ -59,12 +190,29 @@ export function extractStructuredData(analysisResult: Record<string, unknown>):
         unit: page.unit,
         lines: (page.lines as Array<Record<string, unknown>> || []).map((line) => ({
           content: line.content,
-          boundingBox: line.boundingBox,
+          // v3以降のAPIはpolygon、v2.1はboundingBoxで座標を返す
+          boundingBox: line.polygon || line.boundingBox,
+          confidence: computeLineConfidence(line, words),
+          handwritten: isHandwrittenText(line.spans, handwrittenSpans),
+        })),
+        words: words.map((word) => ({
+          content: word.content,
+          confidence: word.confidence,
+          boundingBox: word.polygon || word.boundingBox,
         })),
       };
       (result.pages as Array<Record<string, unknown>>).push(pageData);
     }
     
+    // 段落から組み立てた読み順の行（段落がない場合は空）
+    result.readingOrder = buildReadingOrder(analyzeResult).map(({ spans, ...line }) => {
+      const page = pages.find((p) => p.pageNumber === line.pageNumber);
+      return {
+        ...line,
+        confidence: computeLineConfidence({ spans }, (page?.words || []) as Array<Record<string, unknown>>),
+      };
+    });
+    
     // テーブルデータの抽出
     const tables = (analyzeResult?.tables || []) as Array<Record<string, unknown>>;
     for (const table of tables) {
@@ -76,28 +224,59 @@ export function extractStructuredData(analysisResult: Record<string, unknown>):
       
       // セルデータの抽出
       for (const cell of (table.cells as Array<Record<string, unknown>> || [])) {
+        const cellRegion = (cell.boundingRegions as Array<Record<string, unknown>> | undefined)?.[0];
         (tableData.cells as Array<Record<string, unknown>>).push({
           rowIndex: cell.rowIndex,
           columnIndex: cell.columnIndex,
           rowSpan: cell.rowSpan || 1,
           columnSpan: cell.columnSpan || 1,
+          kind: cell.kind ?? null,
           content: cell.content,
-          boundingBox: cell.boundingBox,
+          boundingBox: cellRegion?.polygon || cell.boundingBox,
+          pageNumber: cellRegion?.pageNumber ?? null,
         });
       }
       
       (result.tables as Array<Record<string, unknown>>).push(tableData);
     }
     
+    // 選択マーク（チェックボックス）の抽出と、近くのラベル・表のセルとの対応付け
+    for (const page of pages) {
+      (result.selectionMarks as Array<Record<string, unknown>>).push(
+        ...associateSelectionMarks(page, tables).map((mark) => ({ ...mark }))
+      );
+    }
+    
     // キーと値のペアの抽出
     const keyValuePairs = (analyzeResult?.keyValuePairs || []) as Array<Record<string, unknown>>;
     for (const pair of keyValuePairs) {
+      const keyRegions = (pair.key as Record<string, unknown>)?.boundingRegions as Array<Record<string, unknown>> | undefined;
+      const valueRegions = (pair.value as Record<string, unknown>)?.boundingRegions as Array<Record<string, unknown>> | undefined;
       (result.keyValuePairs as Array<Record<string, unknown>>).push({
         key: (pair.key as Record<string, unknown>)?.content || '',
         value: (pair.value as Record<string, unknown>)?.content || '',
+        pageNumber: keyRegions?.[0]?.pageNumber ?? null,
+        // 回答欄の位置を優先し、なければ項目名の位置を使用
+        boundingBox: valueRegions?.[0]?.polygon || keyRegions?.[0]?.polygon || null,
+        confidence: typeof pair.confidence === 'number' ? pair.confidence : null,
+        handwritten: isHandwrittenText((pair.value as Record<string, unknown>)?.spans, handwrittenSpans),
       });
     }
     
+    // 追加機能（barcodes / languages）で検出したバーコードと言語
+    result.barcodes = pages.flatMap((page) => ((page.barcodes || []) as Array<Record<string, unknown>>).map((barcode) => ({
+      kind: barcode.kind ?? null,
+      value: barcode.value ?? '',
+      pageNumber: page.pageNumber,
+      boundingBox: barcode.polygon || null,
+      confidence: typeof barcode.confidence === 'number' ? barcode.confidence : null,
+    })));
+    result.languages = ((analyzeResult?.languages || []) as Array<Record<string, unknown>>).map((language) => ({
+      locale: language.locale,
+      confidence: typeof language.confidence === 'number' ? language.confidence : null,
+    }));
+    result.markdown = typeof analyzeResult?.markdown === 'string' ? analyzeResult.markdown : null;
+    
     return result;
   } catch {
     console.error('構造化データ抽出エラーが発生しました');
@@ -0,0 +1,77 @@
+// 一括処理の状態と、結果をまとめて出力する関数（JSON・CSV）
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeField,
+  IntakeFieldKey,
+  MedicalIntakeRecord,
+  formatIntakeValue
+} from './intake-record';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// 状態の表示名
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: '待機中',
+  running: '処理中',
+  done: '完了',
+  failed: '失敗',
+  cancelled: 'キャンセル',
+};
+
+// 出力する1件分の結果
+export interface BatchResultItem {
+  fileName: string;
+  status: BatchItemStatus;
+  error: string | null;
+  intakeRecord: MedicalIntakeRecord | null;
+  formattedContent: string | null;
+}
+
+// すべての結果を1つのJSONにする
+export function buildBatchJson(items: BatchResultItem[]): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      items: items.map((item) => ({
+        fileName: item.fileName,
+        status: item.status,
+        error: item.error,
+        intakeRecord: item.intakeRecord,
+        formattedContent: item.formattedContent,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// CSVのセルの値をエスケープ（表計算ソフトで数式として解釈される先頭の記号も無効にする）
+function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// フィールドの値をセルの文字列にする（複数の値は「 / 」で区切る）
+function formatRecordCell(record: MedicalIntakeRecord | null, key: IntakeFieldKey): string {
+  const value = record?.[key];
+  if (!value) {
+    return '';
+  }
+  const fields = (Array.isArray(value) ? value : [value]) as IntakeField<unknown>[];
+  return fields.map((field) => formatIntakeValue(key, field)).join(' / ');
+}
+
+// すべての結果を1ファイル1行のCSVにする（Excelで文字化けしないようBOMを付ける）
+export function buildBatchCsv(items: BatchResultItem[]): string {
+  const keys = Object.keys(INTAKE_FIELD_LABELS) as IntakeFieldKey[];
+  const header = ['ファイル名', '状態', 'エラー', ...keys.map((key) => INTAKE_FIELD_LABELS[key])];
+  const rows = items.map((item) => [
+    item.fileName,
+    BATCH_STATUS_LABELS[item.status],
+    item.error || '',
+    ...keys.map((key) => formatRecordCell(item.intakeRecord, key)),
+  ]);
+
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
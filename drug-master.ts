@@ -0,0 +1,108 @@
+// オフラインで使用する医薬品マスタ（商品名→一般名、YJコード、薬効分類）と相互作用の表
+// 問診票によく記入される内服薬の一部を収録したもの。yjCodeは成分を表す先頭7桁で、
+// 運用する医療機関の医薬品マスタ（公式の薬価基準収載品目リストなど）に合わせて追加・確認すること
+
+// 医薬品マスタの1成分
+export interface DrugMasterEntry {
+  // 一般名（成分名）
+  genericName: string;
+  // 一般名の別表記（塩を省いた名称など）
+  aliases: string[];
+  // 主な商品名
+  brandNames: string[];
+  // YJコードの先頭7桁（薬効分類4桁＋成分3桁）
+  yjCode: string;
+  // 薬効分類（相互作用・重複の判定に使用）
+  drugClass: string;
+}
+
+// 相互作用の重大度（併用禁忌・併用注意）
+export type InteractionSeverity = 'contraindicated' | 'caution';
+
+// 相互作用の対象（一般名または薬効分類）
+export type InteractionTarget = { genericName: string } | { drugClass: string };
+
+// 2剤の組み合わせの相互作用
+export interface DrugInteractionRule {
+  a: InteractionTarget;
+  b: InteractionTarget;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+// 「血圧の薬」など、薬剤名が書かれていない記載と対応する薬効分類
+export interface DrugCategoryPhrase {
+  pattern: RegExp;
+  label: string;
+  drugClasses: string[];
+}
+
+export const DRUG_MASTER: DrugMasterEntry[] = [
+  { genericName: 'アムロジピンベシル酸塩', aliases: ['アムロジピン'], brandNames: ['ノルバスク', 'アムロジン'], yjCode: '2171022', drugClass: 'カルシウム拮抗薬' },
+  { genericName: 'ニフェジピン', aliases: [], brandNames: ['アダラート', 'アダラートCR'], yjCode: '2171014', drugClass: 'カルシウム拮抗薬' },
+  { genericName: 'カンデサルタンシレキセチル', aliases: ['カンデサルタン'], brandNames: ['ブロプレス'], yjCode: '2149040', drugClass: 'ARB' },
+  { genericName: 'バルサルタン', aliases: [], brandNames: ['ディオバン'], yjCode: '2149041', drugClass: 'ARB' },
+  { genericName: 'テルミサルタン', aliases: [], brandNames: ['ミカルディス'], yjCode: '2149042', drugClass: 'ARB' },
+  { genericName: 'オルメサルタンメドキソミル', aliases: ['オルメサルタン'], brandNames: ['オルメテック'], yjCode: '2149044', drugClass: 'ARB' },
+  { genericName: 'エナラプリルマレイン酸塩', aliases: ['エナラプリル'], brandNames: ['レニベース'], yjCode: '2144002', drugClass: 'ACE阻害薬' },
+  { genericName: 'ビソプロロールフマル酸塩', aliases: ['ビソプロロール'], brandNames: ['メインテート'], yjCode: '2123016', drugClass: 'β遮断薬' },
+  { genericName: 'フロセミド', aliases: [], brandNames: ['ラシックス'], yjCode: '2139005', drugClass: 'ループ利尿薬' },
+  { genericName: 'スピロノラクトン', aliases: [], brandNames: ['アルダクトンA', 'アルダクトン'], yjCode: '2133001', drugClass: '抗アルドステロン薬' },
+  { genericName: 'エプレレノン', aliases: [], brandNames: ['セララ'], yjCode: '2149046', drugClass: '抗アルドステロン薬' },
+  { genericName: 'ジゴキシン', aliases: [], brandNames: ['ジゴシン'], yjCode: '2113003', drugClass: '強心配糖体' },
+  { genericName: 'ワルファリンカリウム', aliases: ['ワルファリン', 'ワーファリン'], brandNames: ['ワーファリン'], yjCode: '3332001', drugClass: '抗凝固薬' },
+  { genericName: 'アスピリン', aliases: [], brandNames: ['バイアスピリン'], yjCode: '3399007', drugClass: '抗血小板薬' },
+  { genericName: 'クロピドグレル硫酸塩', aliases: ['クロピドグレル'], brandNames: ['プラビックス'], yjCode: '3399008', drugClass: '抗血小板薬' },
+  { genericName: 'ロキソプロフェンナトリウム水和物', aliases: ['ロキソプロフェン'], brandNames: ['ロキソニン'], yjCode: '1149019', drugClass: 'NSAIDs' },
+  { genericName: 'セレコキシブ', aliases: [], brandNames: ['セレコックス'], yjCode: '1149037', drugClass: 'NSAIDs' },
+  { genericName: 'アセトアミノフェン', aliases: [], brandNames: ['カロナール'], yjCode: '1141007', drugClass: '解熱鎮痛薬' },
+  { genericName: 'アトルバスタチンカルシウム水和物', aliases: ['アトルバスタチン'], brandNames: ['リピトール'], yjCode: '2189015', drugClass: 'スタチン' },
+  { genericName: 'ロスバスタチンカルシウム', aliases: ['ロスバスタチン'], brandNames: ['クレストール'], yjCode: '2189017', drugClass: 'スタチン' },
+  { genericName: 'シンバスタチン', aliases: [], brandNames: ['リポバス'], yjCode: '2189011', drugClass: 'スタチン' },
+  { genericName: 'メトホルミン塩酸塩', aliases: ['メトホルミン'], brandNames: ['メトグルコ'], yjCode: '3962002', drugClass: 'ビグアナイド系糖尿病薬' },
+  { genericName: 'シタグリプチンリン酸塩水和物', aliases: ['シタグリプチン'], brandNames: ['ジャヌビア', 'グラクティブ'], yjCode: '3969010', drugClass: 'DPP-4阻害薬' },
+  { genericName: 'ファモチジン', aliases: [], brandNames: ['ガスター'], yjCode: '2325003', drugClass: 'H2遮断薬' },
+  { genericName: 'ランソプラゾール', aliases: [], brandNames: ['タケプロン'], yjCode: '2329023', drugClass: 'プロトンポンプ阻害薬' },
+  { genericName: 'オメプラゾール', aliases: [], brandNames: ['オメプラール', 'オメプラゾン'], yjCode: '2329022', drugClass: 'プロトンポンプ阻害薬' },
+  { genericName: 'クラリスロマイシン', aliases: [], brandNames: ['クラリス', 'クラリシッド'], yjCode: '6149003', drugClass: 'マクロライド系抗菌薬' },
+  { genericName: 'レボフロキサシン水和物', aliases: ['レボフロキサシン'], brandNames: ['クラビット'], yjCode: '6241013', drugClass: 'ニューキノロン系抗菌薬' },
+  { genericName: 'イトラコナゾール', aliases: [], brandNames: ['イトリゾール'], yjCode: '6290004', drugClass: 'アゾール系抗真菌薬' },
+  { genericName: 'トリアゾラム', aliases: [], brandNames: ['ハルシオン'], yjCode: '1124007', drugClass: 'ベンゾジアゼピン系睡眠薬' },
+  { genericName: 'ゾルピデム酒石酸塩', aliases: ['ゾルピデム'], brandNames: ['マイスリー'], yjCode: '1129009', drugClass: '非ベンゾジアゼピン系睡眠薬' },
+  { genericName: 'エチゾラム', aliases: [], brandNames: ['デパス'], yjCode: '1179025', drugClass: 'ベンゾジアゼピン系抗不安薬' },
+  { genericName: 'カルバマゼピン', aliases: [], brandNames: ['テグレトール'], yjCode: '1139002', drugClass: '抗てんかん薬' },
+  { genericName: 'レボチロキシンナトリウム水和物', aliases: ['レボチロキシン'], brandNames: ['チラーヂンS', 'チラーヂン'], yjCode: '2431004', drugClass: '甲状腺ホルモン' },
+  { genericName: 'プレドニゾロン', aliases: [], brandNames: ['プレドニン'], yjCode: '2456001', drugClass: '副腎皮質ステロイド' },
+  { genericName: 'アロプリノール', aliases: [], brandNames: ['ザイロリック'], yjCode: '3943001', drugClass: '尿酸生成抑制薬' },
+  { genericName: 'フェブキソスタット', aliases: [], brandNames: ['フェブリク'], yjCode: '3949003', drugClass: '尿酸生成抑制薬' },
+  { genericName: 'フェキソフェナジン塩酸塩', aliases: ['フェキソフェナジン'], brandNames: ['アレグラ'], yjCode: '4490023', drugClass: '抗アレルギー薬' },
+];
+
+export const DRUG_INTERACTIONS: DrugInteractionRule[] = [
+  { a: { genericName: 'シンバスタチン' }, b: { genericName: 'クラリスロマイシン' }, severity: 'contraindicated', description: 'シンバスタチンの血中濃度が上昇し、横紋筋融解症が起こるおそれ' },
+  { a: { genericName: 'シンバスタチン' }, b: { genericName: 'イトラコナゾール' }, severity: 'contraindicated', description: 'シンバスタチンの血中濃度が上昇し、横紋筋融解症が起こるおそれ' },
+  { a: { genericName: 'トリアゾラム' }, b: { genericName: 'クラリスロマイシン' }, severity: 'contraindicated', description: 'トリアゾラムの血中濃度が上昇し、作用が増強・延長するおそれ' },
+  { a: { genericName: 'トリアゾラム' }, b: { genericName: 'イトラコナゾール' }, severity: 'contraindicated', description: 'トリアゾラムの血中濃度が上昇し、作用が増強・延長するおそれ' },
+  { a: { genericName: 'スピロノラクトン' }, b: { genericName: 'エプレレノン' }, severity: 'contraindicated', description: '高カリウム血症のおそれ' },
+  { a: { drugClass: '抗凝固薬' }, b: { drugClass: '抗血小板薬' }, severity: 'caution', description: '出血のリスクが高まるおそれ' },
+  { a: { drugClass: '抗凝固薬' }, b: { drugClass: 'NSAIDs' }, severity: 'caution', description: '出血のリスクが高まるおそれ' },
+  { a: { genericName: 'ワルファリンカリウム' }, b: { genericName: 'クラリスロマイシン' }, severity: 'caution', description: 'ワルファリンの作用が増強するおそれ（PT-INRの確認）' },
+  { a: { drugClass: '抗血小板薬' }, b: { drugClass: 'NSAIDs' }, severity: 'caution', description: '消化管出血のリスクが高まるおそれ' },
+  { a: { genericName: 'クロピドグレル硫酸塩' }, b: { genericName: 'オメプラゾール' }, severity: 'caution', description: 'クロピドグレルの作用が減弱するおそれ' },
+  { a: { genericName: 'ジゴキシン' }, b: { genericName: 'クラリスロマイシン' }, severity: 'caution', description: 'ジゴキシンの血中濃度が上昇し、中毒症状が起こるおそれ' },
+  { a: { genericName: 'カルバマゼピン' }, b: { genericName: 'クラリスロマイシン' }, severity: 'caution', description: 'カルバマゼピンの血中濃度が上昇するおそれ' },
+  { a: { drugClass: 'ニューキノロン系抗菌薬' }, b: { drugClass: 'NSAIDs' }, severity: 'caution', description: '痙攣が起こるおそれ' },
+  { a: { drugClass: 'ARB' }, b: { drugClass: '抗アルドステロン薬' }, severity: 'caution', description: '高カリウム血症のおそれ' },
+  { a: { drugClass: 'ACE阻害薬' }, b: { drugClass: '抗アルドステロン薬' }, severity: 'caution', description: '高カリウム血症のおそれ' },
+];
+
+export const DRUG_CATEGORY_PHRASES: DrugCategoryPhrase[] = [
+  { pattern: /血圧|降圧/, label: '降圧薬', drugClasses: ['カルシウム拮抗薬', 'ARB', 'ACE阻害薬', 'β遮断薬', 'ループ利尿薬', '抗アルドステロン薬'] },
+  { pattern: /糖尿|血糖/, label: '糖尿病薬', drugClasses: ['ビグアナイド系糖尿病薬', 'DPP-4阻害薬'] },
+  { pattern: /コレステロール|脂質|中性脂肪/, label: '脂質異常症治療薬', drugClasses: ['スタチン'] },
+  { pattern: /血液.*(サラサラ|さらさら)|血栓|抗凝固/, label: '抗血栓薬', drugClasses: ['抗凝固薬', '抗血小板薬'] },
+  { pattern: /睡眠|眠剤|眠れない|眠り/, label: '睡眠薬', drugClasses: ['ベンゾジアゼピン系睡眠薬', '非ベンゾジアゼピン系睡眠薬'] },
+  { pattern: /胃/, label: '胃薬', drugClasses: ['H2遮断薬', 'プロトンポンプ阻害薬'] },
+  { pattern: /痛み止め|鎮痛/, label: '鎮痛薬', drugClasses: ['NSAIDs', '解熱鎮痛薬'] },
+  { pattern: /痛風|尿酸/, label: '尿酸降下薬', drugClasses: ['尿酸生成抑制薬'] },
+];
@@ -0,0 +1,182 @@
+// Azure Document Intelligenceの代わりにローカルで動作するテスト用のサーバー
+// analyzeのPOST、Operation-Locationヘッダー、結果のポーリングを実装し、
+// 応答のシナリオ（成功・失敗・HTTPエラー・ヘッダーなし・遅い完了）を切り替えられる
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+// 偽サーバーが受け付けるAPIキー（validateApiKeyの形式に合わせた32文字の16進数）
+export const FAKE_API_KEY = '0123456789abcdef0123456789abcdef';
+
+// analyzeのPOSTに対する応答のシナリオ
+export interface FakeAnalyzeScenario {
+  // analyzeのPOSTをこのステータスで失敗させる（401/403/404/429/500など）
+  analyzeStatus?: number;
+  // 失敗させる場合のレスポンス本文（省略時はAzureと同じ形式のエラー）
+  analyzeErrorBody?: unknown;
+  // 202を返すがOperation-Locationヘッダーを付けない
+  omitOperationLocation?: boolean;
+  // 完了するまでにrunningを返すポーリングの回数
+  runningPolls?: number;
+  // ポーリングの応答に付けるRetry-After（秒）
+  retryAfterSeconds?: number;
+  // すべての応答を返すまでの遅延
+  responseDelayMs?: number;
+  // 分析の結果（resultはsucceededの場合の応答本文、errorはfailedの場合のエラー）
+  outcome?:
+    | { status: 'succeeded'; result: Record<string, unknown> }
+    | { status: 'failed'; error: { code: string; message: string } };
+}
+
+// 受け付けたリクエストの記録
+export interface FakeRequestRecord {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  apiKey: string | null;
+  contentType: string | null;
+  bodyBytes: number;
+}
+
+export interface FakeDocumentIntelligence {
+  // Azureのエンドポイントの代わりに指定するURL
+  endpoint: string;
+  requests: FakeRequestRecord[];
+  // analyzeのPOSTごとに先頭から順にシナリオを使う（最後のシナリオは以降も繰り返し使う）
+  useScenarios(...scenarios: FakeAnalyzeScenario[]): void;
+  close(): Promise<void>;
+}
+
+// 実行中の分析
+interface FakeOperation {
+  scenario: FakeAnalyzeScenario;
+  polls: number;
+  createdDateTime: string;
+}
+
+const EMPTY_RESULT = { status: 'succeeded', analyzeResult: { pages: [], tables: [], keyValuePairs: [] } };
+
+// Azureのエラー応答と同じ形式の本文
+function azureErrorBody(status: number): unknown {
+  const messages: Record<number, [string, string]> = {
+    401: ['401', 'Access denied due to invalid subscription key or wrong API endpoint.'],
+    403: ['403', 'Out of call volume quota for FormRecognizer F0 pricing tier.'],
+    404: ['404', 'Resource not found'],
+    429: ['429', 'Requests to the Analyze Document Operation have exceeded rate limit of your current FormRecognizer S0 pricing tier.'],
+  };
+  const [code, message] = messages[status] || ['InternalServerError', 'An unexpected error occurred.'];
+  return { error: { code, message } };
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// 偽サーバーを空いているポートで起動
+export async function startFakeDocumentIntelligence(options: { port?: number; apiKey?: string } = {}): Promise<FakeDocumentIntelligence> {
+  const apiKey = options.apiKey ?? FAKE_API_KEY;
+  const requests: FakeRequestRecord[] = [];
+  const operations = new Map<string, FakeOperation>();
+  let scenarios: FakeAnalyzeScenario[] = [{ outcome: { status: 'succeeded', result: EMPTY_RESULT } }];
+  let endpoint = '';
+
+  const nextScenario = (): FakeAnalyzeScenario => (scenarios.length > 1 ? scenarios.shift()! : scenarios[0]);
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', endpoint);
+    const body = await readBody(request);
+    requests.push({
+      method: request.method || '',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      apiKey: (request.headers['ocp-apim-subscription-key'] as string | undefined) ?? null,
+      contentType: request.headers['content-type'] ?? null,
+      bodyBytes: body.byteLength,
+    });
+
+    if (request.headers['ocp-apim-subscription-key'] !== apiKey) {
+      sendJson(response, 401, azureErrorBody(401));
+      return;
+    }
+
+    // POST /documentintelligence/documentModels/{modelId}:analyze（2023-07-31はformrecognizer）
+    const analyzeMatch = url.pathname.match(/^\/(documentintelligence|formrecognizer)\/documentModels\/([^/:]+):analyze$/);
+    if (request.method === 'POST' && analyzeMatch) {
+      const scenario = nextScenario();
+      if (scenario.responseDelayMs) {
+        await new Promise((resolve) => setTimeout(resolve, scenario.responseDelayMs));
+      }
+      if (scenario.analyzeStatus) {
+        const headers: Record<string, string> = scenario.retryAfterSeconds !== undefined
+          ? { 'Retry-After': String(scenario.retryAfterSeconds) }
+          : {};
+        sendJson(response, scenario.analyzeStatus, scenario.analyzeErrorBody ?? azureErrorBody(scenario.analyzeStatus), headers);
+        return;
+      }
+
+      const resultId = randomUUID();
+      operations.set(resultId, { scenario, polls: 0, createdDateTime: new Date().toISOString() });
+      const operationLocation =
+        `${endpoint}/${analyzeMatch[1]}/documentModels/${analyzeMatch[2]}/analyzeResults/${resultId}?api-version=${url.searchParams.get('api-version')}`;
+      response.writeHead(202, scenario.omitOperationLocation ? {} : { 'Operation-Location': operationLocation });
+      response.end();
+      return;
+    }
+
+    // GET /documentintelligence/documentModels/{modelId}/analyzeResults/{resultId}
+    const resultMatch = url.pathname.match(/^\/(?:documentintelligence|formrecognizer)\/documentModels\/[^/]+\/analyzeResults\/([^/]+)$/);
+    const operation = resultMatch ? operations.get(resultMatch[1]) : undefined;
+    if (request.method === 'GET' && operation) {
+      const { scenario } = operation;
+      if (scenario.responseDelayMs) {
+        await new Promise((resolve) => setTimeout(resolve, scenario.responseDelayMs));
+      }
+      operation.polls++;
+      const headers: Record<string, string> = { 'Retry-After': String(scenario.retryAfterSeconds ?? 0) };
+      const times = { createdDateTime: operation.createdDateTime, lastUpdatedDateTime: new Date().toISOString() };
+
+      if (operation.polls <= (scenario.runningPolls ?? 0)) {
+        sendJson(response, 200, { status: 'running', ...times }, headers);
+      } else if (scenario.outcome?.status === 'failed') {
+        sendJson(response, 200, { status: 'failed', ...times, error: scenario.outcome.error });
+      } else {
+        sendJson(response, 200, { ...(scenario.outcome?.result ?? EMPTY_RESULT), ...times });
+      }
+      return;
+    }
+
+    sendJson(response, 404, azureErrorBody(404));
+  };
+
+  const server: Server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      console.error('偽サーバーのエラー:', error);
+      sendJson(response, 500, azureErrorBody(500));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    endpoint,
+    requests,
+    useScenarios(...next) {
+      scenarios = next.length > 0 ? next : [{ outcome: { status: 'succeeded', result: EMPTY_RESULT } }];
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
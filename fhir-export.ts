@@ -0,0 +1,377 @@
+// 問診票の構造化データをFHIR R4のBundleに変換し、基本的な構造を検証する関数
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeCheckboxGroup,
+  IntakeField,
+  IntakeFieldKey,
+  MedicalIntakeRecord,
+  formatIntakeValue,
+  listIntakeFields
+} from './intake-record';
+import { createRandomId } from './random-id';
+
+// OCRの読み取り元を回答に付ける拡張
+export const OCR_SOURCE_EXTENSION_URL = 'https://qscan.app/fhir/StructureDefinition/ocr-source';
+
+// 氏名の表記（漢字・カナ）を表す拡張
+const NAME_REPRESENTATION_URL = 'http://hl7.org/fhir/StructureDefinition/iso21090-EN-representation';
+
+export type FhirResource = { resourceType: string; id?: string } & Record<string, unknown>;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+// Bundleを作成するときのオプション
+export interface FhirExportOptions {
+  // 元のファイル名（QuestionnaireResponseの識別に使用）
+  fileName?: string;
+  // 作成日時（省略時は現在時刻）
+  authored?: string;
+}
+
+// QuestionnaireResponseの項目をカルテの見出しと同じ単位でまとめる
+const KARTE_SECTIONS: Array<{ linkId: string; title: string; fields: IntakeFieldKey[] }> = [
+  { linkId: 'basic', title: '基本情報', fields: ['patientName', 'patientNameKana', 'birthDate', 'age', 'sex', 'phone', 'postalCode'] },
+  { linkId: 'insurance', title: '保険証', fields: ['insurerNumber', 'insuranceSymbolNumber'] },
+  { linkId: 'chief-complaints', title: '主訴・症状', fields: ['chiefComplaints'] },
+  { linkId: 'past-history', title: '既往歴', fields: ['pastHistory'] },
+  { linkId: 'present-illness', title: '現病歴', fields: ['presentIllness'] },
+  { linkId: 'medications', title: '服薬情報', fields: ['medications'] },
+  { linkId: 'allergies', title: 'アレルギー', fields: ['allergies'] },
+  { linkId: 'lifestyle', title: '生活歴', fields: ['pregnancy', 'smoking', 'alcohol'] },
+  { linkId: 'checkboxes', title: 'チェック項目', fields: ['checkboxes'] },
+  { linkId: 'notes', title: 'その他', fields: ['notes'] },
+];
+
+const QUESTIONNAIRE_RESPONSE_STATUSES = ['in-progress', 'completed', 'amended', 'entered-in-error', 'stopped'];
+const MEDICATION_STATEMENT_STATUSES = ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'];
+const GENDERS = ['male', 'female', 'other', 'unknown'];
+
+function newId(): string {
+  return createRandomId();
+}
+
+// 「2024年1月5日」「2024/1/5」などの西暦の日付をFHIRのdate形式にする（変換できない場合はnull）
+export function toFhirDate(text: string): string | null {
+  const match = text.match(/(\d{4})\s*[年/\-.]\s*(\d{1,2})\s*[月/\-.]\s*(\d{1,2})/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match;
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return Number.isNaN(Date.parse(date)) ? null : date;
+}
+
+// 読み取り元のテキスト・ページ・信頼度を拡張として表す
+function ocrSourceExtension(field: IntakeField<unknown>): Record<string, unknown> {
+  const extension: Array<Record<string, unknown>> = [{ url: 'text', valueString: field.sourceText || formatAnswerText(field) }];
+  if (field.page !== null) {
+    extension.push({ url: 'page', valueInteger: field.page });
+  }
+  if (typeof field.confidence === 'number') {
+    extension.push({ url: 'confidence', valueDecimal: field.confidence });
+  }
+  return { url: OCR_SOURCE_EXTENSION_URL, extension };
+}
+
+function formatAnswerText(field: IntakeField<unknown>): string {
+  return typeof field.value === 'object' ? JSON.stringify(field.value) : String(field.value);
+}
+
+// フィールド1件をQuestionnaireResponseの項目にする
+function toResponseItem(key: IntakeFieldKey, index: number | null, field: IntakeField<unknown>): Record<string, unknown> {
+  const linkId = index === null ? key : `${key}.${index + 1}`;
+
+  if (key === 'checkboxes') {
+    const group = field.value as IntakeCheckboxGroup;
+    return {
+      linkId,
+      text: group.question || INTAKE_FIELD_LABELS[key],
+      extension: [ocrSourceExtension(field)],
+      item: group.options.map((option, optionIndex) => ({
+        linkId: `${linkId}.${optionIndex + 1}`,
+        text: option.label,
+        answer: [{ valueBoolean: option.checked }],
+      })),
+    };
+  }
+
+  // 日付は正規化できた場合のみdate型にする（記入されたままの表記は拡張に残る）
+  const answer = key === 'age'
+    ? { valueInteger: field.value as number }
+    : key === 'sex'
+      ? { valueCoding: { system: 'http://hl7.org/fhir/administrative-gender', code: field.value, display: formatIntakeValue(key, field) } }
+      : key === 'birthDate' && field.normalized
+        ? { valueDate: field.normalized }
+        : { valueString: String(field.value) };
+
+  return {
+    linkId,
+    text: INTAKE_FIELD_LABELS[key],
+    answer: [{ ...answer, extension: [ocrSourceExtension(field)] }],
+  };
+}
+
+function buildPatient(record: MedicalIntakeRecord): FhirResource {
+  const patient: FhirResource = { resourceType: 'Patient', id: newId() };
+  const names: Array<Record<string, unknown>> = [];
+
+  if (record.patientName) {
+    names.push({
+      use: 'official',
+      text: record.patientName.value,
+      extension: [{ url: NAME_REPRESENTATION_URL, valueCode: 'IDE' }],
+    });
+  }
+  if (record.patientNameKana) {
+    names.push({
+      use: 'official',
+      text: record.patientNameKana.value,
+      extension: [{ url: NAME_REPRESENTATION_URL, valueCode: 'SYL' }],
+    });
+  }
+  if (names.length > 0) {
+    patient.name = names;
+  }
+
+  patient.gender = record.sex?.value || 'unknown';
+
+  const birthDate = record.birthDate ? record.birthDate.normalized || toFhirDate(record.birthDate.value) : null;
+  if (birthDate) {
+    patient.birthDate = birthDate;
+  }
+
+  // 電話番号・郵便番号は正規化できた場合のみ設定
+  if (record.phone?.normalized) {
+    patient.telecom = [{ system: 'phone', value: record.phone.normalized }];
+  }
+  if (record.postalCode?.normalized) {
+    patient.address = [{ postalCode: record.postalCode.normalized, country: 'JP' }];
+  }
+
+  return patient;
+}
+
+function buildQuestionnaireResponse(
+  record: MedicalIntakeRecord,
+  patientRef: string,
+  options: FhirExportOptions
+): FhirResource {
+  const entries = listIntakeFields(record);
+  const item = KARTE_SECTIONS
+    .map((section) => ({
+      linkId: section.linkId,
+      text: section.title,
+      item: entries
+        .filter(({ key }) => section.fields.includes(key))
+        .map(({ key, index, field }) => toResponseItem(key, index, field)),
+    }))
+    .filter((section) => section.item.length > 0);
+
+  const response: FhirResource = {
+    resourceType: 'QuestionnaireResponse',
+    id: newId(),
+    status: 'completed',
+    subject: { reference: patientRef },
+    authored: options.authored || record.visitDate?.normalized || new Date().toISOString(),
+    item,
+  };
+  if (options.fileName) {
+    response.identifier = { system: 'urn:qscan:source-file', value: options.fileName };
+  }
+
+  return response;
+}
+
+// 自由記載の値をCodeableConceptとnoteにする（コード化は行わない）
+function textConcept(field: IntakeField): { code: Record<string, unknown>; note: Array<Record<string, unknown>> } {
+  return {
+    code: { text: field.value },
+    note: [{ text: `問診票の記載: ${field.sourceText || field.value}` }],
+  };
+}
+
+// 問診票の構造化データからFHIR R4のBundleを作成
+export function buildFhirBundle(record: MedicalIntakeRecord, options: FhirExportOptions = {}): FhirBundle {
+  const patient = buildPatient(record);
+  const patientRef = `urn:uuid:${patient.id}`;
+  const response = buildQuestionnaireResponse(record, patientRef, options);
+  const responseRef = `urn:uuid:${response.id}`;
+
+  const allergies = record.allergies.map((field): FhirResource => ({
+    resourceType: 'AllergyIntolerance',
+    id: newId(),
+    clinicalStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: 'active' }],
+    },
+    // 患者の自己申告のため未確認とする
+    verificationStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification', code: 'unconfirmed' }],
+    },
+    patient: { reference: patientRef },
+    ...textConcept(field),
+  }));
+
+  const medications = record.medications.map((field): FhirResource => {
+    const { code, note } = textConcept(field);
+    return {
+      resourceType: 'MedicationStatement',
+      id: newId(),
+      status: 'active',
+      medicationCodeableConcept: code,
+      subject: { reference: patientRef },
+      informationSource: { reference: patientRef },
+      derivedFrom: [{ reference: responseRef }],
+      note,
+    };
+  });
+
+  const conditions = record.pastHistory.map((field): FhirResource => ({
+    resourceType: 'Condition',
+    id: newId(),
+    verificationStatus: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'unconfirmed' }],
+    },
+    subject: { reference: patientRef },
+    evidence: [{ detail: [{ reference: responseRef }] }],
+    ...textConcept(field),
+  }));
+
+  const bundle: FhirBundle = {
+    resourceType: 'Bundle',
+    id: newId(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [patient, response, ...allergies, ...medications, ...conditions].map((resource) => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+    })),
+  };
+
+  validateFhirBundle(bundle);
+  return bundle;
+}
+
+function hasCodeableConcept(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const concept = value as Record<string, unknown>;
+  return typeof concept.text === 'string' || (Array.isArray(concept.coding) && concept.coding.length > 0);
+}
+
+function isReference(value: unknown): value is { reference: string } {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>).reference === 'string';
+}
+
+// QuestionnaireResponseの項目を再帰的に検証
+function validateResponseItems(items: unknown, path: string, errors: string[]) {
+  if (items === undefined) return;
+  if (!Array.isArray(items)) {
+    errors.push(`${path} は配列である必要があります`);
+    return;
+  }
+
+  items.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof item?.linkId !== 'string' || !item.linkId) {
+      errors.push(`${itemPath}.linkId は必須です`);
+    }
+    // qrs-1: answerとitemの両方を持つ項目は不可
+    if (item?.answer !== undefined && item?.item !== undefined) {
+      errors.push(`${itemPath} は answer と item を同時に持てません`);
+    }
+    if (Array.isArray(item?.answer)) {
+      item.answer.forEach((answer: Record<string, unknown>, answerIndex: number) => {
+        if (!Object.keys(answer).some((name) => name.startsWith('value'))) {
+          errors.push(`${itemPath}.answer[${answerIndex}] に value[x] がありません`);
+        }
+      });
+    }
+    validateResponseItems(item?.item, `${itemPath}.item`, errors);
+  });
+}
+
+// FHIR R4の基本構造（必須要素、値の範囲、Bundle内の参照）を検証し、問題があればエラーを投げる
+export function validateFhirBundle(bundle: FhirBundle): void {
+  const errors: string[] = [];
+
+  if (bundle.resourceType !== 'Bundle') {
+    errors.push('resourceType は Bundle である必要があります');
+  }
+  if (!bundle.type) {
+    errors.push('Bundle.type は必須です');
+  }
+  if (!Array.isArray(bundle.entry)) {
+    throw new Error('Bundle.entry は配列である必要があります');
+  }
+
+  const fullUrls = new Set(bundle.entry.map((entry) => entry.fullUrl));
+  const checkReference = (value: unknown, path: string, required: boolean) => {
+    if (value === undefined && !required) return;
+    if (!isReference(value)) {
+      errors.push(`${path} は参照である必要があります`);
+    } else if (value.reference.startsWith('urn:uuid:') && !fullUrls.has(value.reference)) {
+      errors.push(`${path} の参照先がBundleにありません: ${value.reference}`);
+    }
+  };
+
+  bundle.entry.forEach(({ fullUrl, resource }, index) => {
+    const path = `entry[${index}]`;
+    if (!fullUrl) {
+      errors.push(`${path}.fullUrl は必須です`);
+    }
+    if (!resource || typeof resource.resourceType !== 'string') {
+      errors.push(`${path}.resource.resourceType は必須です`);
+      return;
+    }
+
+    const resourcePath = `${path}(${resource.resourceType})`;
+    switch (resource.resourceType) {
+      case 'Patient':
+        if (resource.gender !== undefined && !GENDERS.includes(resource.gender as string)) {
+          errors.push(`${resourcePath}.gender は ${GENDERS.join(' / ')} のいずれかである必要があります`);
+        }
+        if (resource.birthDate !== undefined && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(String(resource.birthDate))) {
+          errors.push(`${resourcePath}.birthDate はYYYY-MM-DD形式である必要があります`);
+        }
+        break;
+      case 'QuestionnaireResponse':
+        if (!QUESTIONNAIRE_RESPONSE_STATUSES.includes(resource.status as string)) {
+          errors.push(`${resourcePath}.status が不正です`);
+        }
+        checkReference(resource.subject, `${resourcePath}.subject`, false);
+        validateResponseItems(resource.item, `${resourcePath}.item`, errors);
+        break;
+      case 'AllergyIntolerance':
+        checkReference(resource.patient, `${resourcePath}.patient`, true);
+        if (!hasCodeableConcept(resource.code)) {
+          errors.push(`${resourcePath}.code がありません`);
+        }
+        break;
+      case 'MedicationStatement':
+        if (!MEDICATION_STATEMENT_STATUSES.includes(resource.status as string)) {
+          errors.push(`${resourcePath}.status が不正です`);
+        }
+        if (!hasCodeableConcept(resource.medicationCodeableConcept) && !isReference(resource.medicationReference)) {
+          errors.push(`${resourcePath}.medication[x] は必須です`);
+        }
+        checkReference(resource.subject, `${resourcePath}.subject`, true);
+        break;
+      case 'Condition':
+        checkReference(resource.subject, `${resourcePath}.subject`, true);
+        if (!hasCodeableConcept(resource.code)) {
+          errors.push(`${resourcePath}.code がありません`);
+        }
+        break;
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`FHIRの検証に失敗しました: ${errors.join(' / ')}`);
+  }
+}
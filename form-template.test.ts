@@ -0,0 +1,48 @@
+// 問診票テンプレートの検証と適用のテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchFormTemplate, validateFormTemplate } from '../app/lib/form-template';
+
+// 1つの規則だけを持つテンプレート
+function templateWith(rule: Record<string, unknown>): unknown {
+  return { id: 'clinic', name: '〇〇内科', rules: [{ field: 'patientName', ...rule }] };
+}
+
+describe('validateFormTemplate', () => {
+  it('入れ子の繰り返しを含む正規表現は受け付けない', () => {
+    assert.throws(
+      () => validateFormTemplate(templateWith({ source: { type: 'key', key: '(a+)+$' } })),
+      /rules\[0\]\.source\.key の正規表現に入れ子の繰り返しは使用できません/
+    );
+    assert.throws(
+      () => validateFormTemplate(templateWith({ source: { type: 'key', key: '氏名' }, valuePattern: '(\\w*){2,}' })),
+      /rules\[0\]\.valuePattern の正規表現に入れ子の繰り返しは使用できません/
+    );
+  });
+
+  it('長すぎる正規表現は受け付けない', () => {
+    assert.throws(
+      () => validateFormTemplate(templateWith({ source: { type: 'key', key: '氏'.repeat(201) } })),
+      /正規表現が長すぎます（200文字まで）/
+    );
+  });
+
+  it('エスケープした記号や、グループの外の繰り返しは受け付ける', () => {
+    const template = validateFormTemplate(templateWith({ source: { type: 'key', key: '氏名|お名前\\(漢字\\)+' }, valuePattern: '(\\S+)\\s*様?' }));
+
+    assert.equal(template.rules.length, 1);
+  });
+});
+
+describe('matchFormTemplate', () => {
+  it('キーと値のペアの項目名で一致し、valuePatternで値の一部を取り出す', () => {
+    const template = validateFormTemplate(templateWith({ source: { type: 'key', key: '氏名|お名前' }, valuePattern: '(\\S+ \\S+)\\s*様' }));
+    const [match] = matchFormTemplate(template, {
+      keyValuePairs: [{ key: 'お名前', value: '山田 太郎 様', pageNumber: 1, confidence: 0.95 }],
+    });
+
+    assert.deepEqual(match.values.map((item) => item.value), ['山田 太郎']);
+    assert.equal(match.values[0].source.confidence, 0.95);
+  });
+});
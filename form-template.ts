@@ -0,0 +1,446 @@
+// 医療機関ごとの問診票テンプレート（問診票の項目とカルテのフィールドの対応表）の型定義と適用処理
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeFieldKey,
+  IntakeSource,
+  MedicalIntakeRecord,
+  assignIntakeField,
+  createEmptyIntakeRecord,
+  extractIntakeRecord,
+  mergeIntakeRecords,
+  normalizeIntakeRecord
+} from './intake-record';
+import { findUnsafePatternReason } from './safe-pattern';
+
+// キーと値のペアの項目名で対応付ける
+export interface FormTemplateKeySource {
+  type: 'key';
+  // 項目名の正規表現
+  key: string;
+}
+
+// 表のセルで対応付ける（行・列は見出しの正規表現、または0始まりの番号で指定）
+export interface FormTemplateTableSource {
+  type: 'table';
+  // 表の番号（省略時はすべての表から探す）
+  tableIndex?: number;
+  row: string | number;
+  // 省略時は行見出し以外のセルをつなげた値
+  column?: string | number;
+}
+
+// 選択マークで対応付ける（チェックされた選択肢を値とする）
+export interface FormTemplateCheckboxSource {
+  type: 'checkbox';
+  // 質問の正規表現
+  question?: string;
+  // 選択肢の正規表現（省略時はチェックされたすべての選択肢）
+  label?: string;
+}
+
+// ページ上の領域で対応付ける（座標はページの幅・高さに対する0〜1の割合）
+export interface FormTemplateRegionSource {
+  type: 'region';
+  page: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type FormTemplateSource =
+  | FormTemplateKeySource
+  | FormTemplateTableSource
+  | FormTemplateCheckboxSource
+  | FormTemplateRegionSource;
+
+// 1つのフィールドの対応付け
+export interface FormTemplateRule {
+  field: Exclude<IntakeFieldKey, 'checkboxes'>;
+  source: FormTemplateSource;
+  // 値から取り出す部分の正規表現（1番目のグループ、なければ一致した部分全体）
+  valuePattern?: string;
+}
+
+// 問診票テンプレート
+export interface FormTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  rules: FormTemplateRule[];
+}
+
+// テンプレートを適用した結果（プレビュー用に規則ごとの一致状況を含む）
+export interface FormTemplateMatch {
+  rule: FormTemplateRule;
+  values: Array<{ value: string; source: IntakeSource }>;
+}
+
+const SOURCE_TYPES: FormTemplateSource['type'][] = ['key', 'table', 'checkbox', 'region'];
+
+// テンプレートの正規表現をコンパイルする関数（同じパターンは1回だけコンパイルする）
+type PatternCompiler = (pattern: string) => RegExp;
+
+interface TemplateLine {
+  content: string;
+  page: number | null;
+  boundingBox: number[] | null;
+  confidence: number | null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 正規表現として解釈できる文字列か検証
+function validatePattern(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`${path} は空でない文字列である必要があります`);
+  }
+  const unsafeReason = findUnsafePatternReason(value);
+  if (unsafeReason) {
+    throw new Error(`${path} の${unsafeReason}: ${value}`);
+  }
+  try {
+    new RegExp(value);
+  } catch {
+    throw new Error(`${path} は正規表現として解釈できません: ${value}`);
+  }
+  return value;
+}
+
+function validateRowOrColumn(value: unknown, path: string): string | number {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${path} は0以上の整数である必要があります`);
+    }
+    return value;
+  }
+  return validatePattern(value, path);
+}
+
+function validateSource(value: unknown, path: string): FormTemplateSource {
+  if (!isObject(value) || !SOURCE_TYPES.includes(value.type as FormTemplateSource['type'])) {
+    throw new Error(`${path}.type は ${SOURCE_TYPES.join(' / ')} のいずれかである必要があります`);
+  }
+
+  switch (value.type) {
+    case 'key':
+      return { type: 'key', key: validatePattern(value.key, `${path}.key`) };
+    case 'table': {
+      if (value.tableIndex !== undefined && (!Number.isInteger(value.tableIndex) || (value.tableIndex as number) < 0)) {
+        throw new Error(`${path}.tableIndex は0以上の整数である必要があります`);
+      }
+      return {
+        type: 'table',
+        tableIndex: value.tableIndex as number | undefined,
+        row: validateRowOrColumn(value.row, `${path}.row`),
+        column: value.column === undefined ? undefined : validateRowOrColumn(value.column, `${path}.column`),
+      };
+    }
+    case 'checkbox':
+      if (value.question === undefined && value.label === undefined) {
+        throw new Error(`${path} には question または label が必要です`);
+      }
+      return {
+        type: 'checkbox',
+        question: value.question === undefined ? undefined : validatePattern(value.question, `${path}.question`),
+        label: value.label === undefined ? undefined : validatePattern(value.label, `${path}.label`),
+      };
+    default: {
+      if (!Number.isInteger(value.page) || (value.page as number) < 1) {
+        throw new Error(`${path}.page は1以上の整数である必要があります`);
+      }
+      const box = [value.left, value.top, value.right, value.bottom];
+      if (box.some((n) => typeof n !== 'number' || n < 0 || n > 1)) {
+        throw new Error(`${path} の left / top / right / bottom は0〜1の数値である必要があります`);
+      }
+      const [left, top, right, bottom] = box as number[];
+      if (left >= right || top >= bottom) {
+        throw new Error(`${path} の領域の幅または高さが0です`);
+      }
+      return { type: 'region', page: value.page as number, left, top, right, bottom };
+    }
+  }
+}
+
+// 外部から受け取ったテンプレート（設定画面のJSONなど）を検証
+export function validateFormTemplate(value: unknown): FormTemplate {
+  if (!isObject(value)) {
+    throw new Error('テンプレートはオブジェクトである必要があります');
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    throw new Error('id は空でない文字列である必要があります');
+  }
+  if (typeof value.name !== 'string' || !value.name) {
+    throw new Error('name は空でない文字列である必要があります');
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    throw new Error('description は文字列である必要があります');
+  }
+  if (!Array.isArray(value.rules)) {
+    throw new Error('rules は配列である必要があります');
+  }
+
+  const rules = value.rules.map((rule, index): FormTemplateRule => {
+    const path = `rules[${index}]`;
+    if (!isObject(rule)) {
+      throw new Error(`${path} はオブジェクトである必要があります`);
+    }
+    if (typeof rule.field !== 'string' || !(rule.field in INTAKE_FIELD_LABELS) || rule.field === 'checkboxes') {
+      throw new Error(`${path}.field は構造化データのフィールド名である必要があります: ${String(rule.field)}`);
+    }
+    return {
+      field: rule.field as FormTemplateRule['field'],
+      source: validateSource(rule.source, `${path}.source`),
+      valuePattern: rule.valuePattern === undefined ? undefined : validatePattern(rule.valuePattern, `${path}.valuePattern`),
+    };
+  });
+
+  return {
+    id: value.id,
+    name: value.name,
+    description: value.description as string | undefined,
+    rules,
+  };
+}
+
+// 見出しの正規表現、または番号と一致するか
+function matchesIndex(spec: string | number, index: number, content: string, compile: PatternCompiler): boolean {
+  return typeof spec === 'number' ? spec === index : compile(spec).test(content);
+}
+
+function createPatternCompiler(): PatternCompiler {
+  const patterns = new Map<string, RegExp>();
+  return (pattern) => {
+    let regex = patterns.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern);
+      patterns.set(pattern, regex);
+    }
+    return regex;
+  };
+}
+
+// 多角形の中心座標
+function centerOf(polygon: number[]): { x: number; y: number } {
+  const xs = polygon.filter((_, i) => i % 2 === 0);
+  const ys = polygon.filter((_, i) => i % 2 === 1);
+  return {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+function findKeyValues(
+  source: FormTemplateKeySource,
+  structuredData: Record<string, unknown>,
+  compile: PatternCompiler
+): FormTemplateMatch['values'] {
+  const pattern = compile(source.key);
+  return ((structuredData.keyValuePairs || []) as Array<Record<string, unknown>>)
+    .filter((pair) => pattern.test(String(pair.key || '')) && String(pair.value || '').trim())
+    .map((pair) => ({
+      value: String(pair.value),
+      source: {
+        sourceText: `${pair.key}: ${pair.value}`,
+        page: toNumberOrNull(pair.pageNumber),
+        boundingBox: Array.isArray(pair.boundingBox) ? pair.boundingBox as number[] : null,
+        confidence: toNumberOrNull(pair.confidence),
+      },
+    }));
+}
+
+function findTableValues(
+  source: FormTemplateTableSource,
+  structuredData: Record<string, unknown>,
+  compile: PatternCompiler
+): FormTemplateMatch['values'] {
+  const tables = (structuredData.tables || []) as Array<Record<string, unknown>>;
+  const targets = source.tableIndex === undefined ? tables : tables.slice(source.tableIndex, source.tableIndex + 1);
+  const values: FormTemplateMatch['values'] = [];
+
+  for (const table of targets) {
+    const cells = (table.cells || []) as Array<Record<string, unknown>>;
+    const cellContent = (cell: Record<string, unknown> | undefined) => String(cell?.content || '').trim();
+
+    const rowIndexes = new Set(
+      cells
+        .filter((cell) => cell.columnIndex === 0 && matchesIndex(source.row, Number(cell.rowIndex), cellContent(cell), compile))
+        .map((cell) => Number(cell.rowIndex))
+    );
+    // 番号で指定した行は見出しセルが空でも対象にする
+    if (typeof source.row === 'number') rowIndexes.add(source.row);
+
+    const column = source.column;
+    const columnIndexes = column === undefined
+      ? null
+      : new Set(
+          typeof column === 'number'
+            ? [column]
+            : cells
+                .filter((cell) => cell.rowIndex === 0 && matchesIndex(column, Number(cell.columnIndex), cellContent(cell), compile))
+                .map((cell) => Number(cell.columnIndex))
+        );
+
+    for (const rowIndex of rowIndexes) {
+      const matched = cells
+        .filter((cell) => cell.rowIndex === rowIndex)
+        .filter((cell) => (columnIndexes ? columnIndexes.has(Number(cell.columnIndex)) : cell.columnIndex !== 0))
+        .sort((a, b) => Number(a.columnIndex) - Number(b.columnIndex));
+      const value = matched.map(cellContent).filter(Boolean).join(' ');
+      if (!value) continue;
+
+      values.push({
+        value,
+        source: {
+          sourceText: [cellContent(cells.find((cell) => cell.rowIndex === rowIndex && cell.columnIndex === 0)), value]
+            .filter(Boolean)
+            .join(': '),
+          page: toNumberOrNull(matched[0].pageNumber),
+          boundingBox: Array.isArray(matched[0].boundingBox) ? matched[0].boundingBox as number[] : null,
+          confidence: null,
+        },
+      });
+    }
+  }
+
+  return values;
+}
+
+function findCheckboxValues(
+  source: FormTemplateCheckboxSource,
+  structuredData: Record<string, unknown>,
+  compile: PatternCompiler
+): FormTemplateMatch['values'] {
+  const questionPattern = source.question ? compile(source.question) : null;
+  const labelPattern = source.label ? compile(source.label) : null;
+  const marks = ((structuredData.selectionMarks || []) as Array<Record<string, unknown>>).filter((mark) =>
+    mark.checked === true
+    && String(mark.label || '')
+    && (!questionPattern || questionPattern.test(String(mark.question || '')))
+    && (!labelPattern || labelPattern.test(String(mark.label || '')))
+  );
+
+  if (marks.length === 0) {
+    return [];
+  }
+
+  const confidences = marks.map((mark) => mark.confidence).filter((c): c is number => typeof c === 'number');
+  const labels = marks.map((mark) => String(mark.label));
+  return [{
+    value: labels.join('・'),
+    source: {
+      sourceText: `${String(marks[0].question || '')}: ${labels.map((label) => `${label}☑`).join(' ')}`,
+      page: toNumberOrNull(marks[0].pageNumber),
+      boundingBox: Array.isArray(marks[0].boundingBox) ? marks[0].boundingBox as number[] : null,
+      confidence: confidences.length > 0 ? Math.min(...confidences) : null,
+    },
+  }];
+}
+
+function findRegionValues(source: FormTemplateRegionSource, structuredData: Record<string, unknown>): FormTemplateMatch['values'] {
+  const page = ((structuredData.pages || []) as Array<Record<string, unknown>>)
+    .find((p) => p.pageNumber === source.page);
+  const width = Number(page?.width);
+  const height = Number(page?.height);
+  if (!page || !width || !height) {
+    return [];
+  }
+
+  // 中心が領域内にある行を上から順につなげる
+  const lines: TemplateLine[] = ((page.lines || []) as Array<Record<string, unknown>>)
+    .filter((line) => Array.isArray(line.boundingBox) && typeof line.content === 'string' && line.content.trim())
+    .map((line) => ({
+      content: String(line.content).trim(),
+      page: source.page,
+      boundingBox: line.boundingBox as number[],
+      confidence: toNumberOrNull(line.confidence),
+    }))
+    .filter((line) => {
+      const { x, y } = centerOf(line.boundingBox as number[]);
+      return x / width >= source.left && x / width <= source.right && y / height >= source.top && y / height <= source.bottom;
+    });
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const confidences = lines.map((line) => line.confidence).filter((c): c is number => c !== null);
+  const value = lines.map((line) => line.content).join(' ');
+  return [{
+    value,
+    source: {
+      sourceText: value,
+      page: source.page,
+      boundingBox: lines[0].boundingBox,
+      confidence: confidences.length > 0 ? Math.min(...confidences) : null,
+    },
+  }];
+}
+
+// valuePatternで値の一部を取り出す
+function applyValuePattern(value: string, valuePattern: string | undefined, compile: PatternCompiler): string {
+  if (!valuePattern) {
+    return value;
+  }
+  const match = value.match(compile(valuePattern));
+  return match ? (match[1] ?? match[0]) : '';
+}
+
+// テンプレートの規則ごとに、問診票から一致する値を探す（正規表現はテンプレートごとに1回だけコンパイルする）
+export function matchFormTemplate(template: FormTemplate, structuredData: Record<string, unknown>): FormTemplateMatch[] {
+  const compile = createPatternCompiler();
+
+  return template.rules.map((rule) => {
+    const { source } = rule;
+    const found = source.type === 'key'
+      ? findKeyValues(source, structuredData, compile)
+      : source.type === 'table'
+        ? findTableValues(source, structuredData, compile)
+        : source.type === 'checkbox'
+          ? findCheckboxValues(source, structuredData, compile)
+          : findRegionValues(source, structuredData);
+
+    return {
+      rule,
+      values: found
+        .map((item) => ({ ...item, value: applyValuePattern(item.value, rule.valuePattern, compile).trim() }))
+        .filter((item) => item.value),
+    };
+  });
+}
+
+// テンプレートを適用して構造化データを作成
+// 一致しなかったフィールドは空のままにし、汎用の抽出結果とmergeIntakeRecordsで組み合わせる
+export function applyFormTemplate(template: FormTemplate, structuredData: Record<string, unknown> | null): MedicalIntakeRecord {
+  const record = createEmptyIntakeRecord();
+  if (!structuredData) {
+    return record;
+  }
+
+  for (const { rule, values } of matchFormTemplate(template, structuredData)) {
+    for (const { value, source } of values) {
+      assignIntakeField(record, rule.field, value, source);
+    }
+  }
+
+  return record;
+}
+
+// テンプレートを汎用の抽出より優先して構造化データを作成（テンプレートがない場合は汎用の抽出のみ）
+export function extractIntakeRecordWithTemplate(
+  structuredData: Record<string, unknown> | null,
+  text: string,
+  template: FormTemplate | null
+): MedicalIntakeRecord {
+  const genericRecord = extractIntakeRecord(structuredData, text);
+  return template
+    ? normalizeIntakeRecord(mergeIntakeRecords(applyFormTemplate(template, structuredData), genericRecord))
+    : genericRecord;
+}
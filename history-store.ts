@@ -0,0 +1,155 @@
+// 処理履歴をブラウザのIndexedDBに保存するストア（患者情報を端末の外に送らないため）
+
+import type { MedicalIntakeRecord } from './intake-record';
+import { renderPdfPage } from './pdf-render';
+import { createRandomId } from './random-id';
+
+// 履歴の1件
+export interface HistoryEntry {
+  id: string;
+  // 処理した日時（ISO 8601）
+  createdAt: string;
+  fileName: string;
+  fileType: string;
+  // 一覧表示用の縮小画像（data URL）
+  thumbnail: string | null;
+  // 検索用の患者名（氏名とフリガナ）
+  patientName: string;
+  content: string;
+  formattedContent: string;
+  intakeRecord: MedicalIntakeRecord;
+  structuredData: Record<string, unknown> | null;
+}
+
+// 履歴の検索条件
+export interface HistoryQuery {
+  // 患者名（氏名・フリガナ）の部分一致
+  name?: string;
+  // 処理日（YYYY-MM-DD、端末のタイムゾーン）
+  date?: string;
+}
+
+// 保持期間のデフォルト（日数）
+export const DEFAULT_HISTORY_RETENTION_DAYS = 30;
+
+const DB_NAME = 'qscan-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const THUMBNAIL_WIDTH = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDBのリクエストをPromiseにする
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('このブラウザはIndexedDBに対応していません'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openHistoryDb();
+  return promisify(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+// 日時を端末のタイムゾーンの日付（YYYY-MM-DD）にする
+function toLocalDate(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 構造化データから検索用の患者名を作成
+export function getHistoryPatientName(record: MedicalIntakeRecord): string {
+  return [record.patientName?.value, record.patientNameKana?.value].filter(Boolean).join(' ');
+}
+
+// 一覧表示用の縮小画像を作成（PDFは1ページ目）
+export async function createThumbnail(file: File): Promise<string | null> {
+  try {
+    if (file.type === 'application/pdf') {
+      return (await renderPdfPage(file, 1, THUMBNAIL_WIDTH)).dataUrl;
+    }
+
+    if (!file.type.startsWith('image/')) {
+      return null;
+    }
+
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round((bitmap.height / bitmap.width) * THUMBNAIL_WIDTH);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn('縮小画像を作成できませんでした:', error);
+    return null;
+  }
+}
+
+// 履歴を追加
+export async function addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<HistoryEntry> {
+  const saved: HistoryEntry = {
+    ...entry,
+    id: createRandomId(),
+    createdAt: new Date().toISOString(),
+  };
+  await withStore('readwrite', (store) => store.put(saved));
+  return saved;
+}
+
+// 履歴を新しい順に取得（検索条件を指定した場合は一致するもののみ）
+export async function listHistoryEntries(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', (store) => store.getAll());
+  const name = query.name?.trim();
+
+  return entries
+    .filter((entry) => !name || entry.patientName.includes(name))
+    .filter((entry) => !query.date || toLocalDate(entry.createdAt) === query.date)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// 保持期間を過ぎた履歴を削除し、削除した件数を返す
+export async function purgeHistoryEntries(retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const expiredIds = await withStore<IDBValidKey[]>('readonly', (store) =>
+    store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(cutoff, true))
+  );
+
+  for (const id of expiredIds) {
+    await withStore('readwrite', (store) => store.delete(id));
+  }
+
+  return expiredIds.length;
+}
@@ -0,0 +1,373 @@
+// スマートフォンで撮影した問診票をアップロード前に補正するユーティリティ関数
+// （90度回転、切り抜き・台形補正、傾き補正、コントラスト強調、縮小）
+
+// 四隅の座標（画像の幅・高さに対する0〜1の割合、左上・右上・右下・左下の順）
+export type Quad = [Point, Point, Point, Point];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 補正の設定
+export interface ImageEditSettings {
+  // 時計回りの回転角度
+  rotation: 0 | 90 | 180 | 270;
+  // 切り抜く範囲（回転後の画像に対する四隅、nullの場合は画像全体）
+  corners: Quad | null;
+  // 文字の行から傾きを推定して補正する
+  deskew: boolean;
+  // 明るさの分布を広げて文字をはっきりさせる
+  enhanceContrast: boolean;
+  // 長辺の最大ピクセル数（0の場合は縮小しない）
+  maxDimension: number;
+}
+
+export const DEFAULT_IMAGE_EDIT_SETTINGS: ImageEditSettings = {
+  rotation: 0,
+  corners: null,
+  deskew: false,
+  enhanceContrast: false,
+  maxDimension: 2400,
+};
+
+// 画像全体を表す四隅
+export const FULL_QUAD: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// 傾き補正で探索する角度の範囲（度）
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.25;
+
+// 解析用に縮小するときの長辺のピクセル数
+const ANALYSIS_DIMENSION = 800;
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('キャンバスを初期化できませんでした');
+  }
+  return context;
+}
+
+// 長辺がmaxDimension以下になるように縮小（0の場合や既に小さい場合はそのまま）
+function scaleToFit(source: CanvasImageSource & { width: number; height: number }, maxDimension: number): HTMLCanvasElement {
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(source.width, source.height)) : 1;
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const context = getContext(canvas);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// 90度単位で時計回りに回転
+export function rotateCanvas(source: HTMLCanvasElement, rotation: ImageEditSettings['rotation']): HTMLCanvasElement {
+  if (rotation === 0) {
+    return source;
+  }
+
+  const swap = rotation === 90 || rotation === 270;
+  const canvas = createCanvas(swap ? source.height : source.width, swap ? source.width : source.height);
+  const context = getContext(canvas);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// 連立一次方程式をガウスの消去法で解く
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-12) {
+      throw new Error('切り抜く範囲の四隅が一直線上にあります');
+    }
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+// 出力画像の長方形（幅w・高さh）から元画像の四隅への射影変換の係数を求める
+function computeHomography(quad: Point[], w: number, h: number): number[] {
+  const targets: Point[] = [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h }];
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+
+  targets.forEach((target, i) => {
+    const { x, y } = target;
+    const { x: u, y: v } = quad[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  });
+
+  return solveLinearSystem(matrix, vector);
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// 四隅で囲まれた範囲を長方形に変換（台形補正と切り抜き）
+export function warpPerspective(source: HTMLCanvasElement, corners: Quad): HTMLCanvasElement {
+  const quad = corners.map((p) => ({ x: p.x * source.width, y: p.y * source.height }));
+  const [tl, tr, br, bl] = quad;
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+
+  // 長方形の切り抜きは描画だけで済ませる
+  const isRectangle = tl.y === tr.y && bl.y === br.y && tl.x === bl.x && tr.x === br.x;
+  if (isRectangle) {
+    const canvas = createCanvas(width, height);
+    getContext(canvas).drawImage(source, tl.x, tl.y, width, height, 0, 0, width, height);
+    return canvas;
+  }
+
+  const [a, b, c, d, e, f, g, hh] = computeHomography(quad, width, height);
+  const input = getContext(source).getImageData(0, 0, source.width, source.height);
+  const canvas = createCanvas(width, height);
+  const context = getContext(canvas);
+  const output = context.createImageData(canvas.width, canvas.height);
+
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const denominator = g * x + hh * y + 1;
+      const u = (a * x + b * y + c) / denominator;
+      const v = (d * x + e * y + f) / denominator;
+      const outIndex = (y * canvas.width + x) * 4;
+
+      // 範囲外は白で埋める
+      if (u < 0 || v < 0 || u >= source.width - 1 || v >= source.height - 1) {
+        output.data.fill(255, outIndex, outIndex + 4);
+        continue;
+      }
+
+      // 双線形補間
+      const x0 = Math.floor(u);
+      const y0 = Math.floor(v);
+      const fx = u - x0;
+      const fy = v - y0;
+      for (let channel = 0; channel < 4; channel++) {
+        const i00 = (y0 * source.width + x0) * 4 + channel;
+        const i10 = i00 + 4;
+        const i01 = i00 + source.width * 4;
+        const i11 = i01 + 4;
+        const top = input.data[i00] * (1 - fx) + input.data[i10] * fx;
+        const bottom = input.data[i01] * (1 - fx) + input.data[i11] * fx;
+        output.data[outIndex + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  context.putImageData(output, 0, 0);
+  return canvas;
+}
+
+// 解析用に縮小したグレースケールの画素
+function toGrayscale(source: HTMLCanvasElement): { gray: Uint8Array; width: number; height: number } {
+  const small = scaleToFit(source, ANALYSIS_DIMENSION);
+  const { data } = getContext(small).getImageData(0, 0, small.width, small.height);
+  const gray = new Uint8Array(small.width * small.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return { gray, width: small.width, height: small.height };
+}
+
+// 大津の方法で明暗を分けるしきい値を求める
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[value]++;
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = { threshold: 128, variance: 0 };
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best.variance) best = { threshold: t, variance };
+  }
+
+  return best.threshold;
+}
+
+// 背景より明るい用紙の四隅を推定（用紙が判別できない場合はnull）
+export function detectDocumentCorners(source: HTMLCanvasElement): Quad | null {
+  const { gray, width, height } = toGrayscale(source);
+  const threshold = otsuThreshold(gray);
+
+  let brightCount = 0;
+  const extremes = {
+    tl: { score: Infinity, x: 0, y: 0 },
+    tr: { score: -Infinity, x: 0, y: 0 },
+    br: { score: -Infinity, x: 0, y: 0 },
+    bl: { score: Infinity, x: 0, y: 0 },
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) continue;
+      brightCount++;
+      if (x + y < extremes.tl.score) extremes.tl = { score: x + y, x, y };
+      if (x + y > extremes.br.score) extremes.br = { score: x + y, x, y };
+      if (x - y > extremes.tr.score) extremes.tr = { score: x - y, x, y };
+      if (x - y < extremes.bl.score) extremes.bl = { score: x - y, x, y };
+    }
+  }
+
+  // 用紙が小さすぎる、または画像全体が明るい場合は判別できない
+  const ratio = brightCount / (width * height);
+  if (ratio < 0.2 || ratio > 0.98) {
+    return null;
+  }
+
+  const toPoint = ({ x, y }: { x: number; y: number }): Point => ({ x: x / (width - 1), y: y / (height - 1) });
+  return [toPoint(extremes.tl), toPoint(extremes.tr), toPoint(extremes.br), toPoint(extremes.bl)];
+}
+
+// 文字の行が水平になる角度を推定（度、時計回りが正）
+export function estimateSkewAngle(source: HTMLCanvasElement): number {
+  const { gray, width, height } = toGrayscale(source);
+  const threshold = otsuThreshold(gray);
+  const darkPixels: Point[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) darkPixels.push({ x, y });
+    }
+  }
+
+  // 回転後の行ごとの暗い画素数の分布が最も尖る角度を選ぶ
+  let best = { angle: 0, score: -Infinity };
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    for (const { x, y } of darkPixels) {
+      const row = Math.round(y * cos - x * sin);
+      rows.set(row, (rows.get(row) || 0) + 1);
+    }
+    let score = 0;
+    for (const count of rows.values()) score += count * count;
+    if (score > best.score) best = { angle, score };
+  }
+
+  return best.angle;
+}
+
+// 任意の角度で回転（反時計回りに補正するため負の角度を渡す、余白は白）
+function rotateByAngle(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  if (degrees === 0) {
+    return source;
+  }
+  const canvas = createCanvas(source.width, source.height);
+  const context = getContext(canvas);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((degrees * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// 明るさの下位1%〜上位1%が0〜255になるように引き伸ばす
+export function enhanceContrast(source: HTMLCanvasElement): HTMLCanvasElement {
+  const context = getContext(source);
+  const image = context.getImageData(0, 0, source.width, source.height);
+  const { data } = image;
+
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114)]++;
+  }
+
+  const total = data.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] < total * 0.01; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] < total * 0.01; high--) count += histogram[high];
+  if (high <= low) {
+    return source;
+  }
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = Math.min(255, Math.max(0, (data[i + channel] - low) * scale));
+    }
+  }
+  context.putImageData(image, 0, 0);
+  return source;
+}
+
+// ファイルを読み込み、回転した状態のキャンバスを作成（編集画面のプレビュー用）
+export async function loadRotatedCanvas(
+  file: File,
+  rotation: ImageEditSettings['rotation'],
+  maxDimension: number
+): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return rotateCanvas(scaleToFit(bitmap, maxDimension), rotation);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 設定に従って画像を補正し、アップロード用のJPEGファイルにする
+export async function preprocessImage(file: File, settings: ImageEditSettings): Promise<File> {
+  // 射影変換の計算量を抑えるため、切り抜きで小さくなる分を見込んで先に縮小する
+  let canvas = await loadRotatedCanvas(file, settings.rotation, settings.maxDimension > 0 ? settings.maxDimension * 1.5 : 0);
+
+  if (settings.corners) {
+    canvas = warpPerspective(canvas, settings.corners);
+  }
+  if (settings.deskew) {
+    canvas = rotateByAngle(canvas, -estimateSkewAngle(canvas));
+  }
+  canvas = scaleToFit(canvas, settings.maxDimension);
+  if (settings.enhanceContrast) {
+    canvas = enhanceContrast(canvas);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!blob) {
+    throw new Error('画像の変換に失敗しました');
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([blob], `${baseName}.jpg`, { type: 'image/jpeg', lastModified: Date.now() });
+}
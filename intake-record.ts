@@ -0,0 +1,762 @@
+// 問診票から抽出した医療情報の型定義と、抽出・検証・カルテ出力の関数
+
+import {
+  computeAge,
+  formatLocalDate,
+  normalizeInsuranceSymbolNumber,
+  normalizeInsurerNumber,
+  normalizePhoneNumber,
+  normalizePostalCode,
+  parseAge,
+  parseJapaneseDate
+} from './japanese-normalizer';
+import { normalizeMedicationText } from './medication-dictionary';
+
+// 抽出元の情報を保持するフィールド
+export interface IntakeField<T = string> {
+  value: T;
+  sourceText: string;
+  page: number | null;
+  // 抽出元の領域（ページ座標の多角形 [x1, y1, x2, y2, ...]）
+  boundingBox?: number[] | null;
+  // OCRの信頼度（0〜1、抽出元の単語のうち最も低い値）
+  confidence?: number | null;
+  // 信頼度が低く、スタッフの確認が必要
+  needsReview?: boolean;
+  // 正規化した値（日付はYYYY-MM-DD、電話番号はE.164形式など。valueは記入されたままの表記）
+  // 正規化の対象で値を解析できなかった場合はnull
+  normalized?: string | null;
+  // 手書きで記入された値
+  handwritten?: boolean;
+}
+
+// フィールドの抽出元の情報
+export type IntakeSource = Omit<IntakeField, 'value' | 'needsReview' | 'normalized'>;
+
+export type IntakeSex = 'male' | 'female' | 'other' | 'unknown';
+
+// チェックボックス形式の質問と選択肢
+export interface IntakeCheckboxGroup {
+  question: string;
+  options: Array<{ label: string; checked: boolean }>;
+}
+
+// 問診票の構造化データ
+export interface MedicalIntakeRecord {
+  patientName: IntakeField | null;
+  patientNameKana: IntakeField | null;
+  birthDate: IntakeField | null;
+  age: IntakeField<number> | null;
+  sex: IntakeField<IntakeSex> | null;
+  chiefComplaints: IntakeField[];
+  presentIllness: IntakeField | null;
+  pastHistory: IntakeField[];
+  medications: IntakeField[];
+  allergies: IntakeField[];
+  pregnancy: IntakeField | null;
+  smoking: IntakeField | null;
+  alcohol: IntakeField | null;
+  checkboxes: IntakeField<IntakeCheckboxGroup>[];
+  notes: IntakeField[];
+  // 問診票の記入日（年齢の計算に使用）
+  visitDate: IntakeField | null;
+  phone: IntakeField | null;
+  postalCode: IntakeField | null;
+  insurerNumber: IntakeField | null;
+  // 保険証の記号・番号
+  insuranceSymbolNumber: IntakeField | null;
+}
+
+export type IntakeFieldKey = keyof MedicalIntakeRecord;
+
+// 抽出元となるテキスト行
+export interface IntakeSourceLine {
+  content: string;
+  page: number | null;
+  boundingBox?: number[] | null;
+  confidence?: number | null;
+  handwritten?: boolean;
+}
+
+// 抽出元となるキーと値のペア
+export interface IntakeKeyValuePair {
+  key: string;
+  value: string;
+  page: number | null;
+  boundingBox?: number[] | null;
+  confidence?: number | null;
+  handwritten?: boolean;
+}
+
+// 抽出元となる選択マーク（extractStructuredDataでラベルと対応付け済み）
+export interface IntakeSelectionMark {
+  question: string;
+  label: string;
+  checked: boolean;
+  page: number | null;
+  boundingBox?: number[] | null;
+  confidence?: number | null;
+}
+
+// 要確認とする信頼度のデフォルトのしきい値
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+
+const LIST_FIELDS: IntakeFieldKey[] = ['chiefComplaints', 'pastHistory', 'medications', 'allergies', 'notes'];
+
+const STRING_FIELDS: IntakeFieldKey[] = [
+  'patientName',
+  'patientNameKana',
+  'birthDate',
+  'presentIllness',
+  'pregnancy',
+  'smoking',
+  'alcohol',
+  'visitDate',
+  'phone',
+  'postalCode',
+  'insurerNumber',
+  'insuranceSymbolNumber',
+];
+
+// 正規化する値と、その関数
+const NORMALIZERS: Array<[IntakeFieldKey, (text: string) => string | null]> = [
+  ['birthDate', parseJapaneseDate],
+  ['visitDate', parseJapaneseDate],
+  ['phone', normalizePhoneNumber],
+  ['postalCode', normalizePostalCode],
+  ['insurerNumber', normalizeInsurerNumber],
+  ['insuranceSymbolNumber', normalizeInsuranceSymbolNumber],
+  ['medications', normalizeMedicationText],
+];
+
+const SEX_VALUES: IntakeSex[] = ['male', 'female', 'other', 'unknown'];
+
+// OCRのテキストで手書きの行の末尾に付ける目印
+export const HANDWRITTEN_MARKER = '〔手書き〕';
+
+// 項目名からフィールドを判定するためのパターン（上から順に判定）
+const FIELD_PATTERNS: Array<[IntakeFieldKey, RegExp]> = [
+  ['visitDate', /記入日|記載日|受診日|来院日/],
+  ['insurerNumber', /保険者番号/],
+  ['insuranceSymbolNumber', /記号/],
+  ['phone', /電話|TEL|携帯|連絡先/i],
+  ['postalCode', /郵便番号|〒/],
+  ['patientNameKana', /フリガナ|ふりがな|カナ/],
+  ['patientName', /氏名|名前|患者名/],
+  ['birthDate', /生年月日/],
+  ['age', /年齢/],
+  ['sex', /性別/],
+  ['allergies', /アレルギー|過敏症/],
+  ['pregnancy', /妊娠|授乳/],
+  ['smoking', /喫煙|たばこ|タバコ/],
+  ['alcohol', /飲酒|お酒|アルコール/],
+  ['presentIllness', /現病歴|現在の状態|現在の症状/],
+  ['pastHistory', /既往歴|病歴|過去の病気/],
+  ['medications', /薬|服薬|内服|処方/],
+  ['chiefComplaints', /症状|主訴|訴え|痛み|不調/],
+];
+
+const NONE_PATTERN = /^(なし|無し|特になし|ない|無)$/;
+
+// 「はい／いいえ」形式の選択肢
+const YES_NO_PATTERN = /^(はい|いいえ|あり|有り?|なし|無し?|する|しない|吸う|吸わない|飲む|飲まない)$/;
+
+// 空の構造化データを作成
+export function createEmptyIntakeRecord(): MedicalIntakeRecord {
+  return {
+    patientName: null,
+    patientNameKana: null,
+    birthDate: null,
+    age: null,
+    sex: null,
+    chiefComplaints: [],
+    presentIllness: null,
+    pastHistory: [],
+    medications: [],
+    allergies: [],
+    pregnancy: null,
+    smoking: null,
+    alcohol: null,
+    checkboxes: [],
+    notes: [],
+    visitDate: null,
+    phone: null,
+    postalCode: null,
+    insurerNumber: null,
+    insuranceSymbolNumber: null,
+  };
+}
+
+// 項目名から対応するフィールドを判定
+export function classifyIntakeKey(key: string): IntakeFieldKey | null {
+  for (const [field, pattern] of FIELD_PATTERNS) {
+    if (pattern.test(key)) {
+      return field;
+    }
+  }
+  return null;
+}
+
+// 判定したフィールドに値を設定
+export function assignIntakeField(
+  record: MedicalIntakeRecord,
+  field: IntakeFieldKey,
+  value: string,
+  source: IntakeSource
+): boolean {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return false;
+  }
+
+  if (field === 'age') {
+    const age = parseAge(trimmed);
+    if (age === null || record.age) return false;
+    record.age = { value: age, ...source };
+    return true;
+  }
+
+  if (field === 'sex') {
+    if (record.sex) return false;
+    const sex: IntakeSex = trimmed.includes('男') ? 'male' : trimmed.includes('女') ? 'female' : 'unknown';
+    record.sex = { value: sex, ...source };
+    return true;
+  }
+
+  if (LIST_FIELDS.includes(field)) {
+    // 「なし」と記載された項目は記録しない
+    if (NONE_PATTERN.test(trimmed)) return false;
+    (record[field] as IntakeField[]).push({ value: trimmed, ...source });
+    return true;
+  }
+
+  if (record[field]) return false;
+  (record as unknown as Record<string, IntakeField>)[field] = { value: trimmed, ...source };
+  return true;
+}
+
+// キーと値のペアから構造化データを作成
+export function extractIntakeFromKeyValuePairs(pairs: IntakeKeyValuePair[]): MedicalIntakeRecord {
+  const record = createEmptyIntakeRecord();
+
+  for (const pair of pairs) {
+    if (!pair.key || !pair.value) continue;
+
+    const source: IntakeSource = {
+      sourceText: `${pair.key}: ${pair.value}`,
+      page: pair.page,
+      boundingBox: pair.boundingBox ?? null,
+      confidence: pair.confidence ?? null,
+      ...(pair.handwritten ? { handwritten: true } : {}),
+    };
+    const field = classifyIntakeKey(pair.key);
+
+    if (field) {
+      assignIntakeField(record, field, pair.value, source);
+    } else {
+      // 判定できない項目は自由記載として保持
+      record.notes.push({ value: source.sourceText, ...source });
+    }
+  }
+
+  return record;
+}
+
+// 「項目: 値」形式のテキスト行から構造化データを作成
+export function extractIntakeFromLines(lines: IntakeSourceLine[]): MedicalIntakeRecord {
+  const record = createEmptyIntakeRecord();
+
+  for (const line of lines) {
+    const source: IntakeSource = {
+      sourceText: line.content,
+      page: line.page,
+      boundingBox: line.boundingBox ?? null,
+      confidence: line.confidence ?? null,
+      ...(line.handwritten ? { handwritten: true } : {}),
+    };
+    const match = line.content.match(/^(.+?)[：:]\s*(.+)$/);
+
+    if (!match) {
+      // 性別は「男・女」に丸を付ける形式が多いため、区切り文字がなくても判定
+      if (/性別/.test(line.content) && !record.sex) {
+        assignIntakeField(record, 'sex', line.content.replace(/性別/, ''), source);
+      }
+      continue;
+    }
+
+    const field = classifyIntakeKey(match[1]);
+    if (field) {
+      assignIntakeField(record, field, match[2], source);
+    }
+  }
+
+  return record;
+}
+
+// チェックボックスの質問と選択肢を「既往歴: 高血圧☑ 糖尿病☐」の形式で表示
+export function formatCheckboxGroup(group: IntakeCheckboxGroup): string {
+  const options = group.options.map((option) => `${option.label}${option.checked ? '☑' : '☐'}`).join(' ');
+  return group.question ? `${group.question}: ${options}` : options;
+}
+
+// 選択マークから構造化データを作成
+// 質問ごとにチェック項目として保持し、判定できる質問は該当するフィールドにも設定する
+export function extractIntakeFromSelectionMarks(marks: IntakeSelectionMark[]): MedicalIntakeRecord {
+  const record = createEmptyIntakeRecord();
+  const groups = new Map<string, IntakeSelectionMark[]>();
+
+  for (const mark of marks) {
+    const key = `${mark.page}:${mark.question}`;
+    groups.set(key, [...(groups.get(key) || []), mark]);
+  }
+
+  for (const options of groups.values()) {
+    const { question, page } = options[0];
+    const group: IntakeCheckboxGroup = {
+      question,
+      options: options.map((option) => ({ label: option.label, checked: option.checked })),
+    };
+    const checked = options.filter((option) => option.checked && option.label);
+    const confidences = options
+      .map((option) => option.confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+    const source: IntakeSource = {
+      sourceText: formatCheckboxGroup(group),
+      page,
+      boundingBox: (checked[0] || options[0]).boundingBox ?? null,
+      confidence: confidences.length > 0 ? Math.min(...confidences) : null,
+    };
+
+    record.checkboxes.push({ value: group, ...source });
+
+    const field = question ? classifyIntakeKey(question) : null;
+    if (!field || checked.length === 0) continue;
+
+    if (LIST_FIELDS.includes(field)) {
+      // 「はい／いいえ」ではなく具体的な選択肢（高血圧など）がチェックされている場合のみ追加
+      for (const option of checked) {
+        if (!YES_NO_PATTERN.test(option.label)) {
+          assignIntakeField(record, field, option.label, source);
+        }
+      }
+    } else {
+      assignIntakeField(record, field, checked.map((option) => option.label).join('・'), source);
+    }
+  }
+
+  return record;
+}
+
+// OCRのテキスト（ページ区切り付き）を行に分割
+export function splitTextIntoSourceLines(text: string): IntakeSourceLine[] {
+  const lines: IntakeSourceLine[] = [];
+  let page: number | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const pageMatch = rawLine.match(/^===== ページ (\d+) =====$/);
+    if (pageMatch) {
+      page = parseInt(pageMatch[1], 10);
+      continue;
+    }
+
+    // テーブルやフォームフィールドのセクション以降はページを特定できない
+    if (rawLine.startsWith('===== ')) {
+      page = null;
+      continue;
+    }
+
+    // 手書きの目印は取り除き、行の情報として保持する
+    const content = rawLine.trim();
+    if (content.endsWith(HANDWRITTEN_MARKER)) {
+      const text = content.slice(0, -HANDWRITTEN_MARKER.length).trim();
+      if (text) lines.push({ content: text, page, handwritten: true });
+    } else if (content) {
+      lines.push({ content, page });
+    }
+  }
+
+  return lines;
+}
+
+// extractStructuredDataの結果から行とキーと値のペアを取り出す
+export function readStructuredData(structuredData: Record<string, unknown>): {
+  lines: IntakeSourceLine[];
+  pairs: IntakeKeyValuePair[];
+  marks: IntakeSelectionMark[];
+} {
+  const lines: IntakeSourceLine[] = [];
+  const pages = (structuredData.pages || []) as Array<Record<string, unknown>>;
+  const readingOrder = (structuredData.readingOrder || []) as Array<Record<string, unknown>>;
+
+  // 読み順に組み立てた行（質問と手書きの回答をまとめたもの）があれば優先し、なければページ内の行を使用
+  const rawLines: Array<Record<string, unknown>> = readingOrder.length > 0
+    ? readingOrder
+    : pages.flatMap((page) => ((page.lines || []) as Array<Record<string, unknown>>).map((line) => ({ ...line, pageNumber: page.pageNumber })));
+
+  for (const line of rawLines) {
+    if (typeof line.content === 'string' && line.content.trim()) {
+      lines.push({
+        content: line.content.trim(),
+        page: typeof line.pageNumber === 'number' ? line.pageNumber : null,
+        boundingBox: Array.isArray(line.boundingBox) ? line.boundingBox as number[] : null,
+        confidence: typeof line.confidence === 'number' ? line.confidence : null,
+        ...(line.handwritten === true ? { handwritten: true } : {}),
+      });
+    }
+  }
+
+  const pairs = ((structuredData.keyValuePairs || []) as Array<Record<string, unknown>>).map((pair) => ({
+    key: String(pair.key || ''),
+    value: String(pair.value || ''),
+    page: typeof pair.pageNumber === 'number' ? pair.pageNumber : null,
+    boundingBox: Array.isArray(pair.boundingBox) ? pair.boundingBox as number[] : null,
+    confidence: typeof pair.confidence === 'number' ? pair.confidence : null,
+    ...(pair.handwritten === true ? { handwritten: true } : {}),
+  }));
+
+  const marks = ((structuredData.selectionMarks || []) as Array<Record<string, unknown>>).map((mark) => ({
+    question: String(mark.question || ''),
+    label: String(mark.label || ''),
+    checked: mark.checked === true,
+    page: typeof mark.pageNumber === 'number' ? mark.pageNumber : null,
+    boundingBox: Array.isArray(mark.boundingBox) ? mark.boundingBox as number[] : null,
+    confidence: typeof mark.confidence === 'number' ? mark.confidence : null,
+  }));
+
+  return { lines, pairs, marks };
+}
+
+// 構造化データを優先し、空のフィールドを補完データで埋める
+export function mergeIntakeRecords(primary: MedicalIntakeRecord, secondary: MedicalIntakeRecord): MedicalIntakeRecord {
+  const merged = createEmptyIntakeRecord() as unknown as Record<string, unknown>;
+  const first = primary as unknown as Record<string, unknown>;
+  const second = secondary as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(merged)) {
+    if (Array.isArray(merged[key])) {
+      const list = first[key] as IntakeField<unknown>[];
+      merged[key] = list.length > 0 ? list : second[key];
+    } else {
+      merged[key] = first[key] ?? second[key];
+    }
+  }
+
+  return merged as unknown as MedicalIntakeRecord;
+}
+
+// フィールドの値を正規化（正規化の対象でないフィールドはundefined、解析できない場合はnull）
+export function normalizeFieldValue(key: IntakeFieldKey, value: string): string | null | undefined {
+  const normalizer = NORMALIZERS.find(([field]) => field === key);
+  return normalizer ? normalizer[1](value) : undefined;
+}
+
+// 日付・電話番号・保険者番号・薬剤の一般名などの正規化した値を設定し、
+// 年齢が記入されていない場合は生年月日から記入日（なければ今日）時点の年齢を求める
+export function normalizeIntakeRecord(record: MedicalIntakeRecord, today: Date = new Date()): MedicalIntakeRecord {
+  const normalized = { ...record } as unknown as Record<string, IntakeField | IntakeField[] | null>;
+
+  for (const [key, normalize] of NORMALIZERS) {
+    const field = normalized[key];
+    if (Array.isArray(field)) {
+      normalized[key] = field.map((item) => ({ ...item, normalized: normalize(item.value) }));
+    } else if (field) {
+      normalized[key] = { ...field, normalized: normalize(field.value) };
+    }
+  }
+
+  const result = normalized as unknown as MedicalIntakeRecord;
+  const birthDate = result.birthDate?.normalized;
+  if (!result.age && result.birthDate && birthDate) {
+    const age = computeAge(birthDate, result.visitDate?.normalized || formatLocalDate(today));
+    if (age !== null) {
+      const { sourceText, page, boundingBox, confidence } = result.birthDate;
+      result.age = { value: age, sourceText, page, boundingBox, confidence };
+    }
+  }
+
+  return result;
+}
+
+// Azureの分析結果から構造化データを作成（キーと値のペア、選択マーク、テキスト行の順に優先）
+export function extractIntakeRecord(structuredData: Record<string, unknown> | null, text = ''): MedicalIntakeRecord {
+  if (!structuredData) {
+    return normalizeIntakeRecord(extractIntakeFromLines(splitTextIntoSourceLines(text)));
+  }
+
+  const { lines, pairs, marks } = readStructuredData(structuredData);
+  return normalizeIntakeRecord(mergeIntakeRecords(
+    extractIntakeFromKeyValuePairs(pairs),
+    mergeIntakeRecords(extractIntakeFromSelectionMarks(marks), extractIntakeFromLines(lines))
+  ));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// フィールド1件を検証
+function validateField(value: unknown, path: string, kind: 'string' | 'number' | 'sex' | 'checkbox'): IntakeField<unknown> {
+  if (!isObject(value)) {
+    throw new Error(`${path} はオブジェクトである必要があります`);
+  }
+
+  const fieldValue = value.value;
+  if (kind === 'number' && (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue))) {
+    throw new Error(`${path}.value は数値である必要があります`);
+  }
+  if (kind === 'sex' && !SEX_VALUES.includes(fieldValue as IntakeSex)) {
+    throw new Error(`${path}.value は ${SEX_VALUES.join(' / ')} のいずれかである必要があります`);
+  }
+  if (kind === 'string' && typeof fieldValue !== 'string') {
+    throw new Error(`${path}.value は文字列である必要があります`);
+  }
+  if (kind === 'checkbox' && (
+    !isObject(fieldValue)
+    || typeof fieldValue.question !== 'string'
+    || !Array.isArray(fieldValue.options)
+    || fieldValue.options.some((option) => !isObject(option) || typeof option.label !== 'string' || typeof option.checked !== 'boolean')
+  )) {
+    throw new Error(`${path}.value は {question, options: [{label, checked}]} の形式である必要があります`);
+  }
+
+  const sourceText = value.sourceText ?? '';
+  if (typeof sourceText !== 'string') {
+    throw new Error(`${path}.sourceText は文字列である必要があります`);
+  }
+
+  const page = value.page ?? null;
+  if (page !== null && typeof page !== 'number') {
+    throw new Error(`${path}.page は数値またはnullである必要があります`);
+  }
+
+  const boundingBox = value.boundingBox ?? null;
+  if (boundingBox !== null && (!Array.isArray(boundingBox) || boundingBox.some((n) => typeof n !== 'number'))) {
+    throw new Error(`${path}.boundingBox は数値の配列またはnullである必要があります`);
+  }
+
+  const confidence = value.confidence ?? null;
+  if (confidence !== null && typeof confidence !== 'number') {
+    throw new Error(`${path}.confidence は数値またはnullである必要があります`);
+  }
+
+  if (value.normalized !== undefined && value.normalized !== null && typeof value.normalized !== 'string') {
+    throw new Error(`${path}.normalized は文字列またはnullである必要があります`);
+  }
+
+  return {
+    value: fieldValue,
+    sourceText,
+    page,
+    boundingBox: boundingBox as number[] | null,
+    confidence,
+    needsReview: value.needsReview === true,
+    ...(value.normalized !== undefined ? { normalized: value.normalized as string | null } : {}),
+    ...(value.handwritten === true ? { handwritten: true } : {}),
+  };
+}
+
+// 外部から受け取ったデータ（LLMの出力など）を検証して構造化データに変換
+// 省略されたフィールドは空として扱い、型が異なる場合はエラーを投げる
+export function validateIntakeRecord(value: unknown): MedicalIntakeRecord {
+  if (!isObject(value)) {
+    throw new Error('構造化データはオブジェクトである必要があります');
+  }
+
+  const record = createEmptyIntakeRecord() as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) continue;
+
+    if (Array.isArray(record[key])) {
+      if (!Array.isArray(fieldValue)) {
+        throw new Error(`${key} は配列である必要があります`);
+      }
+      const kind = key === 'checkboxes' ? 'checkbox' : 'string';
+      record[key] = fieldValue.map((item, index) => validateField(item, `${key}[${index}]`, kind));
+    } else if (key === 'age') {
+      record[key] = validateField(fieldValue, key, 'number');
+    } else if (key === 'sex') {
+      record[key] = validateField(fieldValue, key, 'sex');
+    } else if (STRING_FIELDS.includes(key as IntakeFieldKey)) {
+      record[key] = validateField(fieldValue, key, 'string');
+    }
+  }
+
+  return record as unknown as MedicalIntakeRecord;
+}
+
+// LLMのJSONモード出力を解析して構造化データに変換
+export function parseIntakeRecordJson(output: string): MedicalIntakeRecord {
+  // コードブロックで囲まれている場合は中身を取り出す
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const json = (fenced ? fenced[1] : output).trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('LLMの出力をJSONとして解析できませんでした');
+  }
+
+  return validateIntakeRecord(parsed);
+}
+
+// LLMに構造化データをJSONで出力させるためのプロンプト
+export function buildIntakeJsonPrompt(text: string): string {
+  return `
+あなたは医療アシスタントです。以下の問診票から抽出されたテキストを分析し、
+指定のJSON形式で医療情報を抽出してください。JSON以外は出力しないでください。
+
+各項目は {"value": 値, "sourceText": "根拠となった元のテキスト", "page": ページ番号またはnull} の形式です。
+該当する情報がない項目は null（リストの場合は []）にしてください。
+sex の value は "male" / "female" / "other" / "unknown"、age の value は数値です。
+日付・電話番号・保険者番号などは問診票に記入された表記のまま（和暦・全角数字も変換せず）出力してください。
+visitDate は問診票の記入日、insuranceSymbolNumber は保険証の記号・番号です。
+
+{
+  "patientName": 項目, "patientNameKana": 項目, "birthDate": 項目, "age": 項目, "sex": 項目,
+  "chiefComplaints": [項目], "presentIllness": 項目, "pastHistory": [項目],
+  "medications": [項目], "allergies": [項目],
+  "pregnancy": 項目, "smoking": 項目, "alcohol": 項目, "notes": [項目],
+  "visitDate": 項目, "phone": 項目, "postalCode": 項目, "insurerNumber": 項目, "insuranceSymbolNumber": 項目
+}
+
+抽出テキスト:
+${text}
+`;
+}
+
+// 各フィールドの表示名（カルテの見出しと共通）
+export const INTAKE_FIELD_LABELS: Record<IntakeFieldKey, string> = {
+  patientName: '氏名',
+  patientNameKana: 'フリガナ',
+  birthDate: '生年月日',
+  age: '年齢',
+  sex: '性別',
+  chiefComplaints: '主訴・症状',
+  presentIllness: '現病歴',
+  pastHistory: '既往歴',
+  medications: '服薬情報',
+  allergies: 'アレルギー',
+  pregnancy: '妊娠・授乳',
+  smoking: '喫煙',
+  alcohol: '飲酒',
+  checkboxes: 'チェック項目',
+  notes: 'その他',
+  visitDate: '記入日',
+  phone: '電話番号',
+  postalCode: '郵便番号',
+  insurerNumber: '保険者番号',
+  insuranceSymbolNumber: '記号・番号',
+};
+
+// フィールドの値を表示用の文字列にする
+export function formatIntakeValue(key: IntakeFieldKey, field: IntakeField<unknown>): string {
+  if (key === 'checkboxes') {
+    return formatCheckboxGroup(field.value as IntakeCheckboxGroup);
+  }
+  if (key === 'sex') {
+    return SEX_LABELS[field.value as IntakeSex] || String(field.value);
+  }
+  // 薬剤は記入された表記に一般名を添える（「ノルバスク5mg（アムロジピンベシル酸塩）」）
+  if (key === 'medications' && field.normalized && !String(field.value).includes(field.normalized)) {
+    return `${field.value}（${field.normalized}）`;
+  }
+  return String(field.value);
+}
+
+// フィールドの位置（リストの場合はindexで要素を指定）
+export interface IntakeFieldEntry {
+  key: IntakeFieldKey;
+  index: number | null;
+  field: IntakeField<unknown>;
+}
+
+// 値が入っているフィールドを一覧にする
+export function listIntakeFields(record: MedicalIntakeRecord): IntakeFieldEntry[] {
+  const fields: IntakeFieldEntry[] = [];
+
+  for (const key of Object.keys(INTAKE_FIELD_LABELS) as IntakeFieldKey[]) {
+    const value = record[key];
+    if (Array.isArray(value)) {
+      fields.push(...value.map((field, index) => ({ key, index, field })));
+    } else if (value) {
+      fields.push({ key, index: null, field: value });
+    }
+  }
+
+  return fields;
+}
+
+// 1つのフィールドを更新した新しい構造化データを返す
+export function updateIntakeField(
+  record: MedicalIntakeRecord,
+  key: IntakeFieldKey,
+  index: number | null,
+  update: Partial<IntakeField<unknown>>
+): MedicalIntakeRecord {
+  const updated = { ...record } as unknown as Record<string, unknown>;
+  const current = updated[key];
+
+  if (Array.isArray(current) && index !== null) {
+    updated[key] = current.map((field, i) => (i === index ? { ...field, ...update } : field));
+  } else if (current && !Array.isArray(current)) {
+    updated[key] = { ...current, ...update };
+  }
+
+  return updated as unknown as MedicalIntakeRecord;
+}
+
+// 信頼度がしきい値未満のフィールドと、正規化できなかったフィールド（保険者番号の検証番号の誤りなど）を要確認にする
+// 信頼度のないフィールド（LLMの出力など）は、抽出元テキストと一致するOCRの行の信頼度を使用
+export function flagLowConfidenceFields(
+  record: MedicalIntakeRecord,
+  threshold: number,
+  structuredData: Record<string, unknown> | null = null
+): MedicalIntakeRecord {
+  const lines = structuredData ? readStructuredData(structuredData).lines : [];
+  let flagged = record;
+
+  for (const { key, index, field } of listIntakeFields(record)) {
+    const confidence = field.confidence
+      ?? lines.find((line) => line.content === field.sourceText)?.confidence
+      ?? null;
+
+    flagged = updateIntakeField(flagged, key, index, {
+      confidence,
+      needsReview: (confidence !== null && confidence < threshold) || field.normalized === null,
+    });
+  }
+
+  return flagged;
+}
+
+// カルテの1行に対応するフィールドを探す（見出し行の場合はそのセクションの全フィールド）
+export function findIntakeFieldsForKarteLine(line: string, record: MedicalIntakeRecord): IntakeField<unknown>[] {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  const heading = trimmed.match(/^【(.+)】$/);
+  const fields = listIntakeFields(record);
+
+  if (heading) {
+    return fields
+      .filter(({ key }) => INTAKE_FIELD_LABELS[key] === heading[1])
+      .map(({ field }) => field);
+  }
+
+  const item = trimmed.replace(/^・/, '');
+  return fields
+    .filter(({ key, field }) => item.startsWith(`${INTAKE_FIELD_LABELS[key]}:`) || item === formatIntakeValue(key, field))
+    .map(({ field }) => field);
+}
+
+export const SEX_LABELS: Record<IntakeSex, string> = {
+  male: '男性',
+  female: '女性',
+  other: 'その他',
+  unknown: '不明',
+};
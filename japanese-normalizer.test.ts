@@ -0,0 +1,164 @@
+// 日本語の値の正規化と、構造化データへの適用のテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeAge,
+  isValidInsurerNumber,
+  normalizeInsuranceSymbolNumber,
+  normalizeInsurerNumber,
+  normalizePhoneNumber,
+  normalizePostalCode,
+  parseAge,
+  parseJapaneseDate
+} from '../app/lib/japanese-normalizer';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  extractIntakeFromLines,
+  extractIntakeRecord,
+  flagLowConfidenceFields,
+  normalizeIntakeRecord
+} from '../app/lib/intake-record';
+
+describe('parseJapaneseDate', () => {
+  for (const [text, expected] of [
+    ['昭和55年3月2日', '1980-03-02'],
+    ['S55.3.2', '1980-03-02'],
+    ['s55/3/2', '1980-03-02'],
+    ['昭５５年３月２日', '1980-03-02'],
+    ['平成元年1月8日', '1989-01-08'],
+    ['H31.4.30', '2019-04-30'],
+    ['令和6年5月14日', '2024-05-14'],
+    ['大正15年12月24日', '1926-12-24'],
+    ['１９８０年３月２日', '1980-03-02'],
+    ['1980/3/2', '1980-03-02'],
+    ['1980－03－02', '1980-03-02'],
+    ['19800302', '1980-03-02'],
+  ]) {
+    it(`${text} を ${expected} にする`, () => {
+      assert.equal(parseJapaneseDate(text), expected);
+    });
+  }
+
+  it('存在しない日付や元号の範囲外の年はnullを返す', () => {
+    assert.equal(parseJapaneseDate('昭和55年2月30日'), null);
+    assert.equal(parseJapaneseDate('平成32年1月1日'), null);
+    assert.equal(parseJapaneseDate('3月2日'), null);
+  });
+
+  it('元号の始まる前・終わった後の日付はnullを返す', () => {
+    assert.equal(parseJapaneseDate('昭和64年1月7日'), '1989-01-07');
+    assert.equal(parseJapaneseDate('昭和64年1月8日'), null);
+    assert.equal(parseJapaneseDate('平成元年1月7日'), null);
+    assert.equal(parseJapaneseDate('令和元年4月30日'), null);
+    assert.equal(parseJapaneseDate('令和元年5月1日'), '2019-05-01');
+    assert.equal(parseJapaneseDate('平成31年5月1日'), null);
+  });
+});
+
+describe('年齢', () => {
+  it('全角数字の年齢を読み取る', () => {
+    assert.equal(parseAge('４５歳'), 45);
+    assert.equal(parseAge('満45才'), 45);
+    assert.equal(parseAge('不明'), null);
+  });
+
+  it('誕生日の前日までは満年齢を増やさない', () => {
+    assert.equal(computeAge('1980-03-02', '2024-03-01'), 43);
+    assert.equal(computeAge('1980-03-02', '2024-03-02'), 44);
+  });
+});
+
+describe('電話番号・郵便番号', () => {
+  for (const [text, expected] of [
+    ['03-1234-5678', '+81312345678'],
+    ['０９０－１２３４－５６７８', '+819012345678'],
+    ['TEL (045) 123-4567', '+81451234567'],
+    ['+81 90 1234 5678', '+819012345678'],
+    ['0120-123-456', '+81120123456'],
+  ]) {
+    it(`${text} を ${expected} にする`, () => {
+      assert.equal(normalizePhoneNumber(text), expected);
+    });
+  }
+
+  it('桁数が合わない電話番号はnullを返す', () => {
+    assert.equal(normalizePhoneNumber('090-1234-567'), null);
+    assert.equal(normalizePhoneNumber('1234-5678'), null);
+  });
+
+  it('郵便番号を123-4567の形式にする', () => {
+    assert.equal(normalizePostalCode('〒１００ー０００１'), '100-0001');
+    assert.equal(normalizePostalCode('1000001'), '100-0001');
+    assert.equal(normalizePostalCode('100-001'), null);
+  });
+});
+
+describe('保険者番号・記号番号', () => {
+  it('検証番号を確認する', () => {
+    assert.equal(isValidInsurerNumber('01130012'), true);
+    assert.equal(isValidInsurerNumber('06132013'), true);
+    assert.equal(isValidInsurerNumber('138057'), true);
+    assert.equal(isValidInsurerNumber('01130013'), false);
+    assert.equal(isValidInsurerNumber('0113001'), false);
+  });
+
+  it('全角数字・ハイフン入りの保険者番号を数字のみにする', () => {
+    assert.equal(normalizeInsurerNumber('０１１３－００１２'), '01130012');
+    assert.equal(normalizeInsurerNumber('01130013'), null);
+  });
+
+  it('記号・番号を分けて読み取る', () => {
+    assert.equal(normalizeInsuranceSymbolNumber('記号 1234 番号 567'), '1234・567');
+    assert.equal(normalizeInsuranceSymbolNumber('１２３４・５６７'), '1234・567');
+    assert.equal(normalizeInsuranceSymbolNumber('1234'), null);
+  });
+});
+
+describe('normalizeIntakeRecord', () => {
+  const lines = [
+    '記入日: 令和6年5月14日',
+    '生年月日: S55.3.2',
+    '電話番号: ０９０－１２３４－５６７８',
+    '〒: 100-0001',
+    '保険者番号: 01130013',
+    '記号・番号: 1234・567',
+  ].map((content) => ({ content, page: 1, confidence: 0.99 }));
+
+  it('元の表記を残したまま正規化した値を設定し、記入日時点の年齢を求める', () => {
+    const record = extractIntakeFromLines(lines);
+    const normalized = normalizeIntakeRecord(record);
+
+    assert.equal(normalized.birthDate?.value, 'S55.3.2');
+    assert.equal(normalized.birthDate?.normalized, '1980-03-02');
+    assert.equal(normalized.visitDate?.normalized, '2024-05-14');
+    assert.equal(normalized.age?.value, 44);
+    assert.equal(normalized.age?.sourceText, '生年月日: S55.3.2');
+    assert.equal(normalized.phone?.value, '０９０－１２３４－５６７８');
+    assert.equal(normalized.phone?.normalized, '+819012345678');
+    assert.equal(normalized.postalCode?.normalized, '100-0001');
+    assert.equal(normalized.insuranceSymbolNumber?.normalized, '1234・567');
+  });
+
+  it('記入された年齢を優先し、記入日がなければ今日の年齢を求める', () => {
+    const withAge = normalizeIntakeRecord(extractIntakeFromLines([
+      { content: '年齢: ４５歳', page: 1 },
+      { content: '生年月日: 昭和55年3月2日', page: 1 },
+    ]));
+    const withoutVisitDate = normalizeIntakeRecord(
+      extractIntakeFromLines([{ content: '生年月日: 昭和55年3月2日', page: 1 }]),
+      new Date(2030, 2, 1)
+    );
+
+    assert.equal(withAge.age?.value, 45);
+    assert.equal(withoutVisitDate.age?.value, 49);
+  });
+
+  it('検証番号が一致しない保険者番号は要確認にする', () => {
+    const record = flagLowConfidenceFields(extractIntakeRecord(null, lines.map((line) => line.content).join('\n')), DEFAULT_CONFIDENCE_THRESHOLD);
+
+    assert.equal(record.insurerNumber?.normalized, null);
+    assert.equal(record.insurerNumber?.needsReview, true);
+    assert.equal(record.phone?.needsReview, false);
+  });
+});
@@ -0,0 +1,163 @@
+// 問診票に記入された日本語の値（和暦の日付、全角数字、年齢、電話番号、保険者番号など）を正規化する関数
+// いずれも元の表記は変更せず、正規化した値を返す（解析できない場合はnull）
+
+// 元号と元年の西暦、元号の最初と最後の日（YYYY-MM-DD、現在の元号は最後の日なし）
+const ERAS: Array<{ names: string[]; startYear: number; startDate: string; endDate: string | null }> = [
+  { names: ['明治', '明', 'M'], startYear: 1868, startDate: '1868-01-01', endDate: '1912-07-29' },
+  { names: ['大正', '大', 'T'], startYear: 1912, startDate: '1912-07-30', endDate: '1926-12-24' },
+  { names: ['昭和', '昭', 'S'], startYear: 1926, startDate: '1926-12-25', endDate: '1989-01-07' },
+  { names: ['平成', '平', 'H'], startYear: 1989, startDate: '1989-01-08', endDate: '2019-04-30' },
+  { names: ['令和', '令', 'R'], startYear: 2019, startDate: '2019-05-01', endDate: null },
+];
+
+const ERA_PATTERN = new RegExp(
+  `(${ERAS.flatMap((era) => era.names).join('|')})\\.?\\s*(\\d{1,2}|元)\\s*[年./-]\\s*(\\d{1,2})\\s*[月./-]\\s*(\\d{1,2})`,
+  'i'
+);
+const WESTERN_DATE_PATTERN = /(\d{4})\s*[年./-]\s*(\d{1,2})\s*[月./-]\s*(\d{1,2})/;
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+// 電話番号・郵便番号などに使われるハイフンに似た記号
+const HYPHEN_PATTERN = /[‐‑‒–—―−ーｰ－]/g;
+
+// 全角の英数字・記号・空白を半角にする（半角カナは全角になる）
+export function toHalfWidth(text: string): string {
+  return text.normalize('NFKC');
+}
+
+// 数字の項目として読めるよう、半角にしてハイフンに似た記号を統一する
+function normalizeDigits(text: string): string {
+  return toHalfWidth(text).replace(HYPHEN_PATTERN, '-');
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// 和暦（昭和55年3月2日、S55.3.2、平成元年1月8日）・西暦（1980年3月2日、1980/3/2、19800302）の日付をYYYY-MM-DDにする
+export function parseJapaneseDate(text: string): string | null {
+  const normalized = normalizeDigits(text).trim();
+
+  const eraMatch = normalized.match(ERA_PATTERN);
+  if (eraMatch) {
+    const [, eraName, eraYear, month, day] = eraMatch;
+    const era = ERAS.find((e) => e.names.some((name) => name.toUpperCase() === eraName.toUpperCase()));
+    const year = eraYear === '元' ? 1 : Number(eraYear);
+    if (!era || year < 1) {
+      return null;
+    }
+    // 昭和64年1月8日・令和元年4月30日など、元号の期間外の日付は解析できないものとする
+    const date = toIsoDate(era.startYear + year - 1, Number(month), Number(day));
+    if (!date || date < era.startDate || (era.endDate && date > era.endDate)) {
+      return null;
+    }
+    return date;
+  }
+
+  const match = normalized.match(WESTERN_DATE_PATTERN) || normalized.replace(/\s/g, '').match(COMPACT_DATE_PATTERN);
+  if (match) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  return null;
+}
+
+// 「45歳」「４５才」「満45」などから年齢を読み取る
+export function parseAge(text: string): number | null {
+  const match = toHalfWidth(text).match(/(\d{1,3})/);
+  if (!match) {
+    return null;
+  }
+  const age = Number(match[1]);
+  return age <= 130 ? age : null;
+}
+
+// 生年月日（YYYY-MM-DD）から基準日（受診日など）時点の満年齢を求める
+export function computeAge(birthDate: string, onDate: string): number | null {
+  const [birthYear, birthMonth, birthDay] = birthDate.split('-').map(Number);
+  const [year, month, day] = onDate.split('-').map(Number);
+  if ([birthYear, birthMonth, birthDay, year, month, day].some((n) => !Number.isFinite(n))) {
+    return null;
+  }
+
+  const age = year - birthYear - (month < birthMonth || (month === birthMonth && day < birthDay) ? 1 : 0);
+  return age >= 0 ? age : null;
+}
+
+// 日付をローカル時刻のYYYY-MM-DDにする
+export function formatLocalDate(date: Date): string {
+  return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate()) as string;
+}
+
+// 国内の電話番号（03-1234-5678、090-1234-5678、+81 90 1234 5678など）をE.164形式（+81...）にする
+export function normalizePhoneNumber(text: string): string | null {
+  const compact = normalizeDigits(text).replace(/[^\d+]/g, '');
+
+  let national: string;
+  if (compact.startsWith('+81')) {
+    national = `0${compact.slice(3).replace(/^0/, '')}`;
+  } else if (compact.startsWith('0')) {
+    national = compact;
+  } else {
+    return null;
+  }
+  if (!/^\d+$/.test(national)) {
+    return null;
+  }
+
+  // 携帯電話・IP電話・0800は11桁、それ以外（固定電話・0120）は10桁
+  const expectedLength = /^(0[5-9]0|020|0800)/.test(national) ? 11 : 10;
+  if (national.length !== expectedLength) {
+    return null;
+  }
+
+  return `+81${national.slice(1)}`;
+}
+
+// 郵便番号（〒123-4567、１２３４５６７など）を123-4567の形式にする
+export function normalizePostalCode(text: string): string | null {
+  const match = normalizeDigits(text).replace(/[〒\s]/g, '').match(/^(\d{3})-?(\d{4})$/);
+  return match ? `${match[1]}-${match[2]}` : null;
+}
+
+// 保険者番号の検証番号（末尾の1桁）が正しいか
+// 検証番号を除いた各桁に末尾から2、1、2、1…を掛け、積の各桁の和の下1桁を10から引いた数（下1桁が0なら0）
+export function isValidInsurerNumber(digits: string): boolean {
+  if (!/^(\d{6}|\d{8})$/.test(digits)) {
+    return false;
+  }
+
+  const body = digits.slice(0, -1).split('').map(Number).reverse();
+  const sum = body.reduce((total, digit, index) => {
+    const product = digit * (index % 2 === 0 ? 2 : 1);
+    return total + Math.floor(product / 10) + (product % 10);
+  }, 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return checkDigit === Number(digits[digits.length - 1]);
+}
+
+// 保険者番号（社会保険・後期高齢者は8桁、国民健康保険は6桁）を数字のみにし、検証番号を確認する
+export function normalizeInsurerNumber(text: string): string | null {
+  const digits = normalizeDigits(text).replace(/[\s-]/g, '');
+  return isValidInsurerNumber(digits) ? digits : null;
+}
+
+// 保険証の記号・番号（「記号 1234 番号 567」「1234・567」など）を「記号・番号」の形式にする
+export function normalizeInsuranceSymbolNumber(text: string): string | null {
+  const normalized = toHalfWidth(text).trim();
+
+  const labeled = normalized.match(/記号\s*[:：]?\s*(\S+?)\s*[・,、\s]?\s*番号\s*[:：]?\s*(\S+)/);
+  const [symbol, number] = labeled
+    ? [labeled[1], labeled[2]]
+    : normalized.split(/\s*[・/／\s]\s*/).filter(Boolean);
+
+  if (!symbol || !number) {
+    return null;
+  }
+  return `${symbol.replace(HYPHEN_PATTERN, '-')}・${number.replace(HYPHEN_PATTERN, '-')}`;
+}
@@ -0,0 +1,111 @@
+// ドキュメント処理ジョブの進捗をServer-Sent Eventsで配信するAPIルート（GET /api/jobs/:id/events）
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '../../../job-store';
+
+// ジョブストアを確認する間隔
+const EVENT_POLL_INTERVAL_MS = 500;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const store = getJobStore();
+
+  if (!(await store.get(id))) {
+    return NextResponse.json(
+      { error: 'ジョブが見つかりません' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let onAbort: (() => void) | null = null;
+
+  // 配信を終了し、タイマーと切断の監視を解除する
+  const stop = () => {
+    closed = true;
+    if (timer) clearTimeout(timer);
+    if (onAbort) request.signal.removeEventListener('abort', onAbort);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let sentCount = 0;
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // クライアントが切断してストリームが既に閉じている
+        }
+      };
+
+      // クライアントが切断した場合は配信を終了
+      onAbort = close;
+      request.signal.addEventListener('abort', close);
+
+      // 送信に失敗した場合（切断済み）は配信を終了
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+
+      // 未送信のイベントを送信し、ジョブが終了するまで繰り返す
+      const flush = async () => {
+        if (closed) return;
+
+        const job = await store.get(id);
+        // ジョブの確認中に切断された場合は送信しない
+        if (closed) return;
+        if (!job) {
+          close();
+          return;
+        }
+
+        for (const event of job.events.slice(sentCount)) {
+          const data = { ...event, stage: job.stage, progress: job.progress };
+          send(`event: progress\ndata: ${JSON.stringify(data)}\n\n`);
+          if (closed) return;
+        }
+        sentCount = job.events.length;
+
+        if (job.stage === 'done' || job.stage === 'failed') {
+          close();
+          return;
+        }
+
+        timer = setTimeout(run, EVENT_POLL_INTERVAL_MS);
+      };
+
+      // ジョブストアの読み込みに失敗した場合も未処理の例外にしない
+      const run = () => {
+        flush().catch((error) => {
+          console.error('ジョブの進捗の配信エラー:', error);
+          close();
+        });
+      };
+
+      run();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,46 @@
+// 完了したジョブの結果をFHIR R4のBundleとして返すAPIルート（GET /api/jobs/:id/fhir）
+
+import { NextRequest, NextResponse } from 'next/server';
+import { humanizeErrorMessage } from '../../../azure-utils';
+import { getJobStore } from '../../../job-store';
+import { buildFhirBundle } from '../../../../lib/fhir-export';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJobStore().get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (job.stage !== 'done' || !job.result) {
+      return NextResponse.json(
+        { error: 'ジョブはまだ完了していません' },
+        { status: 409 }
+      );
+    }
+
+    const upload = job.events.find((event) => event.type === 'upload-accepted');
+    const bundle = buildFhirBundle(job.result.intakeRecord, {
+      fileName: upload?.type === 'upload-accepted' ? upload.fileName : undefined,
+      authored: job.updatedAt,
+    });
+
+    return NextResponse.json(bundle, {
+      headers: { 'Content-Type': 'application/fhir+json; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('APIエラー:', error);
+    return NextResponse.json(
+      { error: humanizeErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// ドキュメント処理ジョブの状態を返し、キャンセルを受け付けるAPIルート（GET/DELETE /api/jobs/:id）
+
+import { NextRequest, NextResponse } from 'next/server';
+import { humanizeErrorMessage } from '../../azure-utils';
+import { cancelJob, getJobStore } from '../../job-store';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJobStore().get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('APIエラー:', error);
+    return NextResponse.json(
+      { error: humanizeErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJobStore().get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (job.stage === 'done' || job.stage === 'failed') {
+      return NextResponse.json(
+        { error: 'ジョブは既に終了しています' },
+        { status: 409 }
+      );
+    }
+
+    // 処理中のAzure呼び出しやポーリングを中断（結果はジョブの失敗として記録される）
+    if (!cancelJob(id)) {
+      return NextResponse.json(
+        { error: 'このサーバーで実行中のジョブではないためキャンセルできません' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ id, cancelled: true }, { status: 202 });
+  } catch (error) {
+    console.error('APIエラー:', error);
+    return NextResponse.json(
+      { error: humanizeErrorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// ジョブストアのテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileJobStore } from '../app/api/job-store';
+
+describe('createFileJobStore', () => {
+  it('ジョブの作成時に、期限切れのジョブのファイルを削除する', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    try {
+      const store = createFileJobStore(directory);
+      const expired = await store.create();
+      const expiredPath = path.join(directory, `${expired.id}.json`);
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      await fs.utimes(expiredPath, twoHoursAgo, twoHoursAgo);
+
+      const active = await store.create();
+
+      assert.deepEqual(await fs.readdir(directory), [`${active.id}.json`]);
+      assert.equal((await store.get(active.id))?.stage, 'uploaded');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,263 @@
+// ドキュメント処理ジョブの状態を保存するストア
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MedicalIntakeRecord } from '../lib/intake-record';
+import type { MedicationReview } from '../lib/medication-dictionary';
+import type { OcrProviderType } from './ocr-provider';
+
+export type JobStage = 'uploaded' | 'ocr-running' | 'formatting' | 'done' | 'failed';
+
+// ジョブ完了時の処理結果
+export interface ProcessingResult {
+  content: string;
+  formattedContent: string;
+  intakeRecord: MedicalIntakeRecord;
+  // 服薬情報を医薬品マスタと照合した結果（一般名・YJコード・相互作用の警告）
+  medicationReview: MedicationReview;
+  // extractStructuredDataの結果（ページ・行の座標など）
+  structuredData: Record<string, unknown> | null;
+  // Azureを呼び出さず、キャッシュした分析結果を使用した
+  cached: boolean;
+  // OCRを実行したプロバイダー
+  ocrProvider: OcrProviderType;
+}
+
+// 処理の進行状況を表すイベント
+export type ProcessingEventPayload =
+  | { type: 'upload-accepted'; fileName: string }
+  | { type: 'azure-status'; attempt: number; status: string; elapsedMs: number; timeoutMs: number }
+  | { type: 'cache-hit' }
+  | { type: 'ocr-fallback'; provider: OcrProviderType; reason: string }
+  | { type: 'pages-analyzed'; pageCount: number }
+  | { type: 'formatting-started' }
+  | { type: 'result-ready' }
+  | { type: 'failed'; error: string };
+
+export type ProcessingEvent = ProcessingEventPayload & { at: string };
+
+export interface ProcessingJob {
+  id: string;
+  stage: JobStage;
+  // 0〜100の進捗率
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+  events: ProcessingEvent[];
+  result?: ProcessingResult;
+  error?: string;
+}
+
+export type ProcessingJobUpdate = Partial<Pick<ProcessingJob, 'stage' | 'progress' | 'result' | 'error'>>;
+
+// ジョブストアの共通インターフェース
+export interface JobStore {
+  create(): Promise<ProcessingJob>;
+  get(id: string): Promise<ProcessingJob | null>;
+  update(id: string, update: ProcessingJobUpdate): Promise<ProcessingJob | null>;
+  // イベントを追加し、必要に応じて状態も更新する
+  appendEvent(id: string, event: ProcessingEventPayload, update?: ProcessingJobUpdate): Promise<ProcessingJob | null>;
+}
+
+// 完了したジョブを保持する時間
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function createJob(): ProcessingJob {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    stage: 'uploaded',
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+    events: [],
+  };
+}
+
+function applyUpdate(job: ProcessingJob, update: ProcessingJobUpdate, event?: ProcessingEventPayload): ProcessingJob {
+  const now = new Date().toISOString();
+  return {
+    ...job,
+    ...update,
+    events: event ? [...job.events, { ...event, at: now }] : job.events,
+    updatedAt: now,
+  };
+}
+
+function isExpired(job: ProcessingJob): boolean {
+  return Date.now() - new Date(job.updatedAt).getTime() > JOB_TTL_MS;
+}
+
+// メモリ上にジョブを保持するストア（サーバー再起動で消える）
+export function createInMemoryJobStore(): JobStore {
+  const jobs = new Map<string, ProcessingJob>();
+
+  // 期限切れのジョブを削除
+  const purgeExpired = () => {
+    for (const [id, job] of jobs) {
+      if (isExpired(job)) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  return {
+    async create() {
+      purgeExpired();
+      const job = createJob();
+      jobs.set(job.id, job);
+      return job;
+    },
+
+    async get(id) {
+      return jobs.get(id) || null;
+    },
+
+    async update(id, update) {
+      const job = jobs.get(id);
+      if (!job) {
+        return null;
+      }
+      const updated = applyUpdate(job, update);
+      jobs.set(id, updated);
+      return updated;
+    },
+
+    async appendEvent(id, event, update = {}) {
+      const job = jobs.get(id);
+      if (!job) {
+        return null;
+      }
+      const updated = applyUpdate(job, update, event);
+      jobs.set(id, updated);
+      return updated;
+    },
+  };
+}
+
+// ジョブをJSONファイルとして保存するストア（複数プロセス・再起動後も参照可能）
+export function createFileJobStore(directory: string): JobStore {
+  const jobPath = (id: string) => {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error('無効なジョブIDです');
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  const write = async (job: ProcessingJob) => {
+    await fs.mkdir(directory, { recursive: true });
+    // 書き込み途中のファイルを読まれないよう、一時ファイル経由で置き換える
+    const tempPath = `${jobPath(job.id)}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(job), 'utf-8');
+    await fs.rename(tempPath, jobPath(job.id));
+  };
+
+  // 期限切れのジョブのファイルを削除（ファイルは更新のたびに書き直すため、更新日時で判定する）
+  const purgeExpired = async () => {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(directory);
+    } catch {
+      return;
+    }
+
+    for (const fileName of fileNames.filter((name) => name.endsWith('.json') || name.endsWith('.json.tmp'))) {
+      const filePath = path.join(directory, fileName);
+      try {
+        const { mtimeMs } = await fs.stat(filePath);
+        if (Date.now() - mtimeMs > JOB_TTL_MS) {
+          await fs.rm(filePath, { force: true });
+        }
+      } catch {
+        // 他のプロセスが同時に削除した場合など
+      }
+    }
+  };
+
+  const store: JobStore = {
+    async create() {
+      await purgeExpired();
+      const job = createJob();
+      await write(job);
+      return job;
+    },
+
+    async get(id) {
+      try {
+        const job = JSON.parse(await fs.readFile(jobPath(id), 'utf-8')) as ProcessingJob;
+        if (isExpired(job)) {
+          await fs.rm(jobPath(id), { force: true });
+          return null;
+        }
+        return job;
+      } catch {
+        return null;
+      }
+    },
+
+    async update(id, update) {
+      const job = await store.get(id);
+      if (!job) {
+        return null;
+      }
+      const updated = applyUpdate(job, update);
+      await write(updated);
+      return updated;
+    },
+
+    async appendEvent(id, event, update = {}) {
+      const job = await store.get(id);
+      if (!job) {
+        return null;
+      }
+      const updated = applyUpdate(job, update, event);
+      await write(updated);
+      return updated;
+    },
+  };
+
+  return store;
+}
+
+const globalForJobStore = globalThis as unknown as { jobStore?: JobStore };
+
+// 環境変数に応じたジョブストアを取得（JOB_STORE=file の場合はファイルに保存）
+export function getJobStore(): JobStore {
+  if (!globalForJobStore.jobStore) {
+    globalForJobStore.jobStore = process.env.JOB_STORE === 'file'
+      ? createFileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), '.jobs'))
+      : createInMemoryJobStore();
+  }
+  return globalForJobStore.jobStore;
+}
+
+const globalForAbortControllers = globalThis as unknown as { jobAbortControllers?: Map<string, AbortController> };
+
+// 実行中のジョブをキャンセルするためのAbortController（このプロセス内で実行中のジョブのみ）
+function getAbortControllers(): Map<string, AbortController> {
+  if (!globalForAbortControllers.jobAbortControllers) {
+    globalForAbortControllers.jobAbortControllers = new Map();
+  }
+  return globalForAbortControllers.jobAbortControllers;
+}
+
+export function registerJobAbortController(id: string, controller: AbortController) {
+  getAbortControllers().set(id, controller);
+}
+
+export function unregisterJobAbortController(id: string) {
+  getAbortControllers().delete(id);
+}
+
+// 実行中のジョブをキャンセル（キャンセルできた場合はtrue）
+export function cancelJob(id: string): boolean {
+  const controller = getAbortControllers().get(id);
+  if (!controller) {
+    return false;
+  }
+  controller.abort();
+  return true;
+}
@@ -0,0 +1,361 @@
+// カルテ用テキストのテンプレート（プレースホルダー、条件付きセクション、リストの書式）の解析と出力
+//
+// 書式:
+//   {{フィールド名}}                 値を出力（リストは「、」区切り）
+//   {{フィールド名?}}                値が空の場合はその行ごと省略
+//   {{フィールド名|フィルター:引数}}  書式を指定（複数指定可）
+//     default:文字列  値が空の場合に出力する文字列
+//     bullet[:記号]   リストの各項目を1行ずつ記号付きで出力（デフォルト: ・）
+//     join[:区切り]   リストの各項目を区切り文字でつなげて出力（デフォルト: 、）
+//     prefix:文字列 / suffix:文字列  値が空でない場合に前後に付ける文字列
+//   {{#名前,名前}}…{{/名前,名前}}   いずれかの値が空でない場合のみ出力
+//   {{^名前}}…{{/名前}}             すべての値が空の場合のみ出力
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeField,
+  IntakeFieldKey,
+  MedicalIntakeRecord,
+  formatIntakeValue
+} from './intake-record';
+import { formatMedicationAlert, reviewMedications } from './medication-dictionary';
+
+// カルテ用テキストのテンプレート
+export interface KarteTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+// テンプレートで使用できる変数（構造化データのフィールドと診察メモ）
+export const KARTE_TEMPLATE_VARIABLES: Record<string, string> = {
+  ...INTAKE_FIELD_LABELS,
+  memo: '診察メモ（問診票から推奨される確認事項）',
+  medicationAlerts: '薬剤の相互作用・薬効の重複の警告',
+};
+
+const FILTERS = ['default', 'bullet', 'join', 'prefix', 'suffix'] as const;
+
+type TemplateFilter = { name: typeof FILTERS[number]; arg: string | undefined };
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string; omitLine: boolean; filters: TemplateFilter[] }
+  | { type: 'section'; tag: string; names: string[]; inverted: boolean; children: TemplateNode[] };
+
+type TemplateValue = string | string[];
+
+// 省略する行に付ける目印
+const OMIT_MARKER = '\u0000';
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([^}]*?)\s*\}\}/g;
+
+function checkVariable(name: string) {
+  if (!(name in KARTE_TEMPLATE_VARIABLES)) {
+    throw new Error(`不明な変数です: ${name}`);
+  }
+}
+
+// {{名前?|フィルター:引数}} の中身を解析
+function parseValueTag(content: string): TemplateNode {
+  const [rawName, ...rawFilters] = content.split('|');
+  const omitLine = rawName.trim().endsWith('?');
+  const name = rawName.trim().replace(/\?$/, '');
+  checkVariable(name);
+
+  const filters = rawFilters.map((raw): TemplateFilter => {
+    const separator = raw.indexOf(':');
+    const filterName = (separator === -1 ? raw : raw.slice(0, separator)).trim();
+    if (!(FILTERS as readonly string[]).includes(filterName)) {
+      throw new Error(`不明なフィルターです: ${filterName}（${FILTERS.join(' / ')} が使用できます）`);
+    }
+    return {
+      name: filterName as TemplateFilter['name'],
+      arg: separator === -1 ? undefined : raw.slice(separator + 1),
+    };
+  });
+
+  return { type: 'value', name, omitLine, filters };
+}
+
+// テンプレートを解析（構文が不正な場合はエラーを投げる）
+function parseKarteTemplate(body: string): TemplateNode[] {
+  // セクションのタグだけの行は、出力に空行が残らないように改行ごと取り除く
+  const source = body.replace(/^[ \t]*(\{\{\s*[#^/][^}]*\}\})[ \t]*\r?\n/gm, '$1');
+
+  const root: TemplateNode[] = [];
+  const stack: Array<Extract<TemplateNode, { type: 'section' }>> = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, content] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', text: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (kind === '#' || kind === '^') {
+      const names = content.split(',').map((name) => name.trim());
+      names.forEach(checkVariable);
+      const section = { type: 'section' as const, tag: content, names, inverted: kind === '^', children: [] };
+      current().push(section);
+      stack.push(section);
+    } else if (kind === '/') {
+      const open = stack.pop();
+      if (!open) {
+        throw new Error(`対応する開始タグがありません: {{/${content}}}`);
+      }
+      if (open.tag !== content) {
+        throw new Error(`終了タグが一致しません: {{/${content}}}（{{#${open.tag}}} の終了タグが必要です）`);
+      }
+    } else {
+      current().push(parseValueTag(content));
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`終了タグがありません: {{/${stack[stack.length - 1].tag}}}`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', text: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function isEmpty(value: TemplateValue | undefined): boolean {
+  return value === undefined || value.length === 0;
+}
+
+function toText(value: TemplateValue): string {
+  return Array.isArray(value) ? value.join('、') : value;
+}
+
+function applyFilters(value: TemplateValue, filters: TemplateFilter[]): string {
+  let current: TemplateValue = value;
+
+  for (const { name, arg } of filters) {
+    switch (name) {
+      case 'bullet':
+        current = (Array.isArray(current) ? current : current ? [current] : [])
+          .map((item) => `${arg ?? '・'}${item}`)
+          .join('\n');
+        break;
+      case 'join':
+        current = Array.isArray(current) ? current.join(arg ?? '、') : current;
+        break;
+      case 'prefix':
+        current = isEmpty(current) ? '' : `${arg ?? ''}${toText(current)}`;
+        break;
+      case 'suffix':
+        current = isEmpty(current) ? '' : `${toText(current)}${arg ?? ''}`;
+        break;
+      case 'default':
+        current = isEmpty(current) ? (arg ?? '') : current;
+        break;
+    }
+  }
+
+  return toText(current);
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, TemplateValue>): string {
+  return nodes.map((node) => {
+    if (node.type === 'text') {
+      return node.text;
+    }
+
+    if (node.type === 'section') {
+      const hasValue = node.names.some((name) => !isEmpty(values[name]));
+      return hasValue !== node.inverted ? renderNodes(node.children, values) : '';
+    }
+
+    const value = values[node.name] ?? '';
+    if (node.omitLine && isEmpty(value)) {
+      return OMIT_MARKER;
+    }
+    return applyFilters(value, node.filters);
+  }).join('');
+}
+
+// 問診票の内容から診察時に確認すべき事項を作成
+export function buildClinicalMemo(record: MedicalIntakeRecord): string[] {
+  const memo: string[] = [];
+
+  if (record.sex?.value === 'female' && record.age && record.age.value > 40) {
+    memo.push('40代以上の女性のため、婦人科系の検査も考慮');
+  }
+  if (record.chiefComplaints.length > 0) {
+    memo.push('訴えられている症状の詳細な確認が必要');
+  }
+  if (record.pastHistory.length > 0) {
+    memo.push('既往歴に関連する現在の症状との関連性を確認');
+  }
+  if (record.medications.length > 0) {
+    const { medications, alerts } = reviewMedications(record.medications.map((field) => field.value));
+    memo.push(alerts.length > 0
+      ? '服薬情報に相互作用・薬効の重複の警告あり（処方前に確認）'
+      : '現在の服薬状況と薬剤の相互作用の確認');
+    if (medications.some((medication) => !medication.entry)) {
+      memo.push('薬剤名を特定できない記載あり（お薬手帳で確認）');
+    }
+  }
+  if (record.allergies.length > 0) {
+    memo.push('アレルギー情報に基づく処方時の注意');
+  }
+
+  return memo;
+}
+
+// テンプレートに渡す変数を構造化データから作成
+function buildTemplateValues(record: MedicalIntakeRecord): Record<string, TemplateValue> {
+  const values: Record<string, TemplateValue> = {
+    memo: buildClinicalMemo(record),
+    medicationAlerts: reviewMedications(record.medications.map((field) => field.value)).alerts.map(formatMedicationAlert),
+  };
+
+  for (const key of Object.keys(INTAKE_FIELD_LABELS) as IntakeFieldKey[]) {
+    const field = record[key] as IntakeField<unknown> | IntakeField<unknown>[] | null;
+    values[key] = Array.isArray(field)
+      ? field.map((item) => formatIntakeValue(key, item))
+      : field ? formatIntakeValue(key, field) : '';
+  }
+
+  return values;
+}
+
+// 標準のカルテ形式
+export const STANDARD_KARTE_TEMPLATE: KarteTemplate = {
+  id: 'standard',
+  name: '標準',
+  body: `【基本情報】
+・氏名: {{patientName|default:不明}}
+・フリガナ: {{patientNameKana?}}
+・生年月日: {{birthDate?}}
+・年齢: {{age|suffix:歳|default:不明}}
+・性別: {{sex|default:不明}}
+
+【主訴・症状】
+{{chiefComplaints|bullet|default:特記事項なし}}
+
+【既往歴】
+{{pastHistory|bullet|default:特記事項なし}}
+
+【現病歴】
+{{presentIllness|default:情報なし}}
+
+【服薬情報】
+{{medications|bullet|default:特記事項なし}}
+{{medicationAlerts?|bullet:※}}
+
+【アレルギー】
+{{allergies|bullet|default:特記事項なし}}
+{{#pregnancy,smoking,alcohol}}
+
+【生活歴】
+・妊娠・授乳: {{pregnancy?}}
+・喫煙: {{smoking?}}
+・飲酒: {{alcohol?}}
+{{/pregnancy,smoking,alcohol}}
+{{#checkboxes}}
+
+【チェック項目】
+{{checkboxes|bullet}}
+{{/checkboxes}}
+{{#notes}}
+
+【その他】
+{{notes|bullet}}
+{{/notes}}
+
+【診察メモ】
+問診票の内容から、以下の点に注意して診察を行うことが推奨されます：
+{{memo?|bullet}}
+
+※この診察メモは問診票の情報のみに基づいており、実際の診察で詳細な確認が必要です。`,
+};
+
+// 組み込みのテンプレート
+export const KARTE_TEMPLATE_PRESETS: KarteTemplate[] = [
+  STANDARD_KARTE_TEMPLATE,
+  {
+    id: 'soap',
+    name: 'SOAP',
+    body: `S）
+{{patientName|default:氏名不明}} {{age|suffix:歳}} {{sex}}
+主訴: {{chiefComplaints|join|default:記載なし}}
+現病歴: {{presentIllness?}}
+既往歴: {{pastHistory?|join}}
+内服: {{medications?|join}}
+{{medicationAlerts?|bullet:※}}
+アレルギー: {{allergies|join|default:なし}}
+{{#pregnancy,smoking,alcohol}}
+生活歴: 妊娠・授乳 {{pregnancy|default:-}}／喫煙 {{smoking|default:-}}／飲酒 {{alcohol|default:-}}
+{{/pregnancy,smoking,alcohol}}
+{{#checkboxes}}
+{{checkboxes|bullet}}
+{{/checkboxes}}
+
+O）
+
+
+A）
+{{memo?|bullet}}
+
+P）
+`,
+  },
+  {
+    id: 'summary',
+    name: '問診要約',
+    body: `【問診要約】
+{{patientName|default:氏名不明}}（{{age|suffix:歳|default:年齢不明}}・{{sex|default:性別不明}}）
+主訴: {{chiefComplaints|join|default:記載なし}}
+経過: {{presentIllness?}}
+既往: {{pastHistory|join|default:なし}}／内服: {{medications|join|default:なし}}／アレルギー: {{allergies|join|default:なし}}
+{{#checkboxes}}
+チェック: {{checkboxes|join:／}}
+{{/checkboxes}}
+{{#notes}}
+その他: {{notes|join:／}}
+{{/notes}}`,
+  },
+];
+
+// テンプレートを構造化データに適用してカルテ用のテキストを作成
+export function renderKarteTemplate(body: string, record: MedicalIntakeRecord): string {
+  const output = renderNodes(parseKarteTemplate(body), buildTemplateValues(record));
+  return output
+    .split('\n')
+    .filter((line) => !line.includes(OMIT_MARKER))
+    .map((line) => line.trimEnd())
+    .join('\n');
+}
+
+// 構造化データからカルテ用のテキストを作成（テンプレートを省略した場合は標準の形式）
+export function renderKarteText(record: MedicalIntakeRecord, template: KarteTemplate = STANDARD_KARTE_TEMPLATE): string {
+  return renderKarteTemplate(template.body, record);
+}
+
+// 外部から受け取ったテンプレート（設定画面の入力など）を検証
+export function validateKarteTemplate(value: unknown): KarteTemplate {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('テンプレートはオブジェクトである必要があります');
+  }
+
+  const { id, name, body } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !id) {
+    throw new Error('id は空でない文字列である必要があります');
+  }
+  if (typeof name !== 'string' || !name) {
+    throw new Error('name は空でない文字列である必要があります');
+  }
+  if (typeof body !== 'string') {
+    throw new Error('body は文字列である必要があります');
+  }
+  parseKarteTemplate(body);
+
+  return { id, name, body };
+}
@@ -0,0 +1,205 @@
+// ローカルLLMサーバー（llama.cpp / Ollama / OpenAI互換）と通信するためのバックエンド
+
+export type LlmBackendType = 'openai' | 'ollama';
+
+export function isLlmBackendType(value: unknown): value is LlmBackendType {
+  return value === 'openai' || value === 'ollama';
+}
+
+// Gemma LLMとの統合のための設定
+export interface GemmaConfig {
+  modelPath: string;
+  baseUrl?: string;
+  model?: string;
+  backend?: LlmBackendType;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+// 生成時のオプション
+export interface LlmGenerateOptions {
+  // JSONモードで出力させる
+  json?: boolean;
+}
+
+// LLMバックエンドの共通インターフェース
+export interface LlmBackend {
+  generate(prompt: string, config: GemmaConfig, options?: LlmGenerateOptions): Promise<string>;
+}
+
+const DEFAULT_BASE_URLS: Record<LlmBackendType, string> = {
+  openai: 'http://localhost:8080',
+  ollama: 'http://localhost:11434',
+};
+
+// LLMサーバーの応答を待つ時間のデフォルト
+export const DEFAULT_LLM_TIMEOUT_MS = 60000;
+
+// 末尾のスラッシュを削除したベースURLを取得
+function resolveBaseUrl(config: GemmaConfig, backend: LlmBackendType): string {
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URLS[backend];
+  return baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+}
+
+// タイムアウト付きでLLMサーバーにPOSTする
+async function postJson(url: string, body: Record<string, unknown>, timeoutMs: number): Promise<Record<string, unknown>> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLMサーバーエラー (${response.status}): ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`LLMサーバーが${timeoutMs}ms以内に応答しませんでした`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// OpenAI互換API（llama.cpp server、LM Studio、vLLMなど）
+export const openAiCompatibleBackend: LlmBackend = {
+  async generate(prompt, config, options = {}) {
+    let baseUrl = resolveBaseUrl(config, 'openai');
+    if (!baseUrl.endsWith('/v1')) {
+      baseUrl += '/v1';
+    }
+
+    const result = await postJson(`${baseUrl}/chat/completions`, {
+      model: config.model || config.modelPath,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: config.temperature ?? 0.2,
+      max_tokens: config.maxTokens ?? 1000,
+      stream: false,
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+    }, config.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS);
+
+    const choices = (result.choices || []) as Array<Record<string, unknown>>;
+    const message = choices[0]?.message as Record<string, unknown> | undefined;
+    const content = message?.content;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('LLMサーバーから空の応答が返されました');
+    }
+
+    return content.trim();
+  },
+};
+
+// Ollama API
+export const ollamaBackend: LlmBackend = {
+  async generate(prompt, config, options = {}) {
+    const baseUrl = resolveBaseUrl(config, 'ollama');
+
+    const result = await postJson(`${baseUrl}/api/generate`, {
+      model: config.model || config.modelPath,
+      prompt,
+      stream: false,
+      ...(options.json ? { format: 'json' } : {}),
+      options: {
+        temperature: config.temperature ?? 0.2,
+        num_predict: config.maxTokens ?? 1000,
+      },
+    }, config.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS);
+
+    const content = result.response;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('LLMサーバーから空の応答が返されました');
+    }
+
+    return content.trim();
+  },
+};
+
+// 設定に応じたバックエンドを取得
+export function getLlmBackend(config: GemmaConfig): LlmBackend {
+  return config.backend === 'ollama' ? ollamaBackend : openAiCompatibleBackend;
+}
+
+// LLMサーバーが応答するかを確認
+export async function checkLlmServer(config: GemmaConfig): Promise<void> {
+  const backend = config.backend === 'ollama' ? 'ollama' : 'openai';
+  const baseUrl = resolveBaseUrl(config, backend);
+  const url = backend === 'ollama'
+    ? `${baseUrl}/api/tags`
+    : `${baseUrl.endsWith('/v1') ? baseUrl : `${baseUrl}/v1`}/models`;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 5000);
+
+  try {
+    const response = await fetch(url, { method: 'GET', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`LLMサーバーエラー (${response.status}): ${response.statusText}`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// LLMで生成し、サーバーに接続できない場合はルールベースの出力にフォールバック
+export async function generateWithFallback(
+  prompt: string,
+  config: GemmaConfig,
+  fallback: () => string
+): Promise<{ text: string; usedFallback: boolean }> {
+  try {
+    const text = await getLlmBackend(config).generate(prompt, config);
+    return { text, usedFallback: false };
+  } catch (error) {
+    console.warn('LLMサーバーに接続できないため、ルールベースの整形にフォールバックします:', error);
+    return { text: fallback(), usedFallback: true };
+  }
+}
+
+// カルテ整形用のデフォルトプロンプト
+export function buildKartePrompt(text: string): string {
+  return `
+あなたは医療アシスタントです。以下の問診票から抽出されたテキストを分析し、
+医師がカルテに記載するための整形された形式に変換してください。
+重要な医療情報を抽出し、構造化された形式で提示してください。
+
+抽出テキスト:
+${text}
+
+以下の形式で出力してください:
+【基本情報】
+・氏名: (患者名)
+・年齢: (年齢)
+・性別: (性別)
+
+【主訴・症状】
+(主訴や症状の箇条書き)
+
+【既往歴】
+(既往歴の箇条書き)
+
+【現病歴】
+(現病歴の要約)
+
+【服薬情報】
+(服薬情報の箇条書き)
+
+【アレルギー】
+(アレルギー情報)
+
+【診察メモ】
+(問診票から読み取れる重要ポイントや注意点)
+`;
+}
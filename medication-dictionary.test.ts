@@ -0,0 +1,100 @@
+// 医薬品マスタとの照合、相互作用の警告、カルテへの出力のテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findMedicationAlerts,
+  formatMedicationAlert,
+  matchMedication,
+  normalizeMedicationText,
+  reviewMedications,
+  splitMedicationText
+} from '../app/lib/medication-dictionary';
+import { extractIntakeFromLines, flagLowConfidenceFields, normalizeIntakeRecord } from '../app/lib/intake-record';
+import { renderKarteText } from '../app/lib/karte-template';
+
+describe('matchMedication', () => {
+  it('商品名から一般名・YJコード・薬効を求める', () => {
+    const medication = matchMedication('ノルバスク錠5mg');
+
+    assert.equal(medication.matchType, 'exact');
+    assert.equal(medication.matchedName, 'ノルバスク');
+    assert.equal(medication.entry?.genericName, 'アムロジピンベシル酸塩');
+    assert.equal(medication.entry?.yjCode, '2171022');
+    assert.equal(medication.entry?.drugClass, 'カルシウム拮抗薬');
+  });
+
+  it('全角英数字・ひらがな・剤形の表記の違いを吸収する', () => {
+    assert.equal(matchMedication('ﾛｷｿﾆﾝ ６０ｍｇ').entry?.genericName, 'ロキソプロフェンナトリウム水和物');
+    assert.equal(matchMedication('めとほるみん').entry?.genericName, 'メトホルミン塩酸塩');
+    assert.equal(matchMedication('アダラートCR錠20mg').entry?.genericName, 'ニフェジピン');
+  });
+
+  it('OCRの読み誤りを編集距離で許容する', () => {
+    const medication = matchMedication('アムロジビン5mg');
+
+    assert.equal(medication.matchType, 'fuzzy');
+    assert.equal(medication.entry?.genericName, 'アムロジピンベシル酸塩');
+    assert.equal(matchMedication('クレストー儿').entry?.genericName, 'ロスバスタチンカルシウム');
+  });
+
+  it('薬剤名がない記載は薬効のみ求め、該当しない記載はunknownにする', () => {
+    const category = matchMedication('血圧の薬');
+    const unknown = matchMedication('漢方薬');
+
+    assert.equal(category.matchType, 'category');
+    assert.equal(category.category, '降圧薬');
+    assert.equal(category.entry, null);
+    assert.equal(unknown.matchType, 'unknown');
+  });
+});
+
+describe('findMedicationAlerts', () => {
+  it('併用禁忌・併用注意・薬効の重複の順に警告する', () => {
+    const { alerts } = reviewMedications(['リポバス5mg、ロキソニン', 'クラリス200', 'セレコックス']);
+
+    assert.deepEqual(alerts.map((alert) => alert.severity), ['contraindicated', 'duplicate']);
+    assert.deepEqual(alerts[0].drugs, ['シンバスタチン', 'クラリスロマイシン']);
+    assert.deepEqual(alerts[1].drugs, ['ロキソプロフェンナトリウム水和物', 'セレコキシブ']);
+    assert.match(formatMedicationAlert(alerts[0]), /^【併用禁忌】シンバスタチン × クラリスロマイシン: /);
+  });
+
+  it('薬効で指定した組み合わせにも一致し、同じ薬剤の重複は警告しない', () => {
+    const medications = ['ワーファリン1mg', 'ロキソニン', 'ワルファリンカリウム'].map((text) => matchMedication(text));
+    const alerts = findMedicationAlerts(medications);
+
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].severity, 'caution');
+    assert.deepEqual(alerts[0].drugs, ['ワルファリンカリウム', 'ロキソプロフェンナトリウム水和物']);
+  });
+});
+
+describe('構造化データ・カルテへの反映', () => {
+  it('1行に書かれた複数の薬剤を分割して一般名にする', () => {
+    assert.deepEqual(splitMedicationText('アムロジピン5mg、ロキソニン／ガスター'), ['アムロジピン5mg', 'ロキソニン', 'ガスター']);
+    assert.equal(normalizeMedicationText('ノルバスク、ガスター'), 'アムロジピンベシル酸塩、ファモチジン');
+    assert.equal(normalizeMedicationText('ノルバスク、血圧の薬'), 'アムロジピンベシル酸塩、血圧の薬');
+  });
+
+  it('辞書にない薬剤は、信頼度が高ければ要確認にしない', () => {
+    const record = flagLowConfidenceFields(normalizeIntakeRecord(extractIntakeFromLines([
+      { content: '服薬: 血圧の薬、アムロジピンOD錠「サワイ」', page: 1, confidence: 0.98 },
+      { content: 'お薬: 葛根湯', page: 1, confidence: 0.97 },
+    ])), 0.8);
+
+    assert.deepEqual(record.medications.map((field) => field.needsReview), [false, false]);
+    assert.equal(record.medications[1].normalized, '葛根湯');
+  });
+
+  it('服薬情報に一般名と相互作用の警告を出力する', () => {
+    const record = normalizeIntakeRecord(extractIntakeFromLines([
+      { content: '服薬: リポバス5mg', page: 1 },
+      { content: 'お薬: クラリス200mg', page: 1 },
+    ]));
+    const karte = renderKarteText(record);
+
+    assert.equal(record.medications[0].normalized, 'シンバスタチン');
+    assert.match(karte, /・リポバス5mg（シンバスタチン）\n・クラリス200mg（クラリスロマイシン）\n※【併用禁忌】シンバスタチン × クラリスロマイシン/);
+    assert.match(karte, /服薬情報に相互作用・薬効の重複の警告あり/);
+  });
+});
@@ -0,0 +1,220 @@
+// 問診票に記入された薬剤名を医薬品マスタと照合し、相互作用・薬効の重複を確認する関数
+// 手書きのOCRの誤りを許容するため、完全に一致しない場合は編集距離で近い名称を探す
+
+import {
+  DRUG_CATEGORY_PHRASES,
+  DRUG_INTERACTIONS,
+  DRUG_MASTER,
+  DrugInteractionRule,
+  DrugMasterEntry,
+  InteractionSeverity,
+  InteractionTarget
+} from './drug-master';
+
+// 照合した薬剤
+export interface MatchedMedication {
+  // 記入された表記
+  text: string;
+  entry: DrugMasterEntry | null;
+  // 一致した名称（商品名・一般名・別名）
+  matchedName: string | null;
+  // exact: 名称を含む、fuzzy: OCRの誤りを許容して一致、category: 薬効のみ記載、unknown: 照合できない
+  matchType: 'exact' | 'fuzzy' | 'category' | 'unknown';
+  // 薬剤名がなく薬効のみ分かる場合の分類（例: 降圧薬）
+  category: string | null;
+}
+
+// 相互作用・重複の警告
+export interface MedicationAlert {
+  severity: InteractionSeverity | 'duplicate';
+  // 対象の薬剤の一般名
+  drugs: string[];
+  description: string;
+}
+
+// 服薬情報の照合結果
+export interface MedicationReview {
+  medications: MatchedMedication[];
+  alerts: MedicationAlert[];
+}
+
+export const MEDICATION_ALERT_LABELS: Record<MedicationAlert['severity'], string> = {
+  contraindicated: '併用禁忌',
+  caution: '併用注意',
+  duplicate: '薬効の重複',
+};
+
+// 照合に使う名称の索引（長い名称から順に照合する）
+interface DrugNameKey {
+  key: string;
+  name: string;
+  entry: DrugMasterEntry;
+}
+
+// 名称の一部として照合する最小の文字数
+const MIN_MATCH_LENGTH = 3;
+
+// 用量・剤形・括弧書き（メーカー名など）
+const DOSAGE_PATTERN = /\d+(\.\d+)?\s*(mg|μg|mcg|g|ml|単位|錠|カプセル|包|T|C)?/gi;
+const FORM_PATTERN = /(錠|カプセル|細粒|顆粒|散|内用液|シロップ|ドライシロップ|OD|CR|テープ|軟膏|クリーム|ゲル|点眼液|注|ミニ)/g;
+const BRACKET_PATTERN = /[「『（(【［[][^」』）)】］\]]*[」』）)】］\]]/g;
+
+function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, (char) => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
+
+// 照合用に名称を正規化（全角英数字を半角、ひらがなをカタカナにし、用量・剤形・空白を除く）
+export function normalizeDrugName(text: string): string {
+  return toKatakana(text.normalize('NFKC'))
+    .replace(BRACKET_PATTERN, '')
+    .replace(DOSAGE_PATTERN, '')
+    .replace(FORM_PATTERN, '')
+    .replace(/[\s・･]/g, '')
+    .toUpperCase();
+}
+
+function buildNameKeys(master: DrugMasterEntry[]): DrugNameKey[] {
+  return master
+    .flatMap((entry) => [entry.genericName, ...entry.aliases, ...entry.brandNames].map((name) => ({
+      key: normalizeDrugName(name),
+      name,
+      entry,
+    })))
+    .filter(({ key }) => key.length >= MIN_MATCH_LENGTH)
+    .sort((a, b) => b.key.length - a.key.length);
+}
+
+const DEFAULT_NAME_KEYS = buildNameKeys(DRUG_MASTER);
+
+// 編集距離（挿入・削除・置換をそれぞれ1とする）
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// 許容する編集距離（短い名称ほど誤一致しやすいため厳しくする）
+function allowedDistance(length: number): number {
+  return length <= 4 ? 1 : Math.min(2, Math.floor(length / 3));
+}
+
+// 「アムロジピン5mg、ロキソニン」のように1行に複数書かれた薬剤を分割
+export function splitMedicationText(text: string): string[] {
+  return text
+    .split(/[、，,／/\n]|\s{2,}/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// 1つの薬剤の記載を医薬品マスタと照合
+export function matchMedication(text: string, master: DrugMasterEntry[] = DRUG_MASTER): MatchedMedication {
+  const keys = master === DRUG_MASTER ? DEFAULT_NAME_KEYS : buildNameKeys(master);
+  const normalized = normalizeDrugName(text);
+  const result = { text, category: null };
+
+  const exact = keys.find(({ key }) => normalized.includes(key));
+  if (exact) {
+    return { ...result, entry: exact.entry, matchedName: exact.name, matchType: 'exact' };
+  }
+
+  // カタカナ・英字の連続を薬剤名の候補とし、近い名称を探す
+  const tokens = normalized.match(/[ァ-ヴーA-Z][ァ-ヴーA-Z0-9-]*/g) || [];
+  let best: { key: DrugNameKey; distance: number } | null = null;
+  for (const token of tokens.filter((t) => t.length >= MIN_MATCH_LENGTH)) {
+    for (const key of keys) {
+      const distance = Math.min(
+        editDistance(token, key.key),
+        token.length > key.key.length ? editDistance(token.slice(0, key.key.length), key.key) : Infinity
+      );
+      if (distance <= allowedDistance(key.key.length) && (!best || distance < best.distance)) {
+        best = { key, distance };
+      }
+    }
+  }
+  if (best) {
+    return { ...result, entry: best.key.entry, matchedName: best.key.name, matchType: 'fuzzy' };
+  }
+
+  const category = DRUG_CATEGORY_PHRASES.find(({ pattern }) => pattern.test(text));
+  if (category) {
+    return { ...result, entry: null, matchedName: null, matchType: 'category', category: category.label };
+  }
+
+  return { ...result, entry: null, matchedName: null, matchType: 'unknown' };
+}
+
+function matchesTarget(entry: DrugMasterEntry, target: InteractionTarget): boolean {
+  return 'genericName' in target ? entry.genericName === target.genericName : entry.drugClass === target.drugClass;
+}
+
+// 照合できた薬剤の組み合わせから、相互作用と同じ薬効の重複を探す（併用禁忌を先に並べる）
+export function findMedicationAlerts(
+  medications: MatchedMedication[],
+  rules: DrugInteractionRule[] = DRUG_INTERACTIONS
+): MedicationAlert[] {
+  const entries = medications
+    .map((medication) => medication.entry)
+    .filter((entry, index, all): entry is DrugMasterEntry =>
+      entry !== null && all.findIndex((other) => other?.genericName === entry.genericName) === index
+    );
+  const alerts: MedicationAlert[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [first, second] = [entries[i], entries[j]];
+      const rule = rules.find((r) =>
+        (matchesTarget(first, r.a) && matchesTarget(second, r.b)) || (matchesTarget(first, r.b) && matchesTarget(second, r.a))
+      );
+      if (rule) {
+        alerts.push({ severity: rule.severity, drugs: [first.genericName, second.genericName], description: rule.description });
+      }
+    }
+  }
+
+  const byClass = new Map<string, string[]>();
+  for (const entry of entries) {
+    byClass.set(entry.drugClass, [...(byClass.get(entry.drugClass) || []), entry.genericName]);
+  }
+  for (const [drugClass, drugs] of byClass) {
+    if (drugs.length > 1) {
+      alerts.push({ severity: 'duplicate', drugs, description: `同じ薬効（${drugClass}）の薬が複数あります` });
+    }
+  }
+
+  const order: MedicationAlert['severity'][] = ['contraindicated', 'caution', 'duplicate'];
+  return alerts.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+}
+
+// 服薬情報の記載（複数の項目）を照合し、警告をまとめる
+export function reviewMedications(texts: string[]): MedicationReview {
+  const medications = texts.flatMap(splitMedicationText).map((text) => matchMedication(text));
+  return { medications, alerts: findMedicationAlerts(medications) };
+}
+
+// 服薬情報の1項目を一般名にする
+// 辞書にない薬剤（後発品・市販薬・「血圧の薬」など）は正規化の失敗ではないため、書かれたまま残す
+// （照合できなかった薬剤はreviewMedicationsの結果でカルテに示す）
+export function normalizeMedicationText(text: string): string | null {
+  const medications = splitMedicationText(text).map((part) => matchMedication(part));
+  if (medications.length === 0) {
+    return null;
+  }
+  return medications.map((medication) => medication.entry?.genericName ?? medication.text).join('、');
+}
+
+// 警告を「【併用禁忌】シンバスタチン × クラリスロマイシン: …」の形式で表示
+export function formatMedicationAlert(alert: MedicationAlert): string {
+  return `【${MEDICATION_ALERT_LABELS[alert.severity]}】${alert.drugs.join(' × ')}: ${alert.description}`;
+}
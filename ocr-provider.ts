@@ -0,0 +1,53 @@
+// OCRを実行するプロバイダーの共通インターフェース
+// どのプロバイダーもAzure Document Intelligenceの分析結果と同じ形式に変換し、
+// extractStructuredDataで正規化したページ・行・表・キーと値のペアを返す
+
+import { extractStructuredData, extractTextFromAnalysisResult } from './azure-utils';
+import type { PollOptions } from './azure-poller';
+
+export type OcrProviderType = 'azure' | 'tesseract';
+
+// OCRするファイル
+export interface OcrInput {
+  bytes: Buffer;
+  fileName: string;
+  // 先頭のバイト列から判別した形式
+  fileType: string;
+  // 分析するページ（例: 1-3,5、省略時はすべて）
+  pages?: string;
+}
+
+export interface OcrOptions {
+  signal?: AbortSignal;
+  // 分析の完了を待機する合計時間
+  timeoutMs?: number;
+  // キャッシュを使わずに分析し直す
+  forceRefresh?: boolean;
+  onPoll?: PollOptions['onPoll'];
+}
+
+export interface OcrResult {
+  content: string;
+  structuredData: Record<string, unknown> | null;
+  // キャッシュした分析結果を使用した
+  cached: boolean;
+}
+
+export interface OcrProvider {
+  type: OcrProviderType;
+  // 失敗した場合は日本語のメッセージでエラーを投げる
+  analyze(input: OcrInput, options?: OcrOptions): Promise<OcrResult>;
+}
+
+export function isOcrProviderType(value: unknown): value is OcrProviderType {
+  return value === 'azure' || value === 'tesseract';
+}
+
+// Azure形式の分析結果（{ analyzeResult: { pages, tables, keyValuePairs } }）を共通の結果にする
+export function toOcrResult(analysisResult: Record<string, unknown>, cached: boolean): OcrResult {
+  return {
+    content: extractTextFromAnalysisResult(analysisResult),
+    structuredData: extractStructuredData(analysisResult),
+    cached,
+  };
+}
@@ -0,0 +1,29 @@
+// Azureのpagesパラメータの範囲の文字列を扱う関数のテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatPageRange, parsePageRange } from '../app/lib/page-range';
+
+describe('parsePageRange', () => {
+  it('範囲と個別のページを重複なく昇順に展開する', () => {
+    assert.deepEqual(parsePageRange('5, 1-3,2'), [1, 2, 3, 5]);
+    assert.equal(formatPageRange(parsePageRange('5,1-3,4')), '1-5');
+  });
+
+  it('形式が不正な範囲はエラーにする', () => {
+    assert.throws(() => parsePageRange('3-1'), /ページの範囲が不正です: 3-1/);
+    assert.throws(() => parsePageRange('1,,2'), /ページの指定が不正です: \(空\)/);
+  });
+
+  it('巨大な範囲は展開せずに上限のエラーにする', () => {
+    const startedAt = Date.now();
+
+    assert.throws(() => parsePageRange('1-100000000', 100), /分析するページ数が上限（100ページ）を超えています: 1-100000000/);
+    assert.throws(() => parsePageRange('1-60,61-120', 100), /分析するページ数が上限（100ページ）を超えています/);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it('上限以内であれば展開する', () => {
+    assert.equal(parsePageRange('1-100', 100).length, 100);
+  });
+});
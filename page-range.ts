@@ -0,0 +1,44 @@
+// Azure Document Intelligenceのpagesパラメータ（例: 1-3,5）を扱うユーティリティ関数
+
+// ページ番号の配列を範囲の文字列にする（連続するページはまとめる）
+export function formatPageRange(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(sorted[i] === start ? String(start) : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(',');
+}
+
+// 範囲の文字列を検証し、ページ番号の配列にする
+// ページ数がmaxPagesを超える場合は、すべてのページを展開する前にエラーにする
+export function parsePageRange(range: string, maxPages = Infinity): number[] {
+  const pages = new Set<number>();
+
+  for (const part of range.split(',').map((p) => p.trim())) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new Error(`ページの指定が不正です: ${part || '(空)'}`);
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end < start) {
+      throw new Error(`ページの範囲が不正です: ${part}`);
+    }
+    if (end - start + 1 > maxPages) {
+      throw new Error(`分析するページ数が上限（${maxPages}ページ）を超えています: ${part}`);
+    }
+
+    for (let page = start; page <= end; page++) pages.add(page);
+    if (pages.size > maxPages) {
+      throw new Error(`分析するページ数が上限（${maxPages}ページ）を超えています`);
+    }
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
@@ -2,31 +2,270 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useDocumentProcessing } from './hooks/useDocumentProcessing';
+import { useFormTemplates } from './hooks/useFormTemplates';
+import { useKarteTemplates } from './hooks/useKarteTemplates';
+import { useRedFlagRules } from './hooks/useRedFlagRules';
+import { useProcessingHistory } from './hooks/useProcessingHistory';
+import { BatchItem, DEFAULT_BATCH_CONCURRENCY, useBatchProcessing } from './hooks/useBatchProcessing';
+import type { DocumentProcessingResult, ProcessingSettings } from './hooks/useDocumentProcessing';
+import { DEFAULT_LLM_TIMEOUT_MS, LlmBackendType } from './lib/llm-backend';
+import type { OcrProviderType } from './api/ocr-provider';
+import {
+  AZURE_API_VERSIONS,
+  AZURE_FEATURE_LABELS,
+  AzureAnalyzeFeature,
+  AzureApiVersion,
+  AzureOutputContentFormat,
+  DEFAULT_AZURE_ANALYZE_SETTINGS,
+  getDefaultAzureFeatures,
+  isAzureApiVersion
+} from './api/azure-api-versions';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  IntakeField,
+  MedicalIntakeRecord,
+  findIntakeFieldsForKarteLine,
+  flagLowConfidenceFields
+} from './lib/intake-record';
+import { KARTE_TEMPLATE_PRESETS, STANDARD_KARTE_TEMPLATE, renderKarteText } from './lib/karte-template';
+import { buildFhirBundle } from './lib/fhir-export';
+import { findRedFlags } from './lib/red-flags';
+import { extractIntakeRecordWithTemplate } from './lib/form-template';
+import {
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  HistoryEntry,
+  createThumbnail,
+  getHistoryPatientName
+} from './lib/history-store';
+import DocumentViewer from './components/DocumentViewer';
+import ReviewQueue from './components/ReviewQueue';
+import FormTemplateEditor from './components/FormTemplateEditor';
+import KarteTemplateEditor from './components/KarteTemplateEditor';
+import RedFlagBanner from './components/RedFlagBanner';
+import RedFlagRuleEditor from './components/RedFlagRuleEditor';
+import TableView from './components/TableView';
+import HistoryPanel from './components/HistoryPanel';
+import ImageEditor from './components/ImageEditor';
+import PdfPageSelector from './components/PdfPageSelector';
+import { getPdfPageCount, renderPdfPage } from './lib/pdf-render';
+import { formatPageRange } from './lib/page-range';
+import { buildBatchCsv, buildBatchJson } from './lib/batch-export';
+import BatchPanel from './components/BatchPanel';
 import Image from 'next/image';
 
+// ジョブの処理段階の表示名
+const JOB_STAGE_LABELS = {
+  'uploaded': 'アップロード完了',
+  'ocr-running': 'OCR処理中',
+  'formatting': '整形中',
+  'done': '完了',
+  'failed': '失敗',
+};
+
+// OCRプロバイダーの表示名
+const OCR_PROVIDER_LABELS: Record<OcrProviderType, string> = {
+  'azure': 'Azure Document Intelligence',
+  'tesseract': 'Tesseract（オフライン）',
+};
+
+// 進捗表示の各ステップ
+const PROGRESS_STEPS = [
+  { type: 'upload-accepted', label: 'アップロード受付' },
+  { type: 'azure-status', label: 'Azureで分析' },
+  { type: 'pages-analyzed', label: 'ページ解析' },
+  { type: 'formatting-started', label: 'カルテ用に整形' },
+  { type: 'result-ready', label: '結果の準備完了' },
+] as const;
+
+// 設定欄の入力IDと設定項目の対応
+const SETTING_INPUT_KEYS: Record<string, string> = {
+  'ocr-provider': 'ocrProvider',
+  'azure-api-key': 'azureApiKey',
+  'azure-endpoint': 'azureEndpoint',
+  'azure-model-id': 'modelId',
+  'azure-api-version': 'azureApiVersion',
+  'azure-output-content-format': 'azureOutputContentFormat',
+  'gemma-model-path': 'gemmaModelPath',
+  'gemma-base-url': 'gemmaBaseUrl',
+  'gemma-backend': 'gemmaBackend',
+  'gemma-timeout-seconds': 'gemmaTimeoutSeconds',
+  'confidence-threshold': 'confidenceThreshold',
+  'form-template': 'formTemplateId',
+  'karte-template': 'karteTemplateId',
+  'history-retention-days': 'historyRetentionDays',
+  'batch-concurrency': 'batchConcurrency',
+};
+
+// アップロードできるファイルの形式
+function isSupportedFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.type.startsWith('image/');
+}
+
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
+  // 補正前の画像（補正をやり直すときは常にこちらから作り直す）
+  const [originalImage, setOriginalImage] = useState<File | null>(null);
+  const [isEditingImage, setIsEditingImage] = useState(false);
+  // PDFのページ数と、分析するページ
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
   const [apiKeys, setApiKeys] = useState({
     azureApiKey: '',
     azureEndpoint: '',
     modelId: 'prebuilt-layout', // デフォルトモデルとしてprebuilt-layoutを設定
-    gemmaModelPath: ''
+    azureApiVersion: DEFAULT_AZURE_ANALYZE_SETTINGS.apiVersion as AzureApiVersion,
+    // 有効にするAzureの追加機能（カンマ区切り）
+    azureFeatures: DEFAULT_AZURE_ANALYZE_SETTINGS.features.join(','),
+    azureOutputContentFormat: DEFAULT_AZURE_ANALYZE_SETTINGS.outputContentFormat as AzureOutputContentFormat,
+    gemmaModelPath: '',
+    gemmaBaseUrl: '',
+    gemmaBackend: 'openai' as LlmBackendType,
+    gemmaTimeoutSeconds: String(DEFAULT_LLM_TIMEOUT_MS / 1000),
+    confidenceThreshold: String(DEFAULT_CONFIDENCE_THRESHOLD),
+    formTemplateId: '',
+    karteTemplateId: STANDARD_KARTE_TEMPLATE.id,
+    historyRetentionDays: String(DEFAULT_HISTORY_RETENTION_DAYS),
+    batchConcurrency: String(DEFAULT_BATCH_CONCURRENCY),
+    ocrProvider: 'azure' as OcrProviderType,
+    // Azureで分析できなかった場合にTesseractで分析し直す（'true' / 'false'）
+    ocrFallback: 'true'
   });
+  // 選択したOCRプロバイダーで処理を開始できるか（TesseractのみならAzureの設定は不要）
+  const isOcrConfigured = apiKeys.ocrProvider === 'tesseract' || (!!apiKeys.azureApiKey && !!apiKeys.azureEndpoint);
+  // 選択したAPIバージョンで使用できる追加機能・出力形式
+  const azureVersionSpec = AZURE_API_VERSIONS[apiKeys.azureApiVersion];
+  const enabledAzureFeatures = apiKeys.azureFeatures
+    .split(',')
+    .filter((feature): feature is AzureAnalyzeFeature => azureVersionSpec.features.includes(feature as AzureAnalyzeFeature));
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [highlightedFields, setHighlightedFields] = useState<IntakeField<unknown>[]>([]);
+  // 要確認の項目を修正した構造化データ
+  const [reviewedRecord, setReviewedRecord] = useState<MedicalIntakeRecord | null>(null);
+  // キャッシュを使わずにOCRを再実行する
+  const [forceOcr, setForceOcr] = useState(false);
   
   // ドキュメント処理フックを使用
-  const { isProcessing, result, processDocument } = useDocumentProcessing();
+  const { isProcessing, result, job, events, processDocument, restoreResult, cancelProcessing } = useDocumentProcessing();
+  
+  // 複数の問診票の一括処理
+  const batch = useBatchProcessing();
+  
+  // ブラウザ内に保存した処理履歴
+  const history = useProcessingHistory();
+  const { purgeExpired } = history;
+  
+  // 医療機関ごとの問診票テンプレート
+  const { templates, saveTemplate, deleteTemplate } = useFormTemplates();
+  
+  // カルテのテンプレート（組み込みのプリセットとユーザーが作成したもの）
+  const { templates: customKarteTemplates, saveTemplate: saveKarteTemplate, deleteTemplate: deleteKarteTemplate } = useKarteTemplates();
+  const karteTemplates = [...KARTE_TEMPLATE_PRESETS, ...customKarteTemplates];
+  const karteTemplate = karteTemplates.find(t => t.id === apiKeys.karteTemplateId) || STANDARD_KARTE_TEMPLATE;
+  
+  // 見落としてはならない記載の検出ルール
+  const { rules: redFlagRules, saveRules: saveRedFlagRules, resetRules: resetRedFlagRules } = useRedFlagRules();
+  
+  // OCR結果のページ情報（ビューアで使用）
+  const pages = (result?.structuredData?.pages || []) as Array<Record<string, unknown>>;
+  
+  // ページごとのOCR結果（PDFの縮小画像の横に表示）
+  const pageTexts = Object.fromEntries(pages.map((page) => [
+    Number(page.pageNumber),
+    ((page.lines || []) as Array<Record<string, unknown>>).map((line) => String(line.content)).join('\n'),
+  ]));
+  
+  // PDFを選択したら1ページ目をプレビューに表示し、すべてのページを分析対象にする
+  useEffect(() => {
+    if (file?.type !== 'application/pdf') {
+      setPdfPageCount(0);
+      setSelectedPages([]);
+      return;
+    }
+    
+    let cancelled = false;
+    setPreview(null);
+    getPdfPageCount(file)
+      .then(async (count) => {
+        if (cancelled) return;
+        setPdfPageCount(count);
+        setSelectedPages(Array.from({ length: count }, (_, i) => i + 1));
+        const firstPage = await renderPdfPage(file, 1, 384);
+        if (!cancelled) setPreview(firstPage.dataUrl);
+      })
+      .catch((error) => {
+        console.error('PDFを読み込めませんでした:', error);
+        if (!cancelled) alert('PDFを読み込めませんでした。ファイルが壊れていないか確認してください');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+  
+  // 新しい結果が表示されたら強調表示と修正内容をリセット
+  useEffect(() => {
+    setHighlightedFields([]);
+    setReviewedRecord(result?.intakeRecord || null);
+  }, [result]);
+  
+  // 修正内容を反映し、選択したテンプレートで出力したカルテ用テキスト（OCRは再実行しない）
+  let karteText = result?.formattedContent;
+  let karteTemplateError: string | null = null;
+  if (reviewedRecord) {
+    try {
+      karteText = renderKarteText(reviewedRecord, karteTemplate);
+    } catch (error) {
+      karteTemplateError = error instanceof Error ? error.message : String(error);
+      karteText = renderKarteText(reviewedRecord);
+    }
+  }
+  
+  // 修正内容とOCRの各行から検出した、見落としてはならない記載
+  const redFlags = result && !result.error
+    ? findRedFlags(reviewedRecord, result.content || '', result.structuredData || null, redFlagRules)
+    : [];
+
+  // 画像を選択したら、アップロード前の補正画面を表示する
+  const startImageEditing = (selectedFile: File | null) => {
+    const isImage = !!selectedFile?.type.startsWith('image/');
+    setOriginalImage(isImage ? selectedFile : null);
+    setIsEditingImage(isImage);
+  };
 
+  // 補正した画像を元のファイルの代わりに送信する
+  const applyEditedImage = (editedFile: File) => {
+    setFile(editedFile);
+    setIsEditingImage(false);
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setPreview(event.target?.result as string);
+    };
+    reader.readAsDataURL(editedFile);
+  };
+
+  // 複数のファイルを選択した場合は一括処理の一覧に追加する
+  const addBatchFiles = (files: File[]) => {
+    const supported = files.filter(isSupportedFile);
+    if (supported.length < files.length) {
+      alert('PDFまたは画像以外のファイルは追加されませんでした');
+    }
+    batch.addFiles(supported);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+  
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if ((e.target.files?.length || 0) > 1) {
+      addBatchFiles(Array.from(e.target.files || []));
+      return;
+    }
+    
     const selectedFile = e.target.files?.[0] || null;
     setFile(selectedFile);
+    startImageEditing(selectedFile);
 
     if (selectedFile) {
-      // PDFまたは画像ファイルのプレビュー処理
-      if (selectedFile.type === 'application/pdf') {
-        setPreview('/pdf-icon.png'); // PDFアイコンを表示（後で作成）
-      } else if (selectedFile.type.startsWith('image/')) {
+      // 画像ファイルのプレビュー処理（PDFは1ページ目を描画して表示）
+      if (selectedFile.type.startsWith('image/')) {
         const reader = new FileReader();
         reader.onload = (event) => {
           setPreview(event.target?.result as string);
@@ -47,13 +286,17 @@ export default function Home() {
     e.preventDefault();
     e.stopPropagation();
     
+    if (e.dataTransfer.files.length > 1) {
+      addBatchFiles(Array.from(e.dataTransfer.files));
+      return;
+    }
+    
     const droppedFile = e.dataTransfer.files?.[0] || null;
-    if (droppedFile && (droppedFile.type === 'application/pdf' || droppedFile.type.startsWith('image/'))) {
+    if (droppedFile && isSupportedFile(droppedFile)) {
       setFile(droppedFile);
+      startImageEditing(droppedFile);
       
-      if (droppedFile.type === 'application/pdf') {
-        setPreview('/pdf-icon.png'); // PDFアイコンを表示
-      } else if (droppedFile.type.startsWith('image/')) {
+      if (droppedFile.type.startsWith('image/')) {
         const reader = new FileReader();
         reader.onload = (event) => {
           setPreview(event.target?.result as string);
@@ -70,30 +313,150 @@ export default function Home() {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { id, value } = e.target;
+    const key = SETTING_INPUT_KEYS[id];
+    if (!key) return;
     setApiKeys(prev => ({
       ...prev,
-      [id === 'azure-api-key' ? 'azureApiKey' : 
-       id === 'azure-endpoint' ? 'azureEndpoint' : 
-       id === 'azure-model-id' ? 'modelId' : 'gemmaModelPath']: value
+      [key]: value,
+      // モデルを変えた場合、追加機能はそのモデルの既定に戻す（prebuilt-readなどにはkeyValuePairsを送らない）
+      ...(key === 'modelId' ? { azureFeatures: getDefaultAzureFeatures(value.trim() || 'prebuilt-layout').join(',') } : {})
     }));
   };
 
   const handleProcessFile = async () => {
-    if (!file || !apiKeys.azureApiKey || !apiKeys.azureEndpoint) {
+    if (!file || !isOcrConfigured) {
       alert('ファイルとAzure APIキー、エンドポイントを設定してください');
       return;
     }
     
+    if (pdfPageCount > 0 && selectedPages.length === 0) {
+      alert('分析するページを選択してください');
+      return;
+    }
+    
     // ドキュメント処理フックを使用してファイルを処理
-    await processDocument(
-      file,
-      apiKeys.azureApiKey,
-      apiKeys.azureEndpoint,
-      apiKeys.modelId,
-      apiKeys.gemmaModelPath || undefined
+    const processed = await processDocument(file, {
+      ...buildProcessingSettings(),
+      forceOcr,
+      // 一部のページを選択した場合のみAzureに範囲を指定する
+      pages: selectedPages.length < pdfPageCount ? formatPageRange(selectedPages) : undefined
+    });
+    setForceOcr(false);
+    
+    await saveToHistory(file, processed);
+  };
+  
+  // 単体の処理と一括処理で共通の設定
+  const buildProcessingSettings = (): ProcessingSettings => ({
+    azureApiKey: apiKeys.azureApiKey,
+    azureEndpoint: apiKeys.azureEndpoint,
+    modelId: apiKeys.modelId,
+    azureApiVersion: apiKeys.azureApiVersion,
+    azureFeatures: enabledAzureFeatures,
+    // Markdown出力に対応していないバージョンではテキストで出力する
+    azureOutputContentFormat: azureVersionSpec.markdown ? apiKeys.azureOutputContentFormat : 'text',
+    gemmaModelPath: apiKeys.gemmaModelPath || undefined,
+    gemmaModel: apiKeys.gemmaModelPath || undefined,
+    gemmaTimeoutMs: (Number(apiKeys.gemmaTimeoutSeconds) || DEFAULT_LLM_TIMEOUT_MS / 1000) * 1000,
+    gemmaBaseUrl: apiKeys.gemmaBaseUrl || undefined,
+    gemmaBackend: apiKeys.gemmaBackend,
+    confidenceThreshold: Number(apiKeys.confidenceThreshold) || DEFAULT_CONFIDENCE_THRESHOLD,
+    formTemplate: templates.find(t => t.id === apiKeys.formTemplateId) || null,
+    ocrProvider: apiKeys.ocrProvider,
+    ocrFallback: apiKeys.ocrFallback === 'true'
+  });
+  
+  // 処理結果を履歴に保存
+  const saveToHistory = async (processedFile: File, processed: DocumentProcessingResult) => {
+    if (!processed.intakeRecord || !processed.content) return;
+    
+    await history.addEntry({
+      fileName: processedFile.name,
+      fileType: processedFile.type,
+      thumbnail: await createThumbnail(processedFile),
+      patientName: getHistoryPatientName(processed.intakeRecord),
+      content: processed.content,
+      formattedContent: processed.formattedContent || '',
+      intakeRecord: processed.intakeRecord,
+      structuredData: processed.structuredData || null,
+    }, Number(apiKeys.historyRetentionDays) || 0);
+  };
+  
+  const startBatch = () => {
+    if (!isOcrConfigured) {
+      alert('Azure APIキー、エンドポイントを設定してください');
+      return;
+    }
+    
+    batch.start({
+      settings: buildProcessingSettings(),
+      concurrency: Number(apiKeys.batchConcurrency) || DEFAULT_BATCH_CONCURRENCY,
+      onItemDone: (item, processed) => void saveToHistory(item.file, processed),
+    });
+  };
+  
+  // 一括処理の結果を通常の結果表示欄に表示する（元の問診票も表示できるようにファイルも切り替える）
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.result) return;
+    setFile(item.file);
+    startImageEditing(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (item.file.type.startsWith('image/')) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        setPreview(event.target?.result as string);
+      };
+      reader.readAsDataURL(item.file);
+    }
+    restoreResult(item.result);
+  };
+  
+  // 一括処理の結果をまとめてダウンロード
+  const exportBatchResults = (format: 'json' | 'csv') => {
+    const results = batch.items
+      .filter(item => item.status !== 'queued' && item.status !== 'running')
+      .map(item => ({
+        fileName: item.file.name,
+        status: item.status,
+        error: item.error,
+        intakeRecord: item.result?.intakeRecord || null,
+        formattedContent: item.result?.formattedContent || null,
+      }));
+    const content = format === 'json' ? buildBatchJson(results) : buildBatchCsv(results);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `questionnaires-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  // 履歴の結果を表示する（元のファイルは保存していないため、問診票の表示は行わない）
+  const openHistoryEntry = (entry: HistoryEntry, intakeRecord = entry.intakeRecord) => {
+    setFile(null);
+    setPreview(null);
+    startImageEditing(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    restoreResult({
+      content: entry.content,
+      formattedContent: entry.formattedContent,
+      intakeRecord,
+      structuredData: entry.structuredData,
+    });
+  };
+  
+  // 保存したOCR結果から、現在の問診票テンプレートで構造化データを作り直して表示する
+  const reformatHistoryEntry = (entry: HistoryEntry) => {
+    const template = templates.find(t => t.id === apiKeys.formTemplateId) || null;
+    const record = flagLowConfidenceFields(
+      extractIntakeRecordWithTemplate(entry.structuredData, entry.content, template),
+      Number(apiKeys.confidenceThreshold) || DEFAULT_CONFIDENCE_THRESHOLD,
+      entry.structuredData
     );
+    openHistoryEntry(entry, record);
   };
 
   // 結果をクリップボードにコピーする関数
@@ -108,6 +471,23 @@ export default function Home() {
       });
   };
 
+  // 修正済みの構造化データをFHIR R4のBundleとしてダウンロードする関数
+  const downloadFhirBundle = (record: MedicalIntakeRecord) => {
+    try {
+      const bundle = buildFhirBundle(record, { fileName: file?.name });
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(file?.name || 'questionnaire').replace(/\.[^.]+$/, '')}.fhir.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('FHIRの出力に失敗しました:', err);
+      alert(err instanceof Error ? err.message : 'FHIRの出力に失敗しました');
+    }
+  };
+
   // APIキーをローカルストレージに保存
   useEffect(() => {
     // ページロード時にローカルストレージから読み込み
@@ -115,22 +495,69 @@ export default function Home() {
       const savedApiKey = localStorage.getItem('azureApiKey');
       const savedEndpoint = localStorage.getItem('azureEndpoint');
       const savedModelId = localStorage.getItem('azureModelId');
+      const savedApiVersion = localStorage.getItem('azureApiVersion');
+      const savedFeatures = localStorage.getItem('azureFeatures');
+      const savedOutputContentFormat = localStorage.getItem('azureOutputContentFormat');
       const savedGemmaPath = localStorage.getItem('gemmaModelPath');
+      const savedGemmaBaseUrl = localStorage.getItem('gemmaBaseUrl');
+      const savedGemmaBackend = localStorage.getItem('gemmaBackend');
+      const savedGemmaTimeoutSeconds = localStorage.getItem('gemmaTimeoutSeconds');
+      const savedConfidenceThreshold = localStorage.getItem('confidenceThreshold');
+      const savedFormTemplateId = localStorage.getItem('formTemplateId');
+      const savedKarteTemplateId = localStorage.getItem('karteTemplateId');
+      const savedHistoryRetentionDays = localStorage.getItem('historyRetentionDays');
+      const savedBatchConcurrency = localStorage.getItem('batchConcurrency');
+      const savedOcrProvider = localStorage.getItem('ocrProvider');
+      const savedOcrFallback = localStorage.getItem('ocrFallback');
       
       if (savedApiKey) setApiKeys(prev => ({ ...prev, azureApiKey: savedApiKey }));
       if (savedEndpoint) setApiKeys(prev => ({ ...prev, azureEndpoint: savedEndpoint }));
       if (savedModelId) setApiKeys(prev => ({ ...prev, modelId: savedModelId }));
+      if (isAzureApiVersion(savedApiVersion)) setApiKeys(prev => ({ ...prev, azureApiVersion: savedApiVersion }));
+      if (savedFeatures !== null) setApiKeys(prev => ({ ...prev, azureFeatures: savedFeatures }));
+      if (savedOutputContentFormat === 'text' || savedOutputContentFormat === 'markdown') setApiKeys(prev => ({ ...prev, azureOutputContentFormat: savedOutputContentFormat }));
       if (savedGemmaPath) setApiKeys(prev => ({ ...prev, gemmaModelPath: savedGemmaPath }));
+      if (savedGemmaBaseUrl) setApiKeys(prev => ({ ...prev, gemmaBaseUrl: savedGemmaBaseUrl }));
+      if (savedGemmaBackend === 'openai' || savedGemmaBackend === 'ollama') setApiKeys(prev => ({ ...prev, gemmaBackend: savedGemmaBackend }));
+      if (savedGemmaTimeoutSeconds) setApiKeys(prev => ({ ...prev, gemmaTimeoutSeconds: savedGemmaTimeoutSeconds }));
+      if (savedConfidenceThreshold) setApiKeys(prev => ({ ...prev, confidenceThreshold: savedConfidenceThreshold }));
+      if (savedFormTemplateId) setApiKeys(prev => ({ ...prev, formTemplateId: savedFormTemplateId }));
+      if (savedKarteTemplateId) setApiKeys(prev => ({ ...prev, karteTemplateId: savedKarteTemplateId }));
+      if (savedHistoryRetentionDays !== null) setApiKeys(prev => ({ ...prev, historyRetentionDays: savedHistoryRetentionDays }));
+      if (savedBatchConcurrency) setApiKeys(prev => ({ ...prev, batchConcurrency: savedBatchConcurrency }));
+      if (savedOcrProvider === 'azure' || savedOcrProvider === 'tesseract') setApiKeys(prev => ({ ...prev, ocrProvider: savedOcrProvider }));
+      if (savedOcrFallback) setApiKeys(prev => ({ ...prev, ocrFallback: savedOcrFallback }));
     }
   }, []);
   
+  // 保存された保持期間で、期限を過ぎた履歴を削除
+  useEffect(() => {
+    const savedRetentionDays = localStorage.getItem('historyRetentionDays');
+    purgeExpired(savedRetentionDays !== null ? Number(savedRetentionDays) || 0 : DEFAULT_HISTORY_RETENTION_DAYS);
+  }, [purgeExpired]);
+  
   // APIキーが変更されたらローカルストレージに保存
   useEffect(() => {
     if (typeof window !== 'undefined') {
       if (apiKeys.azureApiKey) localStorage.setItem('azureApiKey', apiKeys.azureApiKey);
       if (apiKeys.azureEndpoint) localStorage.setItem('azureEndpoint', apiKeys.azureEndpoint);
       if (apiKeys.modelId) localStorage.setItem('azureModelId', apiKeys.modelId);
+      localStorage.setItem('azureApiVersion', apiKeys.azureApiVersion);
+      // すべての追加機能を無効にした場合も選択として保存する
+      localStorage.setItem('azureFeatures', apiKeys.azureFeatures);
+      localStorage.setItem('azureOutputContentFormat', apiKeys.azureOutputContentFormat);
       if (apiKeys.gemmaModelPath) localStorage.setItem('gemmaModelPath', apiKeys.gemmaModelPath);
+      if (apiKeys.gemmaBaseUrl) localStorage.setItem('gemmaBaseUrl', apiKeys.gemmaBaseUrl);
+      if (apiKeys.gemmaBackend) localStorage.setItem('gemmaBackend', apiKeys.gemmaBackend);
+      if (apiKeys.gemmaTimeoutSeconds) localStorage.setItem('gemmaTimeoutSeconds', apiKeys.gemmaTimeoutSeconds);
+      if (apiKeys.confidenceThreshold) localStorage.setItem('confidenceThreshold', apiKeys.confidenceThreshold);
+      // 「テンプレートなし」も選択として保存する
+      localStorage.setItem('formTemplateId', apiKeys.formTemplateId);
+      if (apiKeys.karteTemplateId) localStorage.setItem('karteTemplateId', apiKeys.karteTemplateId);
+      if (apiKeys.historyRetentionDays) localStorage.setItem('historyRetentionDays', apiKeys.historyRetentionDays);
+      if (apiKeys.batchConcurrency) localStorage.setItem('batchConcurrency', apiKeys.batchConcurrency);
+      localStorage.setItem('ocrProvider', apiKeys.ocrProvider);
+      localStorage.setItem('ocrFallback', apiKeys.ocrFallback);
     }
   }, [apiKeys]);
 
@@ -160,23 +587,15 @@ export default function Home() {
             >
               {preview ? (
                 <div className="flex flex-col items-center">
-                  {file?.type === 'application/pdf' ? (
-                    <div className="w-16 h-16 mb-4 flex items-center justify-center bg-red-100 rounded-full">
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                    </div>
-                  ) : (
-                    <div className="mb-4 max-w-xs">
-                      <Image 
-                        src={preview} 
-                        alt="プレビュー" 
-                        className="max-h-48 rounded-lg mx-auto" 
-                        width={192}
-                        height={192}
-                      />
-                    </div>
-                  )}
+                  <div className="mb-4 max-w-xs">
+                    <Image 
+                      src={preview} 
+                      alt="プレビュー" 
+                      className="max-h-48 rounded-lg mx-auto" 
+                      width={192}
+                      height={192}
+                    />
+                  </div>
                   <p className="text-sm text-gray-600 dark:text-gray-300">{file?.name}</p>
                   <button 
                     className="mt-4 text-sm text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
@@ -184,11 +603,23 @@ export default function Home() {
                       e.stopPropagation();
                       setFile(null);
                       setPreview(null);
+                      startImageEditing(null);
                       if (fileInputRef.current) fileInputRef.current.value = '';
                     }}
                   >
                     ファイルを削除
                   </button>
+                  {originalImage && !isEditingImage && (
+                    <button
+                      className="mt-2 text-sm text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsEditingImage(true);
+                      }}
+                    >
+                      画像を補正
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="flex flex-col items-center">
@@ -199,7 +630,7 @@ export default function Home() {
                     クリックまたはドラッグ＆ドロップでファイルをアップロード
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    PDFまたはJPEG形式のファイルに対応しています
+                    PDFまたはJPEG形式のファイルに対応しています（複数のファイルを選択すると一括処理します）
                   </p>
                 </div>
               )}
@@ -207,17 +638,42 @@ export default function Home() {
                 ref={fileInputRef}
                 type="file"
                 accept=".pdf,.jpg,.jpeg,.png"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
               />
             </div>
             
+            {file?.type === 'application/pdf' && pdfPageCount > 0 && (
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-2">分析するページ</h3>
+                <PdfPageSelector
+                  file={file}
+                  pageCount={pdfPageCount}
+                  selectedPages={selectedPages}
+                  onChange={setSelectedPages}
+                  pageTexts={result && !isProcessing && pages.length > 0 ? pageTexts : undefined}
+                />
+              </div>
+            )}
+            
+            {originalImage && isEditingImage && (
+              <div className="mt-6">
+                <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-2">画像の補正</h3>
+                <ImageEditor
+                  file={originalImage}
+                  onApply={applyEditedImage}
+                  onCancel={() => setIsEditingImage(false)}
+                />
+              </div>
+            )}
+            
             <div className="mt-6 flex justify-center">
               <button
                 onClick={handleProcessFile}
-                disabled={!file || isProcessing || !apiKeys.azureApiKey || !apiKeys.azureEndpoint}
+                disabled={!file || isProcessing || !isOcrConfigured}
                 className={`px-6 py-2 rounded-md font-medium text-white ${
-                  !file || isProcessing || !apiKeys.azureApiKey || !apiKeys.azureEndpoint
+                  !file || isProcessing || !isOcrConfigured
                     ? 'bg-gray-400 cursor-not-allowed'
                     : 'bg-blue-600 hover:bg-blue-700'
                 } transition-colors`}
@@ -228,21 +684,114 @@ export default function Home() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    処理中...
+                    {job ? `${JOB_STAGE_LABELS[job.stage]}... (${job.progress}%)` : '処理中...'}
                   </span>
                 ) : (
                   'OCR処理を開始'
                 )}
               </button>
+              {isProcessing && job && job.stage !== 'done' && job.stage !== 'failed' && (
+                <button
+                  onClick={cancelProcessing}
+                  className="ml-3 px-6 py-2 rounded-md font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 transition-colors"
+                >
+                  キャンセル
+                </button>
+              )}
+            </div>
+            <div className="mt-2 flex justify-center">
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={forceOcr}
+                  onChange={(e) => setForceOcr(e.target.checked)}
+                  disabled={isProcessing}
+                />
+                OCRを再実行する（前回の読み取り結果を使わない）
+              </label>
             </div>
+            
+            {/* 処理の進捗表示 */}
+            {events.length > 0 && (
+              <ol className="mt-6 space-y-2">
+                {PROGRESS_STEPS.map((step, index) => {
+                  const stepEvents = events.filter(event => event.type === step.type);
+                  const lastEvent = stepEvents[stepEvents.length - 1];
+                  const reachedIndex = Math.max(...events.map(event => PROGRESS_STEPS.findIndex(s => s.type === event.type)));
+                  const failed = events.some(event => event.type === 'failed');
+                  const isDone = index < reachedIndex || (step.type === 'result-ready' && !!lastEvent);
+                  const isCurrent = index === reachedIndex && !isDone;
+                  
+                  let detail = '';
+                  const fallbackEvent = events.find(event => event.type === 'ocr-fallback');
+                  if (step.type === 'azure-status' && fallbackEvent?.type === 'ocr-fallback') {
+                    detail = `Azureで分析できなかったため、Tesseractで分析しています（${fallbackEvent.reason}）`;
+                  } else if (step.type === 'azure-status' && events.some(event => event.type === 'cache-hit')) {
+                    detail = 'キャッシュ済みの結果を使用（Azureは呼び出していません）';
+                  } else if (lastEvent?.type === 'azure-status') {
+                    detail = `試行 ${lastEvent.attempt}（${lastEvent.status}、${Math.round(lastEvent.elapsedMs / 1000)}秒経過 / 上限${Math.round(lastEvent.timeoutMs / 1000)}秒）`;
+                  } else if (lastEvent?.type === 'pages-analyzed') {
+                    detail = `${lastEvent.pageCount}ページ`;
+                  }
+                  
+                  return (
+                    <li key={step.type} className="flex items-center text-sm">
+                      <span className={`w-5 h-5 mr-3 flex items-center justify-center rounded-full text-xs text-white ${
+                        isDone ? 'bg-green-500' : isCurrent && failed ? 'bg-red-500' : isCurrent ? 'bg-blue-500 animate-pulse' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}>
+                        {isDone ? '✓' : isCurrent && failed ? '!' : index + 1}
+                      </span>
+                      <span className={isDone || isCurrent ? 'text-gray-800 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'}>
+                        {step.label}
+                      </span>
+                      {detail && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{detail}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
           </div>
           
+          {/* 一括処理エリア */}
+          {batch.items.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+                一括処理
+              </h2>
+              <BatchPanel
+                items={batch.items}
+                isRunning={batch.isRunning}
+                onStart={startBatch}
+                onStop={batch.stop}
+                onRetry={batch.retryItem}
+                onCancel={batch.cancelItem}
+                onRemove={batch.removeItem}
+                onClearFinished={batch.clearFinished}
+                onOpen={openBatchItem}
+                onExport={exportBatchResults}
+                canStart={isOcrConfigured}
+              />
+            </div>
+          )}
+          
           {/* OCR結果表示エリア */}
           {result && (
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
               <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
                 OCR処理結果
               </h2>
+              {result.cached && (
+                <p className="-mt-2 mb-4 text-xs text-gray-500 dark:text-gray-400">
+                  同じファイルの前回の読み取り結果を使用しました（Azureの呼び出しなし）
+                </p>
+              )}
+              {result.ocrProvider && result.ocrProvider !== apiKeys.ocrProvider && (
+                <p className="-mt-2 mb-4 text-xs text-yellow-700 dark:text-yellow-400">
+                  {OCR_PROVIDER_LABELS[result.ocrProvider]}で読み取りました。表やチェックボックスは認識されないため、内容を確認してください
+                </p>
+              )}
               
               {result.error ? (
                 <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md">
@@ -251,6 +800,11 @@ export default function Home() {
                 </div>
               ) : (
                 <div className="space-y-4">
+                  <RedFlagBanner
+                    matches={redFlags}
+                    onSelect={(match) => setHighlightedFields([{ ...match, value: match.matchedText }])}
+                  />
+                  
                   {result.content && (
                     <div>
                       <h3 className="text-md font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -270,22 +824,111 @@ export default function Home() {
                     </div>
                   )}
                   
-                  {result.formattedContent && (
+                  {typeof result.structuredData?.markdown === 'string' && (
                     <div>
                       <h3 className="text-md font-medium text-gray-700 dark:text-gray-300 mb-2">
-                        整形されたテキスト（カルテ用）
+                        Markdown出力
                       </h3>
                       <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md max-h-60 overflow-y-auto">
                         <pre className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
-                          {result.formattedContent}
+                          {result.structuredData.markdown}
                         </pre>
                       </div>
                       <button
-                        onClick={() => result.formattedContent && copyToClipboard(result.formattedContent)}
+                        onClick={() => copyToClipboard(result.structuredData?.markdown as string)}
+                        className="mt-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        Markdownをコピー
+                      </button>
+                    </div>
+                  )}
+                  
+                  <TableView
+                    tables={(result.structuredData?.tables || []) as Array<Record<string, unknown>>}
+                    onCopy={copyToClipboard}
+                  />
+                  
+                  {reviewedRecord && (
+                    <ReviewQueue
+                      record={reviewedRecord}
+                      onChange={setReviewedRecord}
+                      onSelect={(field) => setHighlightedFields([field])}
+                    />
+                  )}
+                  
+                  {karteText && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-md font-medium text-gray-700 dark:text-gray-300">
+                          整形されたテキスト（カルテ用）
+                        </h3>
+                        {reviewedRecord && (
+                          <select
+                            id="karte-template"
+                            value={karteTemplate.id}
+                            onChange={handleInputChange}
+                            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                          >
+                            {karteTemplates.map(template => (
+                              <option key={template.id} value={template.id}>{template.name}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      {karteTemplateError && (
+                        <p className="mb-2 text-xs text-red-600 dark:text-red-400">
+                          テンプレートを適用できなかったため標準の形式で表示しています: {karteTemplateError}
+                        </p>
+                      )}
+                      <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md max-h-60 overflow-y-auto">
+                        <pre className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                          {karteText.split('\n').map((line, index) => {
+                            // 抽出元が分かる行はクリックで問診票上の位置を強調表示
+                            const fields = reviewedRecord ? findIntakeFieldsForKarteLine(line, reviewedRecord) : [];
+                            if (fields.length === 0) {
+                              return <span key={index} className="block">{line || '\u00a0'}</span>;
+                            }
+                            const isHighlighted = fields.every(field => highlightedFields.includes(field));
+                            return (
+                              <span
+                                key={index}
+                                onClick={() => setHighlightedFields(isHighlighted ? [] : fields)}
+                                className={`block cursor-pointer rounded hover:bg-yellow-100 dark:hover:bg-yellow-900/30 ${
+                                  isHighlighted ? 'bg-yellow-100 dark:bg-yellow-900/30' : ''
+                                }`}
+                              >
+                                {line}
+                              </span>
+                            );
+                          })}
+                        </pre>
+                      </div>
+                      <button
+                        onClick={() => copyToClipboard(karteText)}
                         className="mt-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
                       >
                         整形テキストをコピー
                       </button>
+                      {reviewedRecord && (
+                        <button
+                          onClick={() => downloadFhirBundle(reviewedRecord)}
+                          className="mt-2 ml-4 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          FHIR形式でダウンロード
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  
+                  {file && pages.length > 0 && (
+                    <div>
+                      <h3 className="text-md font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        元の問診票
+                      </h3>
+                      <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+                        カルテ用テキストの項目をクリックすると、読み取った位置が強調表示されます
+                      </p>
+                      <DocumentViewer file={file} pages={pages} highlights={highlightedFields} />
                     </div>
                   )}
                 </div>
@@ -293,11 +936,54 @@ export default function Home() {
             </div>
           )}
           
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+              処理履歴
+            </h2>
+            <HistoryPanel
+              entries={history.entries}
+              query={history.query}
+              onQueryChange={history.setQuery}
+              onOpen={entry => openHistoryEntry(entry)}
+              onReformat={reformatHistoryEntry}
+              onDelete={history.removeEntry}
+              error={history.error}
+            />
+          </div>
+          
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
               APIキー設定
             </h2>
             <div className="space-y-4">
+              <div>
+                <label htmlFor="ocr-provider" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  OCRエンジン
+                </label>
+                <select
+                  id="ocr-provider"
+                  value={apiKeys.ocrProvider}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {(Object.keys(OCR_PROVIDER_LABELS) as OcrProviderType[]).map(type => (
+                    <option key={type} value={type}>{OCR_PROVIDER_LABELS[type]}</option>
+                  ))}
+                </select>
+                <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={apiKeys.ocrFallback === 'true'}
+                    disabled={apiKeys.ocrProvider !== 'azure'}
+                    onChange={(e) => setApiKeys(prev => ({ ...prev, ocrFallback: String(e.target.checked) }))}
+                  />
+                  Azureで分析できない場合（ネットワーク障害・キーの期限切れなど）はTesseractで分析する
+                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Tesseractはサーバー内で処理するため、インターネットに接続できなくても使用できます
+                </p>
+              </div>
               <div>
                 <label htmlFor="azure-api-key" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Azure Document Intelligence APIキー <span className="text-red-500">*</span>
@@ -340,21 +1026,223 @@ export default function Home() {
                   デフォルト: prebuilt-layout（空の場合はこのモデルが使用されます）
                 </p>
               </div>
+              <div>
+                <label htmlFor="azure-api-version" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Azure Document Intelligence APIバージョン
+                </label>
+                <select
+                  id="azure-api-version"
+                  value={apiKeys.azureApiVersion}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {(Object.keys(AZURE_API_VERSIONS) as AzureApiVersion[]).map(version => (
+                    <option key={version} value={version}>{AZURE_API_VERSIONS[version].label}</option>
+                  ))}
+                </select>
+                <div className="mt-2 grid grid-cols-2 gap-1">
+                  {(Object.keys(AZURE_FEATURE_LABELS) as AzureAnalyzeFeature[]).map(feature => (
+                    <label key={feature} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={enabledAzureFeatures.includes(feature)}
+                        disabled={!azureVersionSpec.features.includes(feature)}
+                        onChange={(e) => setApiKeys(prev => {
+                          const features = prev.azureFeatures.split(',').filter(f => f && f !== feature);
+                          return { ...prev, azureFeatures: (e.target.checked ? [...features, feature] : features).join(',') };
+                        })}
+                      />
+                      {AZURE_FEATURE_LABELS[feature]}
+                    </label>
+                  ))}
+                </div>
+                <label htmlFor="azure-output-content-format" className="block mt-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  出力形式
+                </label>
+                <select
+                  id="azure-output-content-format"
+                  value={azureVersionSpec.markdown ? apiKeys.azureOutputContentFormat : 'text'}
+                  onChange={handleInputChange}
+                  disabled={!azureVersionSpec.markdown}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="text">テキスト</option>
+                  <option value="markdown">Markdown（見出し・表を含む全文）</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  追加機能は料金が加算される場合があります。Markdown出力は2024-11-30以降で使用できます
+                </p>
+              </div>
               <div>
                 <label htmlFor="gemma-model-path" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Gemma LLMモデルパス
+                  Gemma LLMモデル名
                 </label>
                 <input
                   type="text"
                   id="gemma-model-path"
                   value={apiKeys.gemmaModelPath}
                   onChange={handleInputChange}
-                  placeholder="ローカルGemmaモデルのパス"
+                  placeholder="例: gemma3:4b"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+              <div>
+                <label htmlFor="gemma-backend" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  LLMサーバーの種類
+                </label>
+                <select
+                  id="gemma-backend"
+                  value={apiKeys.gemmaBackend}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="openai">OpenAI互換（llama.cpp / LM Studio など）</option>
+                  <option value="ollama">Ollama</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="gemma-base-url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  LLMサーバーURL
+                </label>
+                <input
+                  type="text"
+                  id="gemma-base-url"
+                  value={apiKeys.gemmaBaseUrl}
+                  onChange={handleInputChange}
+                  placeholder={apiKeys.gemmaBackend === 'ollama' ? 'http://localhost:11434' : 'http://localhost:8080'}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  サーバーに接続できない場合はルールベースの整形結果が表示されます
+                </p>
+              </div>
+              <div>
+                <label htmlFor="gemma-timeout-seconds" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  LLMサーバーの応答待ち時間（秒）
+                </label>
+                <input
+                  type="number"
+                  id="gemma-timeout-seconds"
+                  min="1"
+                  step="1"
+                  value={apiKeys.gemmaTimeoutSeconds}
+                  onChange={handleInputChange}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
                 />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  この時間内に応答がない場合はルールベースの整形結果が表示されます（デフォルト: {DEFAULT_LLM_TIMEOUT_MS / 1000}秒）
+                </p>
+              </div>
+              <div>
+                <label htmlFor="confidence-threshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  要確認とする信頼度のしきい値
+                </label>
+                <input
+                  type="number"
+                  id="confidence-threshold"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={apiKeys.confidenceThreshold}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  OCRの信頼度がこの値未満の項目は「要確認」に表示されます（0〜1、デフォルト: {DEFAULT_CONFIDENCE_THRESHOLD}）
+                </p>
+              </div>
+              <div>
+                <label htmlFor="form-template" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  問診票テンプレート
+                </label>
+                <select
+                  id="form-template"
+                  value={apiKeys.formTemplateId}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">なし（汎用の抽出のみ）</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  選択したテンプレートの対応付けを汎用の抽出より優先します
+                </p>
+              </div>
+              <div>
+                <label htmlFor="batch-concurrency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  一括処理の同時実行数
+                </label>
+                <input
+                  type="number"
+                  id="batch-concurrency"
+                  min="1"
+                  max="5"
+                  step="1"
+                  value={apiKeys.batchConcurrency}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  同時にAzureへ送信するファイル数です。レート制限のエラーが出る場合は減らしてください（デフォルト: {DEFAULT_BATCH_CONCURRENCY}）
+                </p>
+              </div>
+              <div>
+                <label htmlFor="history-retention-days" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  履歴の保持期間（日）
+                </label>
+                <input
+                  type="number"
+                  id="history-retention-days"
+                  min="0"
+                  step="1"
+                  value={apiKeys.historyRetentionDays}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  履歴はこのブラウザ内（IndexedDB）にのみ保存され、期間を過ぎると自動的に削除されます（0の場合は保存しません、デフォルト: {DEFAULT_HISTORY_RETENTION_DAYS}日）
+                </p>
               </div>
             </div>
           </div>
+          
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+              問診票テンプレートの編集
+            </h2>
+            <FormTemplateEditor
+              templates={templates}
+              onSave={saveTemplate}
+              onDelete={deleteTemplate}
+              sample={result?.structuredData || null}
+            />
+          </div>
+          
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+              カルテのテンプレートの編集
+            </h2>
+            <KarteTemplateEditor
+              templates={customKarteTemplates}
+              onSave={saveKarteTemplate}
+              onDelete={deleteKarteTemplate}
+              record={reviewedRecord}
+            />
+          </div>
+          
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-white mb-4">
+              注意が必要な記載の検出ルール
+            </h2>
+            <RedFlagRuleEditor
+              rules={redFlagRules}
+              onSave={saveRedFlagRules}
+              onReset={resetRedFlagRules}
+            />
+          </div>
         </main>
       </div>
     </div>
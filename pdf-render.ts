@@ -0,0 +1,59 @@
+// PDFのページをブラウザ内で画像として描画するためのユーティリティ関数
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// 読み込み済みのPDFをファイルごとに保持
+const documentCache = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+// pdf.jsを読み込み、ファイルをPDFドキュメントとして開く
+async function loadPdfDocument(file: File): Promise<PDFDocumentProxy> {
+  let cached = documentCache.get(file);
+
+  if (!cached) {
+    cached = (async () => {
+      const pdfjs = await import('pdfjs-dist');
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+      const data = new Uint8Array(await file.arrayBuffer());
+      return pdfjs.getDocument({ data }).promise;
+    })();
+    documentCache.set(file, cached);
+  }
+
+  return cached;
+}
+
+// PDFのページ数を取得
+export async function getPdfPageCount(file: File): Promise<number> {
+  const pdf = await loadPdfDocument(file);
+  return pdf.numPages;
+}
+
+// PDFの指定ページを指定幅の画像（data URL）として描画
+export async function renderPdfPage(
+  file: File,
+  pageNumber: number,
+  targetWidth = 1200
+): Promise<{ dataUrl: string; width: number; height: number }> {
+  const pdf = await loadPdfDocument(file);
+  const page = await pdf.getPage(pageNumber);
+
+  const baseViewport = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: targetWidth / baseViewport.width });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('キャンバスを初期化できませんでした');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  return {
+    dataUrl: canvas.toDataURL('image/png'),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
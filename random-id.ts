@@ -0,0 +1,15 @@
+// ランダムなID（UUID v4）を作成する関数
+// crypto.randomUUIDはHTTPSなどのセキュアコンテキストでしか使えないため、
+// 院内LANのhttp://で開いた場合はcrypto.getRandomValuesから作成する
+
+export function createRandomId(): string {
+  if (typeof globalThis.crypto.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // バージョン4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122のバリアント
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,133 @@
+// 段落の役割と手書きのスタイルに基づく、読み順のテキストの組み立てのテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildReadingOrder, isHandwrittenText } from '../app/api/reading-order';
+import { extractStructuredData, extractTextFromAnalysisResult } from '../app/api/azure-utils';
+import { extractIntakeRecord, splitTextIntoSourceLines } from '../app/lib/intake-record';
+
+interface ParagraphSpec {
+  content: string;
+  box: [number, number, number, number];
+  role?: string;
+  handwritten?: boolean;
+}
+
+// 段落の一覧から、contentのspansと手書きのstylesを含むレイアウト分析結果を作成
+function buildAnalyzeResult(paragraphs: ParagraphSpec[]): Record<string, unknown> {
+  let content = '';
+  const styles: Array<Record<string, unknown>> = [];
+  const built = paragraphs.map((paragraph) => {
+    const span = { offset: content.length, length: paragraph.content.length };
+    content += `${paragraph.content}\n`;
+    if (paragraph.handwritten) {
+      styles.push({ isHandwritten: true, confidence: 0.9, spans: [span] });
+    }
+    const [left, top, right, bottom] = paragraph.box;
+    return {
+      content: paragraph.content,
+      ...(paragraph.role ? { role: paragraph.role } : {}),
+      spans: [span],
+      boundingRegions: [{ pageNumber: 1, polygon: [left, top, right, top, right, bottom, left, bottom] }],
+    };
+  });
+
+  return {
+    analyzeResult: {
+      content,
+      pages: [{ pageNumber: 1, width: 8.5, height: 11, unit: 'inch', lines: [], words: [] }],
+      paragraphs: built,
+      styles,
+    },
+  };
+}
+
+// 2段組みの問診票（印字の質問の右隣・直下に手書きの回答）
+const TWO_COLUMN_FORM = buildAnalyzeResult([
+  { content: '〇〇内科クリニック', box: [0.5, 0.2, 3, 0.4], role: 'pageHeader' },
+  { content: '問診票', box: [3.5, 0.6, 5, 0.9], role: 'title' },
+  { content: '氏名', box: [1, 1, 2, 1.3] },
+  { content: '年齢：', box: [5, 1, 6, 1.3] },
+  { content: '山田 太郎', box: [2.2, 1, 4, 1.3], handwritten: true },
+  { content: '45歳', box: [6.2, 1, 7, 1.3], handwritten: true },
+  { content: '現在の症状', box: [1, 2, 5, 2.3] },
+  { content: '3日前から頭痛', box: [1, 2.4, 4, 2.7], handwritten: true },
+  { content: '既往歴', box: [1, 3, 2, 3.3] },
+  { content: 'よろしくお願いします', box: [1, 6, 4, 6.3], handwritten: true },
+  { content: '1 / 1', box: [4, 10.5, 4.5, 10.7], role: 'pageFooter' },
+]);
+
+describe('buildReadingOrder', () => {
+  it('ヘッダー・フッターを除き、質問と最も近い手書きの回答を読み順にまとめる', () => {
+    const lines = buildReadingOrder(TWO_COLUMN_FORM.analyzeResult as Record<string, unknown>);
+
+    assert.deepEqual(lines.map((line) => [line.content, line.role, line.handwritten]), [
+      ['問診票', 'title', false],
+      ['氏名: 山田 太郎', null, true],
+      ['年齢: 45歳', null, true],
+      ['現在の症状: 3日前から頭痛', null, true],
+      ['既往歴', null, false],
+      ['よろしくお願いします', null, true],
+    ]);
+    assert.equal(lines[1].question, '氏名');
+    assert.deepEqual(lines[1].boundingBox, [2.2, 1, 4, 1, 4, 1.3, 2.2, 1.3]);
+  });
+
+  it('段落がない結果は空の配列を返す', () => {
+    assert.deepEqual(buildReadingOrder({ pages: [] }), []);
+  });
+
+  it('テキストの半分以上が手書きのスタイルに含まれる場合に手書きとする', () => {
+    const handwritten = [{ offset: 10, length: 5 }];
+
+    assert.equal(isHandwrittenText([{ offset: 10, length: 8 }], handwritten), true);
+    assert.equal(isHandwrittenText([{ offset: 0, length: 12 }], handwritten), false);
+    assert.equal(isHandwrittenText([], handwritten), false);
+  });
+});
+
+describe('読み順のテキストと構造化データ', () => {
+  it('抽出したテキストで手書きの行に目印を付け、行に分割すると目印を取り除く', () => {
+    const text = extractTextFromAnalysisResult(TWO_COLUMN_FORM);
+
+    assert.equal(text, [
+      '===== ページ 1 =====',
+      '',
+      '問診票',
+      '氏名: 山田 太郎 〔手書き〕',
+      '年齢: 45歳 〔手書き〕',
+      '現在の症状: 3日前から頭痛 〔手書き〕',
+      '既往歴',
+      'よろしくお願いします 〔手書き〕',
+    ].join('\n'));
+    assert.deepEqual(splitTextIntoSourceLines(text)[1], { content: '氏名: 山田 太郎', page: 1, handwritten: true });
+  });
+
+  it('段落がない場合は行の順に出力し、手書きの行に目印を付ける', () => {
+    const text = extractTextFromAnalysisResult({
+      analyzeResult: {
+        pages: [{
+          pageNumber: 1,
+          lines: [
+            { content: '氏名', spans: [{ offset: 0, length: 2 }] },
+            { content: '山田 太郎', spans: [{ offset: 3, length: 5 }] },
+          ],
+        }],
+        styles: [{ isHandwritten: true, spans: [{ offset: 3, length: 5 }] }],
+      },
+    });
+
+    assert.equal(text, '===== ページ 1 =====\n\n氏名\n山田 太郎 〔手書き〕');
+  });
+
+  it('構造化データの読み順の行から、手書きの値を示すフィールドを作成する', () => {
+    const structuredData = extractStructuredData(TWO_COLUMN_FORM);
+    const record = extractIntakeRecord(structuredData);
+
+    assert.equal(record.patientName?.value, '山田 太郎');
+    assert.equal(record.patientName?.handwritten, true);
+    assert.equal(record.patientName?.sourceText, '氏名: 山田 太郎');
+    assert.equal(record.age?.value, 45);
+    assert.equal(record.presentIllness?.value, '3日前から頭痛');
+  });
+});
@@ -0,0 +1,176 @@
+// レイアウト分析結果の段落（paragraphs）の役割と手書きのスタイル（styles.isHandwritten）から、読み順のテキストを組み立てる関数
+// ページのヘッダー・フッターを除き、印字された質問と、その右隣または直下に手書きされた回答を1行にまとめる
+
+import { Box, toBox } from './selection-marks';
+
+// 読み順に並べた行
+export interface ReadingOrderLine {
+  content: string;
+  pageNumber: number | null;
+  // 手書きの回答と組み合わせた場合は回答の領域
+  boundingBox: number[] | null;
+  // title / sectionHeading など（本文はnull）
+  role: string | null;
+  handwritten: boolean;
+  // 手書きの回答と組み合わせた印字の質問（組み合わせていない場合はnull）
+  question: string | null;
+  // 元の段落のテキストの位置（信頼度の計算に使用）
+  spans: TextSpan[];
+}
+
+export interface TextSpan {
+  offset: number;
+  length: number;
+}
+
+interface Paragraph {
+  content: string;
+  role: string | null;
+  pageNumber: number | null;
+  polygon: number[] | null;
+  box: Box | null;
+  spans: TextSpan[];
+  handwritten: boolean;
+}
+
+// 読み順のテキストから除く段落の役割
+const EXCLUDED_ROLES = ['pageHeader', 'pageFooter', 'pageNumber'];
+
+// 質問として扱わない段落の役割
+const HEADING_ROLES = ['title', 'sectionHeading'];
+
+// 手書きとみなす、テキストのうち手書きのスタイルの部分の割合
+const HANDWRITTEN_RATIO = 0.5;
+
+function readSpans(value: unknown): TextSpan[] {
+  return ((value || []) as Array<Record<string, unknown>>)
+    .filter((span) => typeof span.offset === 'number' && typeof span.length === 'number')
+    .map((span) => ({ offset: span.offset as number, length: span.length as number }));
+}
+
+// 分析結果のstylesから手書きの部分の位置を取り出す
+export function readHandwrittenSpans(analyzeResult: Record<string, unknown> | undefined): TextSpan[] {
+  return ((analyzeResult?.styles || []) as Array<Record<string, unknown>>)
+    .filter((style) => style.isHandwritten === true)
+    .flatMap((style) => readSpans(style.spans));
+}
+
+// テキストの位置の半分以上が手書きのスタイルに含まれるか
+export function isHandwrittenText(spans: unknown, handwrittenSpans: TextSpan[]): boolean {
+  const textSpans = readSpans(spans);
+  const total = textSpans.reduce((sum, span) => sum + span.length, 0);
+  if (total === 0 || handwrittenSpans.length === 0) {
+    return false;
+  }
+
+  const covered = textSpans.reduce((sum, span) => sum + handwrittenSpans.reduce((overlap, style) => {
+    const start = Math.max(span.offset, style.offset);
+    const end = Math.min(span.offset + span.length, style.offset + style.length);
+    return overlap + Math.max(0, end - start);
+  }, 0), 0);
+
+  return covered / total >= HANDWRITTEN_RATIO;
+}
+
+function readParagraphs(analyzeResult: Record<string, unknown> | undefined): Paragraph[] {
+  const handwrittenSpans = readHandwrittenSpans(analyzeResult);
+
+  return ((analyzeResult?.paragraphs || []) as Array<Record<string, unknown>>)
+    .filter((paragraph) => typeof paragraph.content === 'string' && paragraph.content.trim())
+    .map((paragraph) => {
+      const region = (paragraph.boundingRegions as Array<Record<string, unknown>> | undefined)?.[0];
+      const polygon = Array.isArray(region?.polygon) ? region.polygon as number[] : null;
+      return {
+        content: String(paragraph.content).trim(),
+        role: typeof paragraph.role === 'string' ? paragraph.role : null,
+        pageNumber: typeof region?.pageNumber === 'number' ? region.pageNumber : null,
+        polygon,
+        box: toBox(polygon),
+        spans: readSpans(paragraph.spans),
+        handwritten: isHandwrittenText(paragraph.spans, handwrittenSpans),
+      };
+    });
+}
+
+// 回答が質問の右隣（同じ高さ）または直下にある場合の距離（どちらでもない場合はnull）
+function answerDistance(question: Box, answer: Box): number | null {
+  const height = question.bottom - question.top;
+
+  const sameRow = answer.top < question.bottom && answer.bottom > question.top;
+  if (sameRow && answer.left >= question.right - height * 0.5) {
+    return Math.max(0, answer.left - question.right);
+  }
+
+  const sameColumn = answer.left < question.right && answer.right > question.left;
+  if (sameColumn && answer.top >= question.bottom - height * 0.5 && answer.top - question.bottom <= height * 1.5) {
+    return Math.max(0, answer.top - question.bottom);
+  }
+
+  return null;
+}
+
+// 手書きの段落ごとに、最も近い印字の質問を探す（多段組みで隣の段の回答と組み合わせないよう、回答の側から探す）
+function assignAnswers(paragraphs: Paragraph[]): Map<Paragraph, Paragraph[]> {
+  const questions = paragraphs.filter((p) => !p.handwritten && p.box && !HEADING_ROLES.includes(p.role || ''));
+  const answers = new Map<Paragraph, Paragraph[]>();
+
+  for (const answer of paragraphs.filter((p) => p.handwritten && p.box && !HEADING_ROLES.includes(p.role || ''))) {
+    let best: { question: Paragraph; distance: number } | null = null;
+    for (const question of questions.filter((q) => q.pageNumber === answer.pageNumber)) {
+      const distance = answerDistance(question.box as Box, answer.box as Box);
+      if (distance !== null && (!best || distance < best.distance)) {
+        best = { question, distance };
+      }
+    }
+    if (best) {
+      answers.set(best.question, [...(answers.get(best.question) || []), answer]);
+    }
+  }
+
+  return answers;
+}
+
+// 質問と回答を「質問: 回答」の1行にする
+function joinQuestionAndAnswers(question: string, answers: Paragraph[]): string {
+  return `${question.replace(/\s*[：:]\s*$/, '')}: ${answers.map((answer) => answer.content).join(' ')}`;
+}
+
+// 段落から読み順の行を組み立てる（段落がない古いAPIの結果の場合は空の配列）
+export function buildReadingOrder(analyzeResult: Record<string, unknown> | undefined): ReadingOrderLine[] {
+  const paragraphs = readParagraphs(analyzeResult).filter((p) => !EXCLUDED_ROLES.includes(p.role || ''));
+  const answers = assignAnswers(paragraphs);
+  const answered = new Set([...answers.values()].flat());
+  const lines: ReadingOrderLine[] = [];
+
+  for (const paragraph of paragraphs) {
+    if (answered.has(paragraph)) {
+      continue;
+    }
+
+    const paragraphAnswers = answers.get(paragraph);
+    if (paragraphAnswers) {
+      lines.push({
+        content: joinQuestionAndAnswers(paragraph.content, paragraphAnswers),
+        pageNumber: paragraph.pageNumber,
+        boundingBox: paragraphAnswers[0].polygon,
+        role: null,
+        handwritten: true,
+        question: paragraph.content,
+        spans: [...paragraph.spans, ...paragraphAnswers.flatMap((answer) => answer.spans)],
+      });
+      continue;
+    }
+
+    lines.push({
+      content: paragraph.content,
+      pageNumber: paragraph.pageNumber,
+      boundingBox: paragraph.polygon,
+      role: paragraph.role,
+      handwritten: paragraph.handwritten,
+      question: null,
+      spans: paragraph.spans,
+    });
+  }
+
+  return lines;
+}
@@ -0,0 +1,94 @@
+// 見落としてはならない記載の検出ルールのテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RED_FLAG_RULES, findRedFlags, validateRedFlagRule } from '../app/lib/red-flags';
+import { extractIntakeFromLines } from '../app/lib/intake-record';
+
+describe('findRedFlags', () => {
+  it('OCRのテキストの各行から緊急性の高い症状と薬剤アレルギーを検出し、緊急のものを先に並べる', () => {
+    const text = [
+      '===== ページ 1 =====',
+      '服薬: ワーファリン1mg',
+      '症状: 昨夜から胸の痛み',
+      'アレルギー: ペニシリンで発疹',
+    ].join('\n');
+
+    const matches = findRedFlags(null, text, null);
+
+    assert.deepEqual(matches.map((m) => [m.ruleId, m.severity, m.matchedText]), [
+      ['chest-pain', 'critical', '胸の痛み'],
+      ['drug-allergy', 'critical', 'ペニシリンで発疹'],
+      ['anticoagulant', 'warning', 'ワーファリン'],
+    ]);
+    assert.equal(matches[0].sourceText, '症状: 昨夜から胸の痛み');
+    assert.equal(matches[0].page, 1);
+    assert.equal(matches[0].fieldKey, null);
+  });
+
+  it('「なし」や未選択のチェックボックスで否定された記載は検出しない', () => {
+    const matches = findRedFlags(null, ['胸痛: なし', '意識消失☐ 失神☑', '妊娠・授乳: いいえ', '呼吸困難はありません'].join('\n'), null);
+
+    assert.deepEqual(matches.map((m) => [m.ruleId, m.matchedText]), [['loss-of-consciousness', '失神']]);
+  });
+
+  it('構造化データのフィールドから検出した場合はフィールドのキーを付け、同じ行のOCRの一致と重複させない', () => {
+    const lines = [{ content: '妊娠・授乳: あり', page: 2, boundingBox: [1, 1, 2, 1, 2, 2, 1, 2] }];
+    const record = extractIntakeFromLines(lines);
+    const structuredData = { pages: [{ pageNumber: 2, lines: lines.map(({ content, boundingBox }) => ({ content, boundingBox })) }] };
+
+    const matches = findRedFlags(record, '', structuredData);
+
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].ruleId, 'pregnancy');
+    assert.equal(matches[0].fieldKey, 'pregnancy');
+    assert.deepEqual(matches[0].boundingBox, [1, 1, 2, 1, 2, 2, 1, 2]);
+  });
+
+  it('「アレルギー: <薬剤>」の形式の記載も薬剤アレルギーとして検出する', () => {
+    const matches = findRedFlags(null, 'アレルギー: ペニシリン\n薬剤アレルギー: セフェム系\nアレルギー: なし', null);
+
+    assert.deepEqual(matches.map((m) => [m.ruleId, m.sourceText]), [
+      ['drug-allergy', 'アレルギー: ペニシリン'],
+      ['drug-allergy', '薬剤アレルギー: セフェム系'],
+    ]);
+  });
+
+  it('構造化データのアレルギーの各項目は、記載がないものを除いてすべて検出する', () => {
+    const record = extractIntakeFromLines([
+      { content: 'アレルギー: メイアクト', page: 1 },
+      { content: 'アレルギー: 特になし', page: 1 },
+    ]);
+
+    const matches = findRedFlags(record, '', null);
+
+    assert.deepEqual(matches.map((m) => [m.ruleId, m.matchedText, m.fieldKey]), [['drug-allergy', 'メイアクト', 'allergies']]);
+  });
+
+  it('無効にしたルールは使用せず、全角・半角の違いは区別しない', () => {
+    const rules = DEFAULT_RED_FLAG_RULES.map((rule) => (rule.id === 'chest-pain' ? { ...rule, enabled: false } : rule));
+    const matches = findRedFlags(null, '胸痛あり\nｐａｃｅｍａｋｅｒ ＩＣＤ植込み後', null, rules);
+
+    assert.deepEqual(matches.map((m) => [m.ruleId, m.matchedText]), [['implanted-device', 'ICD']]);
+  });
+});
+
+describe('validateRedFlagRule', () => {
+  const base = { id: 'custom', label: '発熱', category: 'urgent-symptom', severity: 'warning', terms: ['高熱', ' '], pattern: null, enabled: true };
+
+  it('空の語句を取り除く', () => {
+    assert.deepEqual(validateRedFlagRule(base).terms, ['高熱']);
+  });
+
+  it('不正な重要度・正規表現、語句のないルールはエラーにする', () => {
+    assert.throws(() => validateRedFlagRule({ ...base, severity: 'high' }), /重要度/);
+    assert.throws(() => validateRedFlagRule({ ...base, pattern: '(' }), /正規表現が不正です/);
+    assert.throws(() => validateRedFlagRule({ ...base, terms: [] }), /語句または正規表現/);
+  });
+
+  it('入れ子の繰り返しや長すぎる正規表現はエラーにし、組み込みのルールは受け付ける', () => {
+    assert.throws(() => validateRedFlagRule({ ...base, pattern: '(熱+)+' }), /発熱: 正規表現に入れ子の繰り返しは使用できません/);
+    assert.throws(() => validateRedFlagRule({ ...base, pattern: '熱'.repeat(501) }), /正規表現が長すぎます（500文字まで）/);
+    assert.deepEqual(DEFAULT_RED_FLAG_RULES.map(validateRedFlagRule), DEFAULT_RED_FLAG_RULES);
+  });
+});
@@ -0,0 +1,303 @@
+// 見落としてはならない記載（緊急性の高い症状、薬剤アレルギー、抗血栓薬、妊娠、植込み型デバイス）を検出するルールと判定
+// ルールは語句と正規表現で定義し、設定画面で編集できる
+
+import {
+  INTAKE_FIELD_LABELS,
+  IntakeFieldKey,
+  IntakeSource,
+  IntakeSourceLine,
+  MedicalIntakeRecord,
+  formatIntakeValue,
+  listIntakeFields,
+  readStructuredData,
+  splitTextIntoSourceLines
+} from './intake-record';
+import { findUnsafePatternReason } from './safe-pattern';
+
+export type RedFlagSeverity = 'critical' | 'warning';
+
+export type RedFlagCategory = 'urgent-symptom' | 'drug-allergy' | 'anticoagulant' | 'pregnancy' | 'device';
+
+// 検出ルール
+export interface RedFlagRule {
+  id: string;
+  label: string;
+  category: RedFlagCategory;
+  severity: RedFlagSeverity;
+  // 含まれていれば一致とする語句（全角・半角、英字の大文字・小文字は区別しない）
+  terms: string[];
+  // 語句で表せない場合の正規表現
+  pattern: string | null;
+  enabled: boolean;
+}
+
+// 検出結果（抽出元の行と位置を保持する）
+export interface RedFlagMatch extends IntakeSource {
+  ruleId: string;
+  label: string;
+  category: RedFlagCategory;
+  severity: RedFlagSeverity;
+  // 一致した語句
+  matchedText: string;
+  // 構造化データのフィールドから検出した場合はそのキー（OCRの行から検出した場合はnull）
+  fieldKey: IntakeFieldKey | null;
+}
+
+export const RED_FLAG_SEVERITY_LABELS: Record<RedFlagSeverity, string> = {
+  critical: '緊急',
+  warning: '注意',
+};
+
+export const RED_FLAG_CATEGORY_LABELS: Record<RedFlagCategory, string> = {
+  'urgent-symptom': '緊急性の高い症状',
+  'drug-allergy': '薬剤アレルギー',
+  'anticoagulant': '抗血栓薬',
+  'pregnancy': '妊娠・授乳',
+  'device': '植込み型デバイス',
+};
+
+// アレルギーの原因として記載される薬剤・薬効の表記
+const ALLERGY_DRUG_PATTERN = 'ペニシリン|セフェム|セフ[ァ-ヴー]+|抗生物質|抗生剤|抗菌薬|解熱鎮痛薬|痛み止め|ロキソニン|アスピリン|造影剤|麻酔|ヨード|薬';
+
+// 薬剤に続いて記載されるアレルギーの反応
+const ALLERGY_REACTION_PATTERN = '発疹|湿疹|じんま疹|じんましん|蕁麻疹|かゆみ|腫れ|ショック|アレルギー';
+
+// 組み込みのルール
+export const DEFAULT_RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest-pain',
+    label: '胸痛',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['胸痛', '胸の痛み', '胸が痛', '胸が苦し', '胸部圧迫感', '胸が締め付け'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'loss-of-consciousness',
+    label: '意識障害・失神',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['意識消失', '意識を失', '意識がな', '意識障害', '気を失', '失神'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'dyspnea',
+    label: '呼吸困難',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['呼吸困難', '息苦し', '息ができな', '息が吸えな'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'sudden-headache',
+    label: '突然の激しい頭痛',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['激しい頭痛', '突然の頭痛', '雷鳴頭痛', '人生最悪の頭痛', '今までで一番'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'neurological-deficit',
+    label: '麻痺・ろれつ障害',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['麻痺', 'まひ', 'ろれつ', '呂律', '顔のゆがみ', '片側の手足'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'bleeding',
+    label: '吐血・下血',
+    category: 'urgent-symptom',
+    severity: 'critical',
+    terms: ['吐血', '下血', '喀血', '黒い便', 'タール便'],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'drug-allergy',
+    label: '薬剤アレルギー',
+    category: 'drug-allergy',
+    severity: 'critical',
+    terms: ['アナフィラキシー', '薬疹', '薬剤アレルギー', '薬物アレルギー'],
+    // 「ペニシリンで発疹」のように反応が続く記載と、「アレルギー: ペニシリン」のように項目名に続く記載（反応が続く場合は前者とする）
+    pattern: `(${ALLERGY_DRUG_PATTERN}).{0,10}(${ALLERGY_REACTION_PATTERN})`
+      + `|アレルギー\\s*[:：]\\s*(${ALLERGY_DRUG_PATTERN})(?!.{0,10}(${ALLERGY_REACTION_PATTERN}))`,
+    enabled: true,
+  },
+  {
+    id: 'anticoagulant',
+    label: '抗凝固薬・抗血小板薬の服用',
+    category: 'anticoagulant',
+    severity: 'warning',
+    terms: [
+      'ワーファリン', 'ワルファリン', 'リクシアナ', 'エドキサバン', 'イグザレルト', 'リバーロキサバン',
+      'エリキュース', 'アピキサバン', 'プラザキサ', 'ダビガトラン', 'バイアスピリン', 'プラビックス',
+      'クロピドグレル', 'エフィエント', 'プラスグレル', '抗凝固', '抗血小板', '血液をサラサラ', '血をサラサラ',
+    ],
+    pattern: null,
+    enabled: true,
+  },
+  {
+    id: 'pregnancy',
+    label: '妊娠・授乳中',
+    category: 'pregnancy',
+    severity: 'warning',
+    terms: ['妊娠中', '妊娠して', '妊婦', '授乳中'],
+    pattern: '妊娠の可能性(が)?あ|妊娠\\s*\\d+\\s*(週|ヶ月|か月)|妊娠・授乳\\s*[:：]\\s*(あり|有|はい|妊娠|授乳)',
+    enabled: true,
+  },
+  {
+    id: 'implanted-device',
+    label: 'ペースメーカー等の植込み型デバイス',
+    category: 'device',
+    severity: 'warning',
+    terms: ['ペースメーカー', '植込み型除細動器', '植え込み型除細動器', 'ICD', '人工内耳', '脳動脈瘤クリップ'],
+    pattern: null,
+    enabled: true,
+  },
+];
+
+const SEVERITIES: RedFlagSeverity[] = ['critical', 'warning'];
+
+// ルールの正規表現の長さの上限（組み込みの薬剤アレルギーのルールが収まる長さ）
+const MAX_RULE_PATTERN_LENGTH = 500;
+
+// 一致した語句の直後にあれば、記載を否定しているとみなす（「胸痛: なし」「胸痛☐」など）
+const NEGATION_PATTERN = /^[\s:：は（(]*(なし|無し|無|ない|なかった|ありません|いいえ|☐|□|:unselected:)/;
+
+// 「特にありません」など、アレルギーの欄に記載がないことを示す値
+const NO_ENTRY_PATTERN = /^(特に|とくに)?\s*(なし|無し|無|ない|ありません|いいえ|不明|☐|□)/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ルールの語句と正規表現を1つの正規表現にする（検証を通らない正規表現は使わず、語句のみで判定する）
+function compileRule(rule: RedFlagRule): RegExp {
+  const sources = [
+    ...rule.terms.filter((term) => term.trim()).map((term) => escapeRegExp(term.normalize('NFKC'))),
+    ...(rule.pattern && !findUnsafePatternReason(rule.pattern, MAX_RULE_PATTERN_LENGTH) ? [rule.pattern] : []),
+  ];
+  return new RegExp(sources.join('|'), 'gi');
+}
+
+// 1行のテキストからルールに一致する語句を探す（否定されている記載は除く）
+function findMatchedText(text: string, pattern: RegExp): string | null {
+  const normalized = text.normalize('NFKC');
+  for (const match of normalized.matchAll(pattern)) {
+    const rest = normalized.slice((match.index ?? 0) + match[0].length);
+    if (match[0] && !NEGATION_PATTERN.test(rest)) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+// 構造化データ（スタッフが修正した値を含む）とOCRの各行をルールで判定する
+// 薬剤アレルギーのルールは、語句と一致しなくても構造化データのアレルギーの各項目（記載がないものを除く）を検出する
+// 同じルールの同じ行での一致は1件にまとめ、緊急のものを先に並べる
+export function findRedFlags(
+  record: MedicalIntakeRecord | null,
+  text: string,
+  structuredData: Record<string, unknown> | null,
+  rules: RedFlagRule[] = DEFAULT_RED_FLAG_RULES
+): RedFlagMatch[] {
+  const sources: Array<{ text: string; value: string | null; source: IntakeSource; fieldKey: IntakeFieldKey | null }> = [
+    ...(record ? listIntakeFields(record) : []).map(({ key, field }) => ({
+      text: `${INTAKE_FIELD_LABELS[key]}: ${formatIntakeValue(key, field)}`,
+      value: formatIntakeValue(key, field).trim(),
+      source: { sourceText: field.sourceText, page: field.page, boundingBox: field.boundingBox, confidence: field.confidence },
+      fieldKey: key,
+    })),
+    ...(structuredData ? readStructuredData(structuredData).lines : splitTextIntoSourceLines(text)).map((line: IntakeSourceLine) => ({
+      text: line.content,
+      value: null,
+      source: { sourceText: line.content, page: line.page, boundingBox: line.boundingBox, confidence: line.confidence },
+      fieldKey: null,
+    })),
+  ];
+
+  const matches: RedFlagMatch[] = [];
+  for (const rule of rules.filter((r) => r.enabled)) {
+    const pattern = compileRule(rule);
+    for (const { text: sourceText, value, source, fieldKey } of sources) {
+      const allergyEntry = rule.category === 'drug-allergy' && fieldKey === 'allergies' && value && !NO_ENTRY_PATTERN.test(value)
+        ? value
+        : null;
+      const matchedText = findMatchedText(sourceText, pattern) ?? allergyEntry;
+      const duplicate = matches.some((m) => m.ruleId === rule.id && m.sourceText === source.sourceText && m.page === source.page);
+      if (matchedText && !duplicate) {
+        matches.push({
+          ...source,
+          ruleId: rule.id,
+          label: rule.label,
+          category: rule.category,
+          severity: rule.severity,
+          matchedText,
+          fieldKey,
+        });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+}
+
+// 外部から受け取ったルール（設定画面の入力、ローカルストレージ）を検証
+export function validateRedFlagRule(value: unknown): RedFlagRule {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('ルールはオブジェクトである必要があります');
+  }
+  const rule = value as Record<string, unknown>;
+
+  if (typeof rule.id !== 'string' || !rule.id.trim()) {
+    throw new Error('ルールのIDを指定してください');
+  }
+  if (typeof rule.label !== 'string' || !rule.label.trim()) {
+    throw new Error('ルールの名前を入力してください');
+  }
+  if (typeof rule.category !== 'string' || !(rule.category in RED_FLAG_CATEGORY_LABELS)) {
+    throw new Error(`${rule.label}: 分類が不正です`);
+  }
+  if (!SEVERITIES.includes(rule.severity as RedFlagSeverity)) {
+    throw new Error(`${rule.label}: 重要度は ${SEVERITIES.join(' / ')} のいずれかである必要があります`);
+  }
+  if (!Array.isArray(rule.terms) || rule.terms.some((term) => typeof term !== 'string')) {
+    throw new Error(`${rule.label}: 語句は文字列の配列である必要があります`);
+  }
+  if (rule.pattern !== null && typeof rule.pattern !== 'string') {
+    throw new Error(`${rule.label}: 正規表現は文字列またはnullである必要があります`);
+  }
+
+  const terms = (rule.terms as string[]).map((term) => term.trim()).filter(Boolean);
+  const pattern = typeof rule.pattern === 'string' && rule.pattern.trim() ? rule.pattern.trim() : null;
+  if (terms.length === 0 && !pattern) {
+    throw new Error(`${rule.label}: 語句または正規表現を1つ以上指定してください`);
+  }
+  if (pattern) {
+    const unsafeReason = findUnsafePatternReason(pattern, MAX_RULE_PATTERN_LENGTH);
+    if (unsafeReason) {
+      throw new Error(`${rule.label}: ${unsafeReason}`);
+    }
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`${rule.label}: 正規表現が不正です（${error instanceof Error ? error.message : String(error)}）`);
+    }
+  }
+
+  return {
+    id: rule.id,
+    label: rule.label.trim(),
+    category: rule.category as RedFlagCategory,
+    severity: rule.severity as RedFlagSeverity,
+    terms,
+    pattern,
+    enabled: rule.enabled !== false,
+  };
+}
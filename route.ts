@@ -1,315 +1,358 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  validateFileType, 
-  normalizeAzureEndpoint, 
-  validateApiKey, 
-  extractStructuredData, 
-  humanizeErrorMessage, 
-  extractAzureErrorInfo 
-} from '../azure-utils';
+import { humanizeErrorMessage } from '../azure-utils';
+import { CANCELLED_MESSAGE, DEFAULT_POLL_TIMEOUT_MS } from '../azure-poller';
+import { GemmaConfig, getLlmBackend, isLlmBackendType } from '../../lib/llm-backend';
+import {
+  MedicalIntakeRecord,
+  buildIntakeJsonPrompt,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  flagLowConfidenceFields,
+  mergeIntakeRecords,
+  normalizeIntakeRecord,
+  parseIntakeRecordJson
+} from '../../lib/intake-record';
+import { renderKarteText } from '../../lib/karte-template';
+import { reviewMedications } from '../../lib/medication-dictionary';
+import { FormTemplate, applyFormTemplate, extractIntakeRecordWithTemplate, validateFormTemplate } from '../../lib/form-template';
+import { formatPageRange, parsePageRange } from '../../lib/page-range';
+import { OcrProvider, OcrProviderType, OcrResult, isOcrProviderType } from '../ocr-provider';
+import { createAzureOcrProvider } from '../azure-provider';
+import { AzureAnalyzeSettings, parseAzureAnalyzeSettings } from '../azure-api-versions';
+import { createTesseractOcrProvider } from '../tesseract-provider';
+import { checkPageLimit, getUploadLimits, readUploadRequest } from '../upload';
+import { JobStore, getJobStore, registerJobAbortController, unregisterJobAbortController } from '../job-store';
 
-// Azure Document Intelligence APIを呼び出す関数
-async function analyzeDocument(fileBase64: string, fileName: string, fileType: string, apiKey: string, endpoint: string, modelId: string) {
+// 問診票の構造化データを作成する関数
+// 問診票テンプレート、LLM（JSONモード）の出力、汎用の抽出の順に優先し、
+// LLMはテンプレートで読み取れなかった項目のみを補う
+async function buildIntakeRecord(
+  text: string,
+  structuredData: Record<string, unknown> | null,
+  config: GemmaConfig | null,
+  template: FormTemplate | null
+): Promise<MedicalIntakeRecord> {
+  const ruleRecord = extractIntakeRecordWithTemplate(structuredData, text, template);
+  
+  if (!config) {
+    return ruleRecord;
+  }
+  
   try {
-    // 入力の検証
-    if (!validateFileType(fileType)) {
-      throw new Error('サポートされていないファイル形式です');
-    }
-    
-    if (!validateApiKey(apiKey)) {
-      throw new Error('無効なAPIキーです');
-    }
-    
-    // モデルIDの検証
-    if (!modelId || modelId.trim() === '') {
-      modelId = 'prebuilt-layout'; // デフォルトモデルとしてprebuilt-layoutを使用
-    }
-    
-    // エンドポイントの正規化
-    const baseEndpoint = normalizeAzureEndpoint(endpoint);
-    const apiUrl = `${baseEndpoint}/documentintelligence/documentModels/${modelId}:analyze?api-version=2023-07-31`;
+    const output = await getLlmBackend(config).generate(buildIntakeJsonPrompt(text), config, { json: true });
+    const llmRecord = mergeIntakeRecords(parseIntakeRecordJson(output), ruleRecord);
+    return normalizeIntakeRecord(
+      template ? mergeIntakeRecords(applyFormTemplate(template, structuredData), llmRecord) : llmRecord
+    );
+  } catch (error) {
+    console.warn('LLMによる構造化に失敗したため、ルールベースの抽出結果を使用します:', error);
+    return ruleRecord;
+  }
+}
 
-    // Azure Document Intelligence APIにリクエスト
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Ocp-Apim-Subscription-Key': apiKey,
-      },
-      body: JSON.stringify({
-        base64Source: fileBase64
-      }),
-    });
+// ドキュメント処理ジョブのパラメータ
+interface ProcessingJobParams {
+  fileBytes: Buffer;
+  fileName: string;
+  fileType: string;
+  azureApiKey: string;
+  azureEndpoint: string;
+  modelId: string;
+  // Azureのバージョン・追加機能・出力形式
+  azureAnalyzeSettings: AzureAnalyzeSettings;
+  gemmaConfig: GemmaConfig | null;
+  // 選択された問診票テンプレート
+  formTemplate: FormTemplate | null;
+  // この値未満の信頼度で読み取ったフィールドを要確認にする
+  confidenceThreshold: number;
+  // キャッシュを使わずにOCRを再実行する
+  forceOcr: boolean;
+  // 分析するページ（nullの場合はすべて）
+  pages: string | null;
+  ocrProvider: OcrProviderType;
+  // Azureで分析できなかった場合にTesseractで分析し直す
+  ocrFallback: boolean;
+  signal: AbortSignal;
+}
 
-    if (!response.ok) {
-      let errorBody = {};
-      try {
-        errorBody = await response.json();
-      } catch {
-        // JSONでない場合はスキップ
-      }
-      
-      const errorMessage = extractAzureErrorInfo(response, errorBody as Record<string, unknown>);
-      throw new Error(errorMessage);
-    }
+// リクエストで受け取る処理の設定
+interface ProcessingRequestSettings {
+  azureApiKey?: string;
+  azureEndpoint?: string;
+  modelId?: string;
+  azureApiVersion?: unknown;
+  azureFeatures?: unknown;
+  azureOutputContentFormat?: unknown;
+  gemmaModelPath?: string;
+  gemmaModel?: string;
+  gemmaBaseUrl?: string;
+  gemmaTimeoutMs?: unknown;
+  gemmaBackend?: unknown;
+  confidenceThreshold?: unknown;
+  formTemplate?: unknown;
+  forceOcr?: unknown;
+  pages?: unknown;
+  ocrProvider?: unknown;
+  ocrFallback?: unknown;
+}
 
-    // 非同期操作の結果を取得するためのURLを取得
-    await response.json();
-    const operationLocation = response.headers.get('Operation-Location');
-    
-    if (!operationLocation) {
-      throw new Error('Operation-Locationヘッダーが見つかりません');
-    }
+// Azureの分析を待機する合計時間（環境変数で変更可能）
+const POLL_TIMEOUT_MS = Number(process.env.AZURE_POLL_TIMEOUT_MS) || DEFAULT_POLL_TIMEOUT_MS;
 
-    // 結果が準備できるまで待機
-    let analysisResult = null;
-    let attempts = 0;
-    const maxAttempts = 10;
-    
-    while (attempts < maxAttempts) {
-      attempts++;
-      
-      // 少し待機
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // 結果を取得
-      const statusResponse = await fetch(operationLocation, {
-        method: 'GET',
-        headers: {
-          'Ocp-Apim-Subscription-Key': apiKey,
-        },
+// 設定に応じたOCRプロバイダーを作成
+function createOcrProvider(type: OcrProviderType, params: ProcessingJobParams): OcrProvider {
+  return type === 'tesseract'
+    ? createTesseractOcrProvider()
+    : createAzureOcrProvider({
+        apiKey: params.azureApiKey,
+        endpoint: params.azureEndpoint,
+        modelId: params.modelId,
+        analyzeSettings: params.azureAnalyzeSettings,
       });
-      
-      if (!statusResponse.ok) {
-        let errorBody = {};
-        try {
-          errorBody = await statusResponse.json();
-        } catch {
-          // JSONでない場合はスキップ
-        }
-        
-        const errorMessage = extractAzureErrorInfo(statusResponse, errorBody as Record<string, unknown>);
-        throw new Error(errorMessage);
-      }
-      
-      const statusResult = await statusResponse.json();
-      
-      if (statusResult.status === 'succeeded') {
-        analysisResult = statusResult;
-        break;
-      } else if (statusResult.status === 'failed') {
-        throw new Error(`分析に失敗しました: ${JSON.stringify(statusResult.errors)}`);
-      }
-      
-      // まだ処理中の場合は続行
-    }
-    
-    if (!analysisResult) {
-      throw new Error('タイムアウト: ドキュメント分析の完了を待機できませんでした');
+}
+
+// OCRを実行し、Azureが失敗した場合は設定に応じてTesseractで分析し直す
+async function runOcr(
+  store: JobStore,
+  jobId: string,
+  params: ProcessingJobParams
+): Promise<{ result: OcrResult; provider: OcrProviderType }> {
+  const input = {
+    bytes: params.fileBytes,
+    fileName: params.fileName,
+    fileType: params.fileType,
+    pages: params.pages || undefined,
+  };
+  const options = {
+    signal: params.signal,
+    timeoutMs: POLL_TIMEOUT_MS,
+    forceRefresh: params.forceOcr,
+    onPoll: async (attempt: number, status: string, elapsedMs: number, timeoutMs: number) => {
+      await store.appendEvent(
+        jobId,
+        { type: 'azure-status', attempt, status, elapsedMs, timeoutMs },
+        { progress: 10 + Math.min(60, Math.round((elapsedMs / timeoutMs) * 60)) }
+      );
+    },
+  };
+  
+  try {
+    return { result: await createOcrProvider(params.ocrProvider, params).analyze(input, options), provider: params.ocrProvider };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (params.ocrProvider !== 'azure' || !params.ocrFallback || params.signal.aborted || message === CANCELLED_MESSAGE) {
+      throw error;
     }
     
-    // 結果からテキストを抽出
-    const extractedText = extractTextFromAnalysisResult(analysisResult);
-    
-    // 構造化データも抽出（将来の拡張用）
-    const structuredData = extractStructuredData(analysisResult);
-    
-    return {
-      success: true,
-      content: extractedText,
-      structuredData: structuredData,
-    };
-  } catch (error) {
-    console.error('Azure Document Intelligence APIエラー:', error);
-    return {
-      success: false,
-      error: humanizeErrorMessage(error),
-    };
+    console.warn('Azureで分析できなかったため、Tesseractで分析します:', message);
+    await store.appendEvent(jobId, { type: 'ocr-fallback', provider: 'tesseract', reason: message }, { progress: 40 });
+    return { result: await createOcrProvider('tesseract', params).analyze(input, options), provider: 'tesseract' };
   }
 }
 
-// 分析結果からテキストを抽出する関数
-function extractTextFromAnalysisResult(result: Record<string, unknown>): string {
+// OCRと整形を実行し、各段階の進捗をジョブストアに記録する
+async function runProcessingJob(store: JobStore, jobId: string, params: ProcessingJobParams) {
   try {
-    // ページごとのテキストを抽出
-    const analyzeResult = result.analyzeResult as Record<string, unknown> | undefined;
-    const pages = (analyzeResult?.pages || []) as Array<Record<string, unknown>>;
-    let extractedText = '';
+    await store.update(jobId, { stage: 'ocr-running', progress: 10 });
     
-    for (const page of pages) {
-      const pageNumber = page.pageNumber;
-      extractedText += `===== ページ ${pageNumber} =====\n\n`;
-      
-      // ページ内の行を抽出
-      const lines = (page.lines || []) as Array<Record<string, unknown>>;
-      for (const line of lines) {
-        extractedText += `${line.content}\n`;
-      }
-      
-      extractedText += '\n';
-    }
+    // 選択したプロバイダーでOCRを実行（Azureは経過時間に応じて10〜70%の進捗を記録）
+    const { result: analysisResult, provider } = await runOcr(store, jobId, params);
     
-    // テーブルがある場合は抽出
-    const tables = (analyzeResult?.tables || []) as Array<Record<string, unknown>>;
-    if (tables.length > 0) {
-      extractedText += '===== テーブル =====\n\n';
-      
-      for (let i = 0; i < tables.length; i++) {
-        const table = tables[i];
-        extractedText += `テーブル ${i + 1}:\n`;
-        
-        // テーブルの行と列を処理
-        const cells = (table.cells || []) as Array<Record<string, unknown>>;
-        const rowCount = table.rowCount as number || 0;
-        const columnCount = table.columnCount as number || 0;
-        
-        // 2次元配列としてテーブルを再構築
-        const tableData: string[][] = Array(rowCount).fill(null).map(() => Array(columnCount).fill(''));
-        
-        for (const cell of cells) {
-          const rowIndex = cell.rowIndex as number;
-          const columnIndex = cell.columnIndex as number;
-          tableData[rowIndex][columnIndex] = cell.content as string || '';
-        }
-        
-        // テーブルデータを文字列に変換
-        for (const row of tableData) {
-          extractedText += row.join(' | ') + '\n';
-        }
-        
-        extractedText += '\n';
-      }
+    if (params.signal.aborted) {
+      throw new Error(CANCELLED_MESSAGE);
     }
     
-    // キーと値のペアがある場合は抽出
-    const keyValuePairs = (analyzeResult?.keyValuePairs || []) as Array<Record<string, unknown>>;
-    if (keyValuePairs.length > 0) {
-      extractedText += '===== フォームフィールド =====\n\n';
-      
-      for (const pair of keyValuePairs) {
-        const key = ((pair.key as Record<string, unknown>)?.content as string) || '不明なフィールド';
-        const value = ((pair.value as Record<string, unknown>)?.content as string) || '';
-        extractedText += `${key}: ${value}\n`;
-      }
-      
-      extractedText += '\n';
+    if (analysisResult.cached) {
+      await store.appendEvent(jobId, { type: 'cache-hit' }, { progress: 70 });
     }
     
-    return extractedText.trim();
-  } catch (error) {
-    console.error('テキスト抽出エラー:', error);
-    return '結果からテキストを抽出できませんでした';
-  }
-}
-
-// Gemma LLMを使用してテキストを整形する関数（モックバージョン）
-// 実際の実装では、ローカルのGemma LLMを呼び出す処理を実装
-function formatTextWithGemma(text: string): string {
-  // 現時点ではモック実装
-  // 実際の実装では、Node.jsからローカルのGemma LLMを呼び出す処理を実装
-  
-  // 問診票の内容を構造化
-  const lines = text.split('\n');
-  let formattedText = '【問診票情報】\n';
-  
-  // 簡易的な整形処理（実際にはGemma LLMで行う）
-  const currentSection = '';
-  
-  for (const line of lines) {
-    // ページ区切りは無視
-    if (line.startsWith('===== ページ') || line.startsWith('===== テーブル') || line.startsWith('===== フォームフィールド') || line.trim() === '') {
-      continue;
-    }
+    const pages = (analysisResult.structuredData?.pages || []) as unknown[];
+    await store.appendEvent(jobId, { type: 'pages-analyzed', pageCount: pages.length }, { progress: 75 });
+    await store.appendEvent(jobId, { type: 'formatting-started' }, { stage: 'formatting', progress: 80 });
     
-    // セクション見出しっぽい行を検出
-    if (line.includes('：') || line.includes(':')) {
-      const parts = line.split(/[：:]/);
-      if (parts.length >= 2) {
-        const key = parts[0].trim();
-        const value = parts.slice(1).join(':').trim();
-        
-        // キーが存在し、値も存在する場合
-        if (key && value) {
-          formattedText += `・${key}: ${value}\n`;
-          continue;
-        }
-      }
-    }
+    // 抽出されたテキストから構造化データを作成
+    const extractedText = analysisResult.content || '';
+    const structuredData = analysisResult.structuredData || null;
+    const intakeRecord = flagLowConfidenceFields(
+      await buildIntakeRecord(extractedText, structuredData, params.gemmaConfig, params.formTemplate),
+      params.confidenceThreshold,
+      structuredData
+    );
     
-    // その他の行はそのまま追加
-    if (line.trim()) {
-      formattedText += `${line}\n`;
-    }
+    await store.appendEvent(jobId, { type: 'result-ready' }, {
+      stage: 'done',
+      progress: 100,
+      result: {
+        content: extractedText,
+        formattedContent: renderKarteText(intakeRecord),
+        intakeRecord,
+        medicationReview: reviewMedications(intakeRecord.medications.map((field) => field.value)),
+        structuredData,
+        cached: analysisResult.cached,
+        ocrProvider: provider,
+      },
+    });
+  } catch (error) {
+    console.error('ジョブ処理エラー:', error);
+    const message = humanizeErrorMessage(error);
+    await store.appendEvent(jobId, { type: 'failed', error: message }, { stage: 'failed', error: message });
+  } finally {
+    unregisterJobAbortController(jobId);
   }
-  
-  // カルテ用のフォーマットに整形
-  formattedText += '\n【カルテ用メモ】\n';
-  formattedText += '上記問診票の内容から、以下の点に注意して診察を行うこと。\n';
-  formattedText += '※このセクションは実際のGemma LLMによる生成で置き換えられます。\n';
-  
-  return formattedText;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    // リクエストボディを取得
-    const body = await request.json();
+    // ファイルと設定を読み込み、実際の形式とサイズを検証
+    const limits = getUploadLimits();
+    const upload = await readUploadRequest(request, limits);
+    if (!upload.success) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+    
+    const { bytes: fileBytes, fileName, fileType } = upload.document;
     const { 
-      fileBase64, 
-      fileName, 
-      fileType, 
       azureApiKey, 
       azureEndpoint,
       modelId,
-      gemmaModelPath
-    } = body;
+      azureApiVersion,
+      azureFeatures,
+      azureOutputContentFormat,
+      gemmaModelPath,
+      gemmaModel,
+      gemmaBaseUrl,
+      gemmaTimeoutMs,
+      gemmaBackend,
+      confidenceThreshold,
+      formTemplate,
+      forceOcr,
+      pages,
+      ocrProvider,
+      ocrFallback
+    } = upload.document.settings as ProcessingRequestSettings;
     
-    // 必須パラメータの検証
-    if (!fileBase64 || !fileName || !fileType) {
+    const providerType: OcrProviderType = isOcrProviderType(ocrProvider) ? ocrProvider : 'azure';
+    
+    // Tesseractのみで分析する場合はAzureの設定は不要
+    if (providerType === 'azure' && (!azureApiKey || !azureEndpoint)) {
       return NextResponse.json(
-        { error: 'ファイル情報が不足しています' },
+        { error: 'Azure APIキーとエンドポイントが必要です' },
         { status: 400 }
       );
     }
     
-    if (!azureApiKey || !azureEndpoint) {
+    // APIバージョンと、そのバージョンで使用できる追加機能・出力形式かを検証
+    let azureAnalyzeSettings: AzureAnalyzeSettings;
+    try {
+      azureAnalyzeSettings = parseAzureAnalyzeSettings({
+        apiVersion: azureApiVersion,
+        features: azureFeatures,
+        outputContentFormat: azureOutputContentFormat,
+        modelId,
+      });
+    } catch (error) {
       return NextResponse.json(
-        { error: 'Azure APIキーとエンドポイントが必要です' },
+        { error: error instanceof Error ? error.message : String(error) },
         { status: 400 }
       );
     }
     
-    // Azure Document Intelligence APIを呼び出し
-    const analysisResult = await analyzeDocument(
-      fileBase64,
-      fileName,
-      fileType,
-      azureApiKey,
-      azureEndpoint,
-      modelId || 'prebuilt-layout' // デフォルトモデルとしてprebuilt-layoutを使用
-    );
+    // 問診票テンプレートが指定されている場合は形式を検証
+    let template: FormTemplate | null = null;
+    if (formTemplate) {
+      try {
+        template = validateFormTemplate(formTemplate);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `問診票テンプレートが不正です: ${error instanceof Error ? error.message : String(error)}` },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // 分析するページが指定されている場合は形式とページ数の上限を検証し、正規化した範囲をAzureに渡す
+    let pageRange: string | null = null;
+    if (pages) {
+      try {
+        pageRange = formatPageRange(parsePageRange(String(pages), limits.maxPages));
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
     
-    if (!analysisResult.success) {
+    // PDFのページ数が上限を超えている場合は分析しない
+    const pageLimitError = await checkPageLimit(upload.document, pageRange, limits.maxPages);
+    if (pageLimitError) {
       return NextResponse.json(
-        { error: analysisResult.error },
-        { status: 500 }
+        { error: pageLimitError },
+        { status: 413 }
       );
     }
     
-    // 抽出されたテキストを取得
-    const extractedText = analysisResult.content;
-    
-    // Gemma LLMでテキストを整形（モデルパスが指定されている場合）
-    let formattedContent = null;
-    if (gemmaModelPath && extractedText) {
-      formattedContent = formatTextWithGemma(extractedText);
+    // LLMのバックエンドが指定されている場合は対応している種類か検証
+    if (gemmaBackend !== undefined && gemmaBackend !== '' && !isLlmBackendType(gemmaBackend)) {
+      return NextResponse.json(
+        { error: `サポートされていないLLMバックエンドです: ${String(gemmaBackend)}` },
+        { status: 400 }
+      );
     }
     
-    // 結果を返す
-    return NextResponse.json({
-      content: extractedText,
-      formattedContent: formattedContent,
+    // モデルまたはサーバーURLが指定されている場合はGemma LLMを使用
+    const gemmaConfig: GemmaConfig | null = gemmaModelPath || gemmaModel || gemmaBaseUrl
+      ? {
+          modelPath: gemmaModelPath || '',
+          model: gemmaModel || undefined,
+          baseUrl: gemmaBaseUrl || undefined,
+          timeoutMs: typeof gemmaTimeoutMs === 'number' && gemmaTimeoutMs > 0 ? gemmaTimeoutMs : undefined,
+          backend: isLlmBackendType(gemmaBackend) ? gemmaBackend : undefined,
+          temperature: 0.2,
+          maxTokens: 1000,
+        }
+      : null;
+    
+    // ジョブを作成し、処理はレスポンスを返した後もバックグラウンドで継続
+    const store = getJobStore();
+    const job = await store.create();
+    await store.appendEvent(job.id, { type: 'upload-accepted', fileName });
+    
+    // DELETE /api/jobs/:id でキャンセルできるようにする
+    const abortController = new AbortController();
+    registerJobAbortController(job.id, abortController);
+    
+    void runProcessingJob(store, job.id, {
+      fileBytes,
+      fileName,
+      fileType,
+      azureApiKey: azureApiKey || '',
+      azureEndpoint: azureEndpoint || '',
+      modelId: modelId || 'prebuilt-layout', // デフォルトモデルとしてprebuilt-layoutを使用
+      azureAnalyzeSettings,
+      gemmaConfig,
+      formTemplate: template,
+      forceOcr: forceOcr === true,
+      pages: pageRange,
+      ocrProvider: providerType,
+      ocrFallback: ocrFallback === true,
+      confidenceThreshold: typeof confidenceThreshold === 'number' ? confidenceThreshold : DEFAULT_CONFIDENCE_THRESHOLD,
+      signal: abortController.signal,
+    }).catch(async (error) => {
+      // 失敗の記録（ジョブストアへの書き込み）にも失敗した場合も、ジョブを失敗として終わらせる
+      console.error('ジョブの失敗を記録できませんでした:', error);
+      const message = humanizeErrorMessage(error);
+      await store.update(job.id, { stage: 'failed', error: message }).catch((updateError) => {
+        console.error('ジョブの状態を更新できませんでした:', updateError);
+      });
     });
+    
+    return NextResponse.json(
+      { jobId: job.id, stage: job.stage },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('APIエラー:', error);
     return NextResponse.json(
@@ -0,0 +1,19 @@
+// 利用者が入力した正規表現（問診票テンプレート、見落とし防止のルール）の安全性の検証
+// OCRの各行・表の各セルに対して実行するため、処理が終わらなくなるパターンを受け付けない
+
+// 正規表現の長さの上限のデフォルト
+export const MAX_PATTERN_LENGTH = 200;
+
+// 量指定子を含むグループにさらに量指定子が付いたパターン（(a+)+ など、バックトラッキングで処理が終わらなくなる）
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)\s*(?:[+*]|\{\d+,\d*\})/;
+
+// 受け付けられない理由を返す（問題がなければnull）
+export function findUnsafePatternReason(pattern: string, maxLength = MAX_PATTERN_LENGTH): string | null {
+  if (pattern.length > maxLength) {
+    return `正規表現が長すぎます（${maxLength}文字まで）`;
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    return '正規表現に入れ子の繰り返しは使用できません';
+  }
+  return null;
+}
@@ -0,0 +1,178 @@
+// チェックボックス（選択マーク）を近くのラベルや表のセルと対応付けるユーティリティ関数
+
+// ラベルと対応付けた選択マーク
+export interface SelectionMarkData {
+  pageNumber: number;
+  checked: boolean;
+  confidence: number | null;
+  boundingBox: number[] | null;
+  // マークの選択肢（例: 高血圧、はい）
+  label: string;
+  // マークが属する質問（例: 既往歴、喫煙）
+  question: string;
+}
+
+// 多角形を囲む矩形
+export interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// OCRのテキストに含まれる選択マークの記号
+const MARK_TOKEN_PATTERN = /:(un)?selected:/g;
+
+// 多角形（[x1, y1, x2, y2, ...]）を囲む矩形にする（頂点が4つ未満の場合はnull）
+export function toBox(polygon: unknown): Box | null {
+  if (!Array.isArray(polygon) || polygon.length < 8) {
+    return null;
+  }
+  const xs = polygon.filter((_, i) => i % 2 === 0) as number[];
+  const ys = polygon.filter((_, i) => i % 2 === 1) as number[];
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys),
+  };
+}
+
+function overlapsVertically(a: Box, b: Box): boolean {
+  return a.top < b.bottom && a.bottom > b.top;
+}
+
+function contains(box: Box, x: number, y: number): boolean {
+  return x >= box.left && x <= box.right && y >= box.top && y <= box.bottom;
+}
+
+// ラベルから選択マークの記号や記入欄の記号を取り除く
+export function cleanSelectionLabel(text: string): string {
+  return text
+    .replace(MARK_TOKEN_PATTERN, '')
+    .replace(/[□■☐☑☒✓✔]/g, '')
+    .replace(/[：:]\s*$/, '')
+    .trim();
+}
+
+// 表のセルの中にあるマークを、セルの内容と行・列の見出しで対応付ける
+function associateWithTableCell(
+  center: { x: number; y: number },
+  pageNumber: number,
+  tables: Array<Record<string, unknown>>
+): { label: string; question: string } | null {
+  for (const table of tables) {
+    const cells = (table.cells || []) as Array<Record<string, unknown>>;
+
+    for (const cell of cells) {
+      const region = (cell.boundingRegions as Array<Record<string, unknown>> | undefined)?.[0];
+      const box = toBox(region?.polygon);
+      if (!box || region?.pageNumber !== pageNumber || !contains(box, center.x, center.y)) continue;
+
+      const rowHeader = cells.find((c) => c.rowIndex === cell.rowIndex && c.columnIndex === 0);
+      const columnHeader = cells.find((c) => c.rowIndex === 0 && c.columnIndex === cell.columnIndex);
+      const cellLabel = cleanSelectionLabel(String(cell.content || ''));
+      const rowLabel = cell.columnIndex === 0 ? '' : cleanSelectionLabel(String(rowHeader?.content || ''));
+      const columnLabel = cell.rowIndex === 0 ? '' : cleanSelectionLabel(String(columnHeader?.content || ''));
+
+      // マークだけのセルは列見出しを選択肢、行見出しを質問とする（例: 頭痛 | はい☑ | いいえ☐）
+      if (!cellLabel) {
+        return { label: columnLabel, question: rowLabel };
+      }
+      return { label: cellLabel, question: rowLabel || columnLabel };
+    }
+  }
+
+  return null;
+}
+
+// ページ内の選択マークを近くのラベル（右側の単語）と質問（同じ行の左側、または上の行）に対応付ける
+export function associateSelectionMarks(
+  page: Record<string, unknown>,
+  tables: Array<Record<string, unknown>> = []
+): SelectionMarkData[] {
+  const pageNumber = Number(page.pageNumber) || 1;
+  const marks = ((page.selectionMarks || []) as Array<Record<string, unknown>>)
+    .map((mark) => ({ mark, box: toBox(mark.polygon || mark.boundingBox) }))
+    .filter((item): item is { mark: Record<string, unknown>; box: Box } => item.box !== null);
+
+  // 単語がない場合（古いAPIバージョンなど）は行を単語として扱う
+  const rawWords = ((page.words || page.lines || []) as Array<Record<string, unknown>>);
+  const words = rawWords
+    .map((word) => ({ content: cleanSelectionLabel(String(word.content || '')), box: toBox(word.polygon || word.boundingBox) }))
+    .filter((word): word is { content: string; box: Box } => word.box !== null && word.content !== '');
+  const lines = ((page.lines || []) as Array<Record<string, unknown>>)
+    .map((line) => ({ content: cleanSelectionLabel(String(line.content || '')), box: toBox(line.polygon || line.boundingBox) }))
+    .filter((line): line is { content: string; box: Box } => line.box !== null && line.content !== '');
+
+  return marks.map(({ mark, box }) => {
+    const center = { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 };
+    const markWidth = box.right - box.left;
+    const base = {
+      pageNumber,
+      checked: mark.state === 'selected',
+      confidence: typeof mark.confidence === 'number' ? mark.confidence : null,
+      boundingBox: (mark.polygon || mark.boundingBox || null) as number[] | null,
+    };
+
+    const tableMatch = associateWithTableCell(center, pageNumber, tables);
+    if (tableMatch) {
+      return { ...base, ...tableMatch };
+    }
+
+    // 同じ行にある他のマーク（ラベルの終わりを判定するため）
+    const rowMarks = marks.filter((other) => overlapsVertically(other.box, box));
+    const nextMarkLeft = Math.min(
+      ...rowMarks.filter((other) => other.box.left > box.right).map((other) => other.box.left),
+      Infinity
+    );
+
+    // マークの右側にある単語を、次のマークか大きな空白までラベルとしてつなげる
+    const rowWords = words
+      .filter((word) => overlapsVertically(word.box, box))
+      .sort((a, b) => a.box.left - b.box.left);
+    let label = '';
+    let cursor = box.right;
+    for (const word of rowWords) {
+      if (word.box.left < box.right - markWidth / 2 || word.box.left >= nextMarkLeft) continue;
+      if (word.box.left - cursor > markWidth * 1.5) break;
+      label += word.content;
+      cursor = word.box.right;
+    }
+
+    // 行の最初のマークより左側の単語を質問とする
+    const firstMarkLeft = Math.min(...rowMarks.map((other) => other.box.left));
+    let question = rowWords
+      .filter((word) => word.box.right <= firstMarkLeft + markWidth / 2)
+      .map((word) => word.content)
+      .join('');
+
+    // 同じ行に質問がない場合は、すぐ上の行を質問とする
+    if (!question) {
+      const above = lines
+        .filter((line) => line.box.bottom <= box.top + markWidth / 2 && box.top - line.box.bottom < markWidth * 4)
+        .sort((a, b) => b.box.bottom - a.box.bottom)[0];
+      question = above?.content || '';
+    }
+
+    return { ...base, label, question: cleanSelectionLabel(question) };
+  });
+}
+
+// 質問ごとに選択肢をまとめる
+export function groupSelectionMarks(marks: SelectionMarkData[]): Array<{
+  question: string;
+  pageNumber: number;
+  options: SelectionMarkData[];
+}> {
+  const groups = new Map<string, { question: string; pageNumber: number; options: SelectionMarkData[] }>();
+
+  for (const mark of marks) {
+    const key = `${mark.pageNumber}:${mark.question}`;
+    const group = groups.get(key) || { question: mark.question, pageNumber: mark.pageNumber, options: [] };
+    group.options.push(mark);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values());
+}
@@ -0,0 +1,24 @@
+// 偽のAzure Document Intelligenceを起動し、Azureのキーなしで画面から処理を試せるようにする
+// 使い方: npx tsx tests/serve-fake-document-intelligence.ts [分析結果のJSONファイル]
+// 画面の設定でエンドポイントに表示されたURL、APIキーにFAKE_API_KEYを入力する
+
+import { readFileSync } from 'node:fs';
+import { FAKE_API_KEY, startFakeDocumentIntelligence } from './fake-document-intelligence';
+import internalMedicineIntake from './fixtures/internal-medicine-intake.json';
+
+async function main() {
+  const resultPath = process.argv[2];
+  const result = resultPath ? JSON.parse(readFileSync(resultPath, 'utf8')) : internalMedicineIntake;
+  const fake = await startFakeDocumentIntelligence({ port: Number(process.env.FAKE_AZURE_PORT) || 4010 });
+
+  // 実際のAzureと同じように、数回runningを返してから完了する
+  fake.useScenarios({ runningPolls: 2, retryAfterSeconds: 1, outcome: { status: 'succeeded', result } });
+
+  console.log(`偽のAzure Document Intelligenceを起動しました: ${fake.endpoint}`);
+  console.log(`APIキー: ${FAKE_API_KEY}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
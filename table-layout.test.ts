@@ -0,0 +1,109 @@
+// 結合セル・見出し行を考慮した表の再構成のテスト
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildTableLayout,
+  buildTableRecords,
+  formatTableRecord,
+  getColumnHeaders,
+  renderTableHtml,
+  renderTableMarkdown
+} from '../app/lib/table-layout';
+import { extractStructuredData, extractTextFromAnalysisResult } from '../app/api/azure-utils';
+
+// 「症状」の見出しが2列、「経過」が2行にまたがり、「頭痛」が2行にまたがる表
+//   | 症状        | 経過 |
+//   | 部位 | 程度 |      |
+//   | 頭痛 | 強い | 3日前 |
+//   |      | 弱い | 1週間前 |
+const MERGED_TABLE = {
+  rowCount: 4,
+  columnCount: 3,
+  cells: [
+    { kind: 'columnHeader', rowIndex: 0, columnIndex: 0, columnSpan: 2, content: '症状' },
+    { kind: 'columnHeader', rowIndex: 0, columnIndex: 2, rowSpan: 2, content: '経過' },
+    { kind: 'columnHeader', rowIndex: 1, columnIndex: 0, content: '部位' },
+    { kind: 'columnHeader', rowIndex: 1, columnIndex: 1, content: '程度' },
+    { rowIndex: 2, columnIndex: 0, rowSpan: 2, content: '頭痛', boundingRegions: [{ pageNumber: 2, polygon: [0, 0, 1, 0, 1, 1, 0, 1] }] },
+    { rowIndex: 2, columnIndex: 1, content: '強い' },
+    { rowIndex: 2, columnIndex: 2, content: '3日前' },
+    { rowIndex: 3, columnIndex: 1, content: '弱い' },
+    { rowIndex: 3, columnIndex: 2, content: '1週間前' },
+  ],
+};
+
+describe('buildTableLayout', () => {
+  it('結合セルを覆うすべての位置に展開し、見出し行を判定する', () => {
+    const layout = buildTableLayout(MERGED_TABLE);
+
+    assert.equal(layout.headerRowCount, 2);
+    assert.equal(layout.grid[3][0]?.content, '頭痛');
+    assert.equal(layout.grid[3][0]?.page, 2);
+    assert.deepEqual(getColumnHeaders(layout), ['症状 部位', '症状 程度', '経過']);
+  });
+
+  it('見出しのない表は1行目を見出しとし、選択マークを記号にする', () => {
+    const layout = buildTableLayout({
+      rowCount: 2,
+      columnCount: 2,
+      cells: [
+        { rowIndex: 0, columnIndex: 0, content: '喫煙' },
+        { rowIndex: 0, columnIndex: 1, content: 'あり' },
+        { rowIndex: 1, columnIndex: 0, content: 'はい' },
+        { rowIndex: 1, columnIndex: 1, content: ':selected:' },
+      ],
+    });
+
+    assert.equal(layout.headerRowCount, 1);
+    assert.deepEqual(buildTableRecords(layout).map(formatTableRecord), ['喫煙: はい / あり: ☑']);
+  });
+});
+
+describe('表の出力', () => {
+  const layout = buildTableLayout(MERGED_TABLE);
+
+  it('Markdownの表にする', () => {
+    assert.equal(renderTableMarkdown(layout), [
+      '| 症状 部位 | 症状 程度 | 経過 |',
+      '| --- | --- | --- |',
+      '| 頭痛 | 強い | 3日前 |',
+      '| 頭痛 | 弱い | 1週間前 |',
+    ].join('\n'));
+  });
+
+  it('HTMLの表にし、結合セルをrowspan/colspanで出力する', () => {
+    const html = renderTableHtml(layout);
+
+    assert.match(html, /<thead>\n {4}<tr><th colspan="2">症状<\/th><th rowspan="2">経過<\/th><\/tr>\n {4}<tr><th>部位<\/th><th>程度<\/th><\/tr>\n {2}<\/thead>/);
+    assert.match(html, /<tr><td rowspan="2">頭痛<\/td><td>強い<\/td><td>3日前<\/td><\/tr>\n {4}<tr><td>弱い<\/td><td>1週間前<\/td><\/tr>/);
+  });
+
+  it('行ごとの記録にする', () => {
+    assert.deepEqual(buildTableRecords(layout).map(formatTableRecord), [
+      '症状 部位: 頭痛 / 症状 程度: 強い / 経過: 3日前',
+      '症状 部位: 頭痛 / 症状 程度: 弱い / 経過: 1週間前',
+    ]);
+  });
+});
+
+describe('分析結果からの抽出', () => {
+  const analysisResult = { analyzeResult: { pages: [], tables: [MERGED_TABLE] } };
+
+  it('抽出したテキストに表を行ごとの記録として出力する', () => {
+    assert.equal(extractTextFromAnalysisResult(analysisResult), [
+      '===== テーブル =====',
+      '',
+      'テーブル 1:',
+      '症状 部位: 頭痛 / 症状 程度: 強い / 経過: 3日前',
+      '症状 部位: 頭痛 / 症状 程度: 弱い / 経過: 1週間前',
+    ].join('\n'));
+  });
+
+  it('構造化データのセルの種類から同じ表を再構成できる', () => {
+    const structuredData = extractStructuredData(analysisResult);
+    const tables = (structuredData?.tables || []) as Array<Record<string, unknown>>;
+
+    assert.deepEqual(buildTableLayout(tables[0]), buildTableLayout(MERGED_TABLE));
+  });
+});
@@ -0,0 +1,199 @@
+// Azureの分析結果の表を、結合セル（rowSpan/columnSpan）と見出し行を考慮して再構成する関数
+// Markdown・HTMLの表と、「症状: 頭痛 / いつから: 3日前」のような行ごとの記録に変換する
+
+// 表のセル（分析結果のcells、extractStructuredDataのtables[].cellsのどちらからも作成できる）
+export interface TableCell {
+  rowIndex: number;
+  columnIndex: number;
+  rowSpan: number;
+  columnSpan: number;
+  content: string;
+  // columnHeader / rowHeader / stubHead / content など（v2.1のAPIではnull）
+  kind: string | null;
+  page: number | null;
+  boundingBox: number[] | null;
+}
+
+// 再構成した表
+export interface TableLayout {
+  rowCount: number;
+  columnCount: number;
+  cells: TableCell[];
+  // 各位置を占めるセル（結合セルはすべての位置に同じセルが入る）
+  grid: Array<Array<TableCell | null>>;
+  // 見出しとして扱う先頭の行数
+  headerRowCount: number;
+}
+
+// 行ごとの記録の1項目（列の見出しと値）
+export interface TableRecordEntry {
+  key: string;
+  value: string;
+  cell: TableCell;
+}
+
+const HEADER_KINDS = ['columnHeader', 'stubHead'];
+
+// セルの選択マークを記号にする
+function formatCellContent(content: string): string {
+  return content
+    .replace(/:selected:/g, '☑')
+    .replace(/:unselected:/g, '☐')
+    .replace(/\s*\n\s*/g, ' ')
+    .trim();
+}
+
+function readTableCells(table: Record<string, unknown>): TableCell[] {
+  return ((table.cells || []) as Array<Record<string, unknown>>)
+    .filter((cell) => typeof cell.rowIndex === 'number' && typeof cell.columnIndex === 'number')
+    .map((cell) => {
+      const region = (cell.boundingRegions as Array<Record<string, unknown>> | undefined)?.[0];
+      const boundingBox = region?.polygon || cell.boundingBox;
+      const page = region?.pageNumber ?? cell.pageNumber;
+      return {
+        rowIndex: cell.rowIndex as number,
+        columnIndex: cell.columnIndex as number,
+        rowSpan: typeof cell.rowSpan === 'number' && cell.rowSpan > 0 ? cell.rowSpan : 1,
+        columnSpan: typeof cell.columnSpan === 'number' && cell.columnSpan > 0 ? cell.columnSpan : 1,
+        content: formatCellContent(String(cell.content || '')),
+        kind: typeof cell.kind === 'string' ? cell.kind : null,
+        page: typeof page === 'number' ? page : null,
+        boundingBox: Array.isArray(boundingBox) ? boundingBox as number[] : null,
+      };
+    })
+    .sort((a, b) => a.rowIndex - b.rowIndex || a.columnIndex - b.columnIndex);
+}
+
+// 先頭から、見出しのセルだけで始まる行の数を求める（結合した見出しが覆う行も含む）
+function countHeaderRows(cells: TableCell[], rowCount: number): number {
+  let headerRowCount = 0;
+
+  for (let row = 0; row < rowCount; row++) {
+    const starting = cells.filter((cell) => cell.rowIndex === row);
+    if (starting.length === 0 && row < headerRowCount) {
+      continue;
+    }
+    if (starting.length === 0 || starting.some((cell) => !HEADER_KINDS.includes(cell.kind || ''))) {
+      break;
+    }
+    headerRowCount = Math.max(headerRowCount, ...starting.map((cell) => cell.rowIndex + cell.rowSpan));
+  }
+
+  return Math.min(headerRowCount, rowCount);
+}
+
+// 表を再構成（見出し行が判定できない2行以上の表は、1行目を見出しとして扱う）
+export function buildTableLayout(table: Record<string, unknown>): TableLayout {
+  const cells = readTableCells(table);
+  const rowCount = Math.max(
+    typeof table.rowCount === 'number' ? table.rowCount : 0,
+    ...cells.map((cell) => cell.rowIndex + cell.rowSpan)
+  );
+  const columnCount = Math.max(
+    typeof table.columnCount === 'number' ? table.columnCount : 0,
+    ...cells.map((cell) => cell.columnIndex + cell.columnSpan)
+  );
+
+  const grid: Array<Array<TableCell | null>> = Array.from({ length: rowCount }, () => Array(columnCount).fill(null));
+  for (const cell of cells) {
+    for (let row = cell.rowIndex; row < cell.rowIndex + cell.rowSpan; row++) {
+      for (let column = cell.columnIndex; column < cell.columnIndex + cell.columnSpan; column++) {
+        grid[row][column] = cell;
+      }
+    }
+  }
+
+  const headerRowCount = countHeaderRows(cells, rowCount) || (rowCount > 1 ? 1 : 0);
+  return { rowCount, columnCount, cells, grid, headerRowCount };
+}
+
+// 列ごとの見出し（複数の見出し行は上から順に空白でつなげる）
+export function getColumnHeaders(layout: TableLayout): string[] {
+  return Array.from({ length: layout.columnCount }, (_, column) => {
+    const labels: string[] = [];
+    for (let row = 0; row < layout.headerRowCount; row++) {
+      const content = layout.grid[row][column]?.content;
+      if (content && !labels.includes(content)) {
+        labels.push(content);
+      }
+    }
+    return labels.join(' ');
+  });
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+// Markdownの表にする（結合セルは覆うすべての位置に同じ内容を出力する）
+export function renderTableMarkdown(layout: TableLayout): string {
+  if (layout.columnCount === 0) {
+    return '';
+  }
+
+  const toRow = (values: string[]) => `| ${values.map(escapeMarkdown).join(' | ')} |`;
+  const body = layout.grid
+    .slice(layout.headerRowCount)
+    .map((row) => toRow(row.map((cell) => cell?.content || '')));
+
+  return [
+    toRow(getColumnHeaders(layout)),
+    toRow(Array(layout.columnCount).fill('---')),
+    ...body,
+  ].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// HTMLの表にする（結合セルはrowspan/colspanで出力し、見出し行はtheadに入れる）
+export function renderTableHtml(layout: TableLayout): string {
+  const renderRow = (row: number, tag: 'th' | 'td') => {
+    const cells = layout.cells
+      .filter((cell) => cell.rowIndex === row)
+      .map((cell) => {
+        const spans = `${cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : ''}${cell.columnSpan > 1 ? ` colspan="${cell.columnSpan}"` : ''}`;
+        return `<${tag}${spans}>${escapeHtml(cell.content)}</${tag}>`;
+      });
+    return `    <tr>${cells.join('')}</tr>`;
+  };
+  const rows = (from: number, to: number, tag: 'th' | 'td') =>
+    Array.from({ length: to - from }, (_, i) => renderRow(from + i, tag));
+
+  return [
+    '<table>',
+    ...(layout.headerRowCount > 0 ? ['  <thead>', ...rows(0, layout.headerRowCount, 'th'), '  </thead>'] : []),
+    '  <tbody>',
+    ...rows(layout.headerRowCount, layout.rowCount, 'td'),
+    '  </tbody>',
+    '</table>',
+  ].join('\n');
+}
+
+// 見出し行以外の各行を「列の見出し: 値」の記録にする（空のセルと、列方向に結合したセルの重複は除く）
+export function buildTableRecords(layout: TableLayout): TableRecordEntry[][] {
+  const headers = getColumnHeaders(layout);
+
+  return layout.grid
+    .slice(layout.headerRowCount)
+    .map((row) => {
+      const entries: TableRecordEntry[] = [];
+      row.forEach((cell, column) => {
+        if (cell?.content && !entries.some((entry) => entry.cell === cell)) {
+          entries.push({ key: headers[column] || `列${column + 1}`, value: cell.content, cell });
+        }
+      });
+      return entries;
+    })
+    .filter((entries) => entries.length > 0);
+}
+
+// 行ごとの記録を「症状: 頭痛 / いつから: 3日前」の形式にする
+export function formatTableRecord(entries: TableRecordEntry[]): string {
+  return entries.map(({ key, value }) => `${key}: ${value}`).join(' / ');
+}
@@ -0,0 +1,186 @@
+// Tesseract（tesseract.js）でサーバー内で分析するOCRプロバイダー
+// インターネットに接続できない場合やAzureのキーが無効な場合にも使えるよう、外部には何も送信しない
+// 言語データ（jpn.traineddata.gz、jpn_vert.traineddata.gz）はTESSERACT_LANG_PATHのディレクトリに置く
+
+import { createWorker } from 'tesseract.js';
+import type Tesseract from 'tesseract.js';
+import { CANCELLED_MESSAGE } from './azure-poller';
+import { OcrProvider, toOcrResult } from './ocr-provider';
+import { parsePageRange } from '../lib/page-range';
+
+// 横書きと縦書きの日本語
+const TESSERACT_LANGUAGES = ['jpn', 'jpn_vert'];
+
+// PDFを画像にするときの解像度（Tesseractは300dpi前後で精度が高い）
+const PDF_RENDER_DPI = 300;
+
+// 1ページ分の画像
+interface PageImage {
+  pageNumber: number;
+  image: Buffer;
+  width: number;
+  height: number;
+}
+
+// pdf.jsがNode.jsで使用するキャンバス（@napi-rs/canvas）
+interface NodeCanvasFactory {
+  create(width: number, height: number): {
+    canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+    context: CanvasRenderingContext2D;
+  };
+}
+
+const globalForTesseract = globalThis as unknown as { tesseractWorker?: Promise<Tesseract.Worker> };
+
+const LANG_DATA_ERROR_MESSAGE = 'Tesseractの言語データ（jpn、jpn_vert）を読み込めませんでした。TESSERACT_LANG_PATHを確認してください';
+
+// 言語データの読み込みに時間がかかるため、ワーカーは使い回す
+// 既定の取得先（外部のCDN）から言語データをダウンロードしないよう、TESSERACT_LANG_PATHがなければエラーにする
+function getTesseractWorker(): Promise<Tesseract.Worker> {
+  if (!globalForTesseract.tesseractWorker) {
+    const langPath = process.env.TESSERACT_LANG_PATH;
+    if (!langPath) {
+      return Promise.reject(new Error(LANG_DATA_ERROR_MESSAGE));
+    }
+    globalForTesseract.tesseractWorker = createWorker(TESSERACT_LANGUAGES, undefined, {
+      langPath,
+      cacheMethod: 'none',
+    }).catch((error) => {
+      globalForTesseract.tesseractWorker = undefined;
+      console.error('Tesseractの初期化エラー:', error);
+      throw new Error(LANG_DATA_ERROR_MESSAGE);
+    });
+  }
+  return globalForTesseract.tesseractWorker;
+}
+
+// PNG・JPEGのヘッダーから画像の幅と高さを読み取る
+export function readImageSize(bytes: Buffer): { width: number; height: number } | null {
+  if (bytes[0] === 0x89 && bytes.toString('latin1', 12, 16) === 'IHDR') {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+
+  // JPEGはSOFマーカー（0xC0〜0xCF、ただしDHT・JPG・DACを除く）に画像の大きさがある
+  let offset = 2;
+  while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+// PDFの各ページを画像にする（メモリを抑えるため1ページずつ返す）
+async function* renderPdfPages(bytes: Buffer, pageNumbers: number[] | null): AsyncGenerator<PageImage> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes) }).promise;
+
+  try {
+    const canvasFactory = pdf.canvasFactory as NodeCanvasFactory;
+    const numbers = pageNumbers
+      ? pageNumbers.filter((n) => n <= pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+    for (const pageNumber of numbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_DPI / 72 });
+      const { canvas, context } = canvasFactory.create(Math.round(viewport.width), Math.round(viewport.height));
+      await page.render({ canvasContext: context, viewport }).promise;
+      yield {
+        pageNumber,
+        image: canvas.toBuffer('image/png'),
+        width: Math.round(viewport.width),
+        height: Math.round(viewport.height),
+      };
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// 日本語の文字の間にTesseractが入れる空白を取り除く
+function removeJapaneseSpacing(text: string): string {
+  return text.trim().replace(/(?<=[^\x00-\x7F])\s+(?=[^\x00-\x7F])/g, '');
+}
+
+function toPolygon(bbox: Tesseract.Bbox): number[] {
+  return [bbox.x0, bbox.y0, bbox.x1, bbox.y0, bbox.x1, bbox.y1, bbox.x0, bbox.y1];
+}
+
+// Tesseractの認識結果をAzureの分析結果のページと同じ形式にする
+// 行と単語の信頼度を対応付けられるよう、ページをまたいだ通し番号でspanを設定する
+function toAnalyzePage(image: PageImage, data: Tesseract.Page, offset: { value: number }): Record<string, unknown> {
+  const lines: Array<Record<string, unknown>> = [];
+  const words: Array<Record<string, unknown>> = [];
+
+  const recognizedLines = (data.blocks || []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+  for (const line of recognizedLines) {
+    const content = removeJapaneseSpacing(line.text);
+    if (!content) continue;
+
+    const lineOffset = offset.value;
+    for (const word of line.words) {
+      const wordContent = removeJapaneseSpacing(word.text);
+      if (!wordContent) continue;
+      words.push({
+        content: wordContent,
+        polygon: toPolygon(word.bbox),
+        confidence: word.confidence / 100,
+        span: { offset: offset.value, length: wordContent.length },
+      });
+      offset.value += wordContent.length;
+    }
+
+    lines.push({
+      content,
+      polygon: toPolygon(line.bbox),
+      spans: [{ offset: lineOffset, length: offset.value - lineOffset }],
+    });
+  }
+
+  return {
+    pageNumber: image.pageNumber,
+    width: image.width,
+    height: image.height,
+    unit: 'pixel',
+    lines,
+    words,
+  };
+}
+
+// TesseractのOCRプロバイダーを作成
+export function createTesseractOcrProvider(): OcrProvider {
+  return {
+    type: 'tesseract',
+    async analyze(input, options = {}) {
+      const worker = await getTesseractWorker();
+
+      let images: AsyncIterable<PageImage> | PageImage[];
+      if (input.fileType === 'application/pdf') {
+        images = renderPdfPages(input.bytes, input.pages ? parsePageRange(input.pages) : null);
+      } else {
+        const size = readImageSize(input.bytes);
+        if (!size) {
+          throw new Error('画像の大きさを読み取れませんでした');
+        }
+        images = [{ pageNumber: 1, image: input.bytes, ...size }];
+      }
+
+      const pages: Array<Record<string, unknown>> = [];
+      const offset = { value: 0 };
+      for await (const image of images) {
+        if (options.signal?.aborted) {
+          throw new Error(CANCELLED_MESSAGE);
+        }
+        const { data } = await worker.recognize(image.image, {}, { blocks: true });
+        pages.push(toAnalyzePage(image, data, offset));
+      }
+
+      return toOcrResult({ analyzeResult: { pages, tables: [], keyValuePairs: [] } }, false);
+    },
+  };
+}
@@ -0,0 +1,252 @@
+// アップロードされたファイルの読み込みと検証（実際の形式の判別、サイズ・ページ数の上限）
+// multipart/form-data、ファイルのバイナリをそのまま送る形式、従来のBase64のJSONに対応する
+
+import { parsePageRange } from '../lib/page-range';
+
+// 受け付けたファイルと処理の設定
+export interface UploadedDocument {
+  bytes: Buffer;
+  fileName: string;
+  // 先頭のバイト列から判別した形式（ブラウザが申告した形式は使わない）
+  fileType: string;
+  settings: Record<string, unknown>;
+}
+
+export type UploadResult =
+  | { success: true; document: UploadedDocument }
+  | { success: false; error: string; status: number };
+
+export interface UploadLimits {
+  maxBytes: number;
+  maxPages: number;
+}
+
+// ファイルサイズの上限のデフォルト（50MB）
+const DEFAULT_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// 1回に分析するPDFのページ数の上限のデフォルト
+const DEFAULT_MAX_PDF_PAGES = 100;
+
+// multipartの区切り・JSONの設定など、ファイル以外に許容する本文のサイズ
+const BODY_OVERHEAD_BYTES = 64 * 1024;
+
+// バイナリで送る場合にファイル名と設定を渡すヘッダー（URLエンコードした値）
+export const FILE_NAME_HEADER = 'X-File-Name';
+export const SETTINGS_HEADER = 'X-Processing-Settings';
+
+// 形式ごとのファイルの先頭のバイト列
+const FILE_SIGNATURES: Array<{ type: string; bytes: number[] }> = [
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+];
+
+// 環境変数（MAX_UPLOAD_BYTES、MAX_PDF_PAGES）に応じた上限を取得
+export function getUploadLimits(): UploadLimits {
+  return {
+    maxBytes: Number(process.env.MAX_UPLOAD_BYTES) || DEFAULT_MAX_UPLOAD_BYTES,
+    maxPages: Number(process.env.MAX_PDF_PAGES) || DEFAULT_MAX_PDF_PAGES,
+  };
+}
+
+// 先頭のバイト列からファイルの形式を判別（対応していない形式はnull）
+export function detectFileType(bytes: Uint8Array): string | null {
+  const signature = FILE_SIGNATURES.find((s) => s.bytes.every((byte, i) => bytes[i] === byte));
+  return signature?.type || null;
+}
+
+// PDFのページ数を数える（ページの情報が圧縮されていて数えられない場合はnull）
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+
+  // ページツリーの/Countのうち最大のもの（ルートのページ数）
+  let total = 0;
+  for (const dictionary of text.matchAll(/<<[^>]*\/Type\s*\/Pages\b[^>]*>>/g)) {
+    const count = dictionary[0].match(/\/Count\s+(\d+)/);
+    if (count) total = Math.max(total, Number(count[1]));
+  }
+  if (total > 0) {
+    return total;
+  }
+
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return pages ? pages.length : null;
+}
+
+// ページの情報が圧縮されたオブジェクトストリームにあるPDFは、pdf.jsで読み込んで数える（読み込めない場合はnull）
+async function countPdfPagesWithPdfjs(bytes: Uint8Array): Promise<number | null> {
+  try {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(bytes) }).promise;
+    try {
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.warn('PDFのページ数を数えられませんでした:', error);
+    return null;
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10}MB`;
+}
+
+function tooLarge(maxBytes: number): UploadResult {
+  return { success: false, error: `ファイルサイズが上限（${formatMegabytes(maxBytes)}）を超えています`, status: 413 };
+}
+
+// リクエストの本文を上限まで読み込む（上限を超えた場合はnull）
+async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Buffer | null> {
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function parseSettings(value: string | null): Record<string, unknown> {
+  if (!value) {
+    return {};
+  }
+  const settings = JSON.parse(value);
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('処理の設定が不正です');
+  }
+  return settings;
+}
+
+// リクエストからファイルと設定を読み込み、形式とサイズを検証する
+export async function readUploadRequest(request: Request, limits: UploadLimits): Promise<UploadResult> {
+  const contentType = request.headers.get('Content-Type') || '';
+
+  // 本文の読み込み前に、申告されたサイズで上限を判定
+  // （multipartの区切りの分と、Base64のJSONはBase64で4/3倍になる分も許容する）
+  const isJson = contentType.includes('application/json');
+  const maxBodyBytes = (isJson ? Math.ceil((limits.maxBytes * 4) / 3) : limits.maxBytes) + BODY_OVERHEAD_BYTES;
+  const contentLength = Number(request.headers.get('Content-Length'));
+  if (contentLength > maxBodyBytes) {
+    return tooLarge(limits.maxBytes);
+  }
+
+  let bytes: Buffer;
+  let fileName: string;
+  let declaredType: string;
+  let settings: Record<string, unknown>;
+
+  try {
+    if (contentType.includes('multipart/form-data')) {
+      // Content-Lengthがない場合も上限を超えた時点で読み込みをやめ、読み込んだ本文を解析する
+      const body = await readBodyWithLimit(request, maxBodyBytes);
+      if (!body) {
+        return tooLarge(limits.maxBytes);
+      }
+      const form = await new Response(new Uint8Array(body), { headers: { 'Content-Type': contentType } }).formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return { success: false, error: 'ファイル情報が不足しています', status: 400 };
+      }
+      if (file.size > limits.maxBytes) {
+        return tooLarge(limits.maxBytes);
+      }
+      bytes = Buffer.from(await file.arrayBuffer());
+      fileName = file.name;
+      declaredType = file.type;
+      settings = parseSettings(form.get('settings') as string | null);
+    } else if (isJson) {
+      // 従来のBase64のJSON（Content-Lengthがない場合も上限を超えた時点で読み込みをやめる）
+      const body = await readBodyWithLimit(request, maxBodyBytes);
+      if (!body) {
+        return tooLarge(limits.maxBytes);
+      }
+      const { fileBase64, fileName: name, fileType, ...rest } = JSON.parse(body.toString('utf8'));
+      if (!fileBase64 || !name) {
+        return { success: false, error: 'ファイル情報が不足しています', status: 400 };
+      }
+      bytes = Buffer.from(fileBase64, 'base64');
+      if (bytes.byteLength > limits.maxBytes) {
+        return tooLarge(limits.maxBytes);
+      }
+      fileName = name;
+      declaredType = fileType || '';
+      settings = rest;
+    } else {
+      // ファイルのバイナリをそのまま送る形式（ファイル名と設定はヘッダーで受け取る）
+      const body = await readBodyWithLimit(request, limits.maxBytes);
+      if (!body) {
+        return tooLarge(limits.maxBytes);
+      }
+      bytes = body;
+      fileName = decodeURIComponent(request.headers.get(FILE_NAME_HEADER) || 'upload');
+      declaredType = contentType.split(';')[0].trim();
+      const header = request.headers.get(SETTINGS_HEADER);
+      settings = parseSettings(header ? decodeURIComponent(header) : null);
+    }
+  } catch (error) {
+    console.error('アップロードの読み込みエラー:', error);
+    return { success: false, error: 'アップロードされたデータを読み込めませんでした', status: 400 };
+  }
+
+  if (bytes.byteLength === 0) {
+    return { success: false, error: 'ファイルが空です', status: 400 };
+  }
+
+  const fileType = detectFileType(bytes);
+  if (!fileType) {
+    return {
+      success: false,
+      error: 'ファイルの形式を判別できませんでした。PDF・JPEG・PNGのファイルを選択してください',
+      status: 415,
+    };
+  }
+  if (declaredType && declaredType !== 'application/octet-stream' && declaredType !== fileType) {
+    console.warn(`申告された形式（${declaredType}）と実際の形式（${fileType}）が異なります: ${fileName}`);
+  }
+
+  return { success: true, document: { bytes, fileName, fileType, settings } };
+}
+
+// PDFのページ数（ページを指定した場合は分析するページ数）が上限以内か検証（問題がなければnull）
+// ページ数を数えられないPDFは上限を確認できないため受け付けない
+export async function checkPageLimit(
+  document: UploadedDocument,
+  pageRange: string | null,
+  maxPages: number
+): Promise<string | null> {
+  if (document.fileType !== 'application/pdf') {
+    return null;
+  }
+
+  const total = countPdfPages(document.bytes) ?? await countPdfPagesWithPdfjs(document.bytes);
+  if (total === null) {
+    return 'PDFのページ数を確認できませんでした。ファイルが破損していないか確認してください';
+  }
+  const selected = pageRange ? parsePageRange(pageRange, maxPages) : null;
+
+  if (selected && selected[selected.length - 1] > total) {
+    return `指定したページがありません（このPDFは${total}ページです）`;
+  }
+
+  const pageCount = selected ? selected.length : total;
+  if (pageCount > maxPages) {
+    return `ページ数（${pageCount}ページ）が上限（${maxPages}ページ）を超えています。分析するページを選択してください`;
+  }
+
+  return null;
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DocumentProcessingResult,
+  ProcessingSettings,
+  cancelDocumentJob,
+  submitDocumentJob,
+  watchDocumentJob
+} from './useDocumentProcessing';
+import type { BatchItemStatus } from '../lib/batch-export';
+import { createRandomId } from '../lib/random-id';
+
+// 一括処理の1件
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  jobId: string | null;
+  result: DocumentProcessingResult | null;
+  error: string | null;
+}
+
+// 同時に処理する件数のデフォルト（Azureのレート制限に収まるよう少なめにする）
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+// 一括処理の実行時の設定
+interface BatchRunOptions {
+  settings: ProcessingSettings;
+  concurrency: number;
+  // 1件の処理が完了したときに呼び出す（履歴の保存など）
+  onItemDone?: (item: BatchItem, result: DocumentProcessingResult) => void;
+}
+
+// 複数の問診票を、同時に処理する件数を制限しながら順に処理するカスタムフック
+export function useBatchProcessing() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const optionsRef = useRef<BatchRunOptions | null>(null);
+  // 処理中の項目のキャンセル用（アップロード中の送信も中断する）
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem, options: BatchRunOptions) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'running', progress: 0, jobId: null, result: null, error: null });
+
+    try {
+      const { jobId } = await submitDocumentJob(item.file, options.settings, controller.signal);
+      updateItem(item.id, { jobId });
+      if (controller.signal.aborted) {
+        await cancelDocumentJob(jobId);
+      }
+
+      const job = await watchDocumentJob(jobId, {
+        onJobUpdate: (current) => updateItem(item.id, { progress: current.progress }),
+      });
+      if (job.stage === 'failed' || !job.result) {
+        throw new Error(job.error || 'ドキュメント処理に失敗しました');
+      }
+
+      const result: DocumentProcessingResult = {
+        content: job.result.content,
+        formattedContent: job.result.formattedContent || undefined,
+        intakeRecord: job.result.intakeRecord,
+        medicationReview: job.result.medicationReview,
+        structuredData: job.result.structuredData,
+        cached: job.result.cached,
+        ocrProvider: job.result.ocrProvider,
+      };
+      updateItem(item.id, { status: 'done', progress: 100, result });
+      options.onItemDone?.(item, result);
+    } catch (error) {
+      updateItem(item.id, controller.signal.aborted
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // 空きがあれば待機中の項目を開始し、すべて終わったら停止する
+  useEffect(() => {
+    const options = optionsRef.current;
+    if (!isRunning || !options) return;
+
+    const running = items.filter(item => item.status === 'running').length;
+    const queued = items.filter(item => item.status === 'queued');
+    if (running === 0 && queued.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+
+    for (const item of queued.slice(0, Math.max(0, options.concurrency - running))) {
+      void runItem(item, options);
+    }
+  }, [items, isRunning, runItem]);
+
+  const addFiles = (files: File[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({
+        id: createRandomId(),
+        file,
+        status: 'queued' as const,
+        progress: 0,
+        jobId: null,
+        result: null,
+        error: null,
+      })),
+    ]);
+  };
+
+  const start = (options: BatchRunOptions) => {
+    optionsRef.current = { ...options, concurrency: Math.max(1, Math.floor(options.concurrency)) };
+    setIsRunning(true);
+  };
+
+  // 失敗・キャンセルした項目を待機中に戻す（実行中でなければ前回の設定で再開する）
+  const retryItem = (id: string) => {
+    updateItem(id, { status: 'queued', progress: 0, error: null });
+    if (optionsRef.current) setIsRunning(true);
+  };
+
+  const cancelItem = async (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+
+    if (item.status === 'queued') {
+      updateItem(id, { status: 'cancelled' });
+    } else if (item.status === 'running') {
+      controllersRef.current.get(id)?.abort();
+      if (item.jobId) await cancelDocumentJob(item.jobId);
+    }
+  };
+
+  // 待機中の項目をすべてキャンセル（処理中の項目は最後まで処理する）
+  const stop = () => {
+    setItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+  };
+
+  // 処理中でない項目を一覧から削除
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id || item.status === 'running'));
+  };
+
+  const clearFinished = () => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || item.status === 'running'));
+  };
+
+  return {
+    items,
+    isRunning,
+    addFiles,
+    start,
+    stop,
+    retryItem,
+    cancelItem,
+    removeItem,
+    clearFinished
+  };
+}
@@ -1,101 +1,250 @@
 import { useState } from 'react';
 import { useGemma } from '../lib/gemma';
+import type { LlmBackendType } from '../lib/llm-backend';
+import type { MedicalIntakeRecord } from '../lib/intake-record';
+import type { MedicationReview } from '../lib/medication-dictionary';
+import type { FormTemplate } from '../lib/form-template';
+import type { JobStage, ProcessingEvent, ProcessingJob } from '../api/job-store';
+import type { OcrProviderType } from '../api/ocr-provider';
+import type { AzureAnalyzeFeature, AzureApiVersion, AzureOutputContentFormat } from '../api/azure-api-versions';
+
+// ドキュメント処理の設定
+export interface ProcessingSettings {
+  azureApiKey: string;
+  azureEndpoint: string;
+  modelId: string;
+  // Azure Document IntelligenceのAPIバージョン・追加機能・出力形式（省略時は既定の設定）
+  azureApiVersion?: AzureApiVersion;
+  azureFeatures?: AzureAnalyzeFeature[];
+  azureOutputContentFormat?: AzureOutputContentFormat;
+  gemmaModelPath?: string;
+  // LLMサーバーに送るモデル名（省略時はgemmaModelPath）
+  gemmaModel?: string;
+  gemmaBaseUrl?: string;
+  // LLMサーバーの応答を待つ時間
+  gemmaTimeoutMs?: number;
+  gemmaBackend?: LlmBackendType;
+  // この値未満の信頼度で読み取ったフィールドを要確認にする
+  confidenceThreshold?: number;
+  // 汎用の抽出より優先して適用する問診票テンプレート
+  formTemplate?: FormTemplate | null;
+  // キャッシュを使わずにOCRを再実行する
+  forceOcr?: boolean;
+  // 分析するPDFのページ（例: 1-3,5、省略時はすべて）
+  pages?: string;
+  // OCRを実行するプロバイダー（省略時はAzure）
+  ocrProvider?: OcrProviderType;
+  // Azureで分析できなかった場合にTesseractで分析し直す
+  ocrFallback?: boolean;
+}
+
+// ドキュメント処理の結果
+export interface DocumentProcessingResult {
+  content?: string;
+  formattedContent?: string;
+  intakeRecord?: MedicalIntakeRecord;
+  medicationReview?: MedicationReview;
+  structuredData?: Record<string, unknown> | null;
+  // キャッシュした分析結果を使用した
+  cached?: boolean;
+  // OCRを実行したプロバイダー
+  ocrProvider?: OcrProviderType;
+  error?: string;
+}
+
+// ジョブの状態を確認する間隔
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// ジョブの進捗を受け取るコールバック
+export interface JobProgressHandlers {
+  onJobUpdate?: (job: { id: string; stage: JobStage; progress: number }) => void;
+  onEvent?: (event: ProcessingEvent) => void;
+  onEventsReplaced?: (events: ProcessingEvent[]) => void;
+}
+
+// ファイルを送信してドキュメント処理ジョブを作成し、ジョブIDを返す関数
+// ファイルはBase64にせずmultipart/form-dataで送信する
+export async function submitDocumentJob(
+  file: File,
+  settings: ProcessingSettings,
+  signal?: AbortSignal
+): Promise<{ jobId: string; stage: JobStage }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('settings', JSON.stringify(settings));
+  
+  const response = await fetch('/api/process-document', {
+    method: 'POST',
+    body: formData,
+    signal,
+  });
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || `APIエラー: ${response.status}`);
+  }
+  
+  return response.json();
+}
+
+// ジョブが完了または失敗するまで状態を確認する関数
+async function waitForJob(jobId: string, handlers: JobProgressHandlers): Promise<ProcessingJob> {
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `APIエラー: ${response.status}`);
+    }
+    
+    const currentJob: ProcessingJob = await response.json();
+    handlers.onJobUpdate?.({ id: currentJob.id, stage: currentJob.stage, progress: currentJob.progress });
+    handlers.onEventsReplaced?.(currentJob.events);
+    
+    if (currentJob.stage === 'done' || currentJob.stage === 'failed') {
+      return currentJob;
+    }
+    
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+// Server-Sent Eventsでジョブの進捗を受信する関数
+// ジョブが終了した場合はtrue、接続できなかった場合はfalseを返す
+function subscribeToJob(jobId: string, handlers: JobProgressHandlers): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (typeof EventSource === 'undefined') {
+      resolve(false);
+      return;
+    }
+    
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    
+    source.addEventListener('progress', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as ProcessingEvent & { stage: JobStage; progress: number };
+      handlers.onEvent?.(event);
+      handlers.onJobUpdate?.({ id: jobId, stage: event.stage, progress: event.progress });
+      
+      if (event.type === 'result-ready' || event.type === 'failed') {
+        source.close();
+        resolve(true);
+      }
+    });
+    
+    source.onerror = () => {
+      source.close();
+      resolve(false);
+    };
+  });
+}
+
+// ジョブの終了を待ち、終了したジョブを返す関数
+// 進捗イベントを受信し、終了後（またはSSEに接続できない場合）はジョブの状態を取得する
+export async function watchDocumentJob(jobId: string, handlers: JobProgressHandlers = {}): Promise<ProcessingJob> {
+  await subscribeToJob(jobId, handlers);
+  return waitForJob(jobId, handlers);
+}
+
+// 実行中のジョブをキャンセルする関数（サーバー側の処理も中断される）
+export async function cancelDocumentJob(jobId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('キャンセルに失敗しました:', errorData.error);
+    }
+  } catch (error) {
+    console.error('キャンセルに失敗しました:', error);
+  }
+}
 
 // APIルートとGemma LLMを統合するためのカスタムフック
 export function useDocumentProcessing() {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [result, setResult] = useState<{
-    content?: string;
-    formattedContent?: string;
-    error?: string;
-  } | null>(null);
+  const [result, setResult] = useState<DocumentProcessingResult | null>(null);
+  
+  const [job, setJob] = useState<{ id: string; stage: JobStage; progress: number } | null>(null);
+  const [events, setEvents] = useState<ProcessingEvent[]>([]);
   
   const { isLoading: isGemmaLoading, processText } = useGemma();
   
-  // ファイルをBase64エンコードする関数
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = (event) => {
-        if (typeof reader.result === 'string') {
-          // data:application/pdf;base64, などのプレフィックスを削除
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
-        } else {
-          reject(new Error('ファイルの読み込みに失敗しました'));
-        }
-      };
-      reader.onerror = error => reject(error);
-    });
+  // 実行中のジョブをキャンセルする関数
+  const cancelProcessing = async () => {
+    if (!job) return;
+    await cancelDocumentJob(job.id);
   };
   
-  // ドキュメント処理関数
-  const processDocument = async (
-    file: File,
-    azureApiKey: string,
-    azureEndpoint: string,
-    modelId: string,
-    gemmaModelPath?: string
-  ) => {
+  // 履歴などから以前の結果を表示する関数（OCRは再実行しない）
+  const restoreResult = (restored: DocumentProcessingResult) => {
+    setJob(null);
+    setEvents([]);
+    setResult(restored);
+  };
+  
+  // ドキュメント処理関数（処理結果を表示し、呼び出し元にも返す）
+  const processDocument = async (file: File, settings: ProcessingSettings): Promise<DocumentProcessingResult> => {
     try {
       setIsProcessing(true);
       setResult(null);
+      setJob(null);
+      setEvents([]);
       
-      // ファイルをBase64エンコード
-      const fileBase64 = await fileToBase64(file);
+      // ドキュメント処理ジョブを作成
+      const { jobId, stage } = await submitDocumentJob(file, settings);
+      setJob({ id: jobId, stage, progress: 0 });
       
-      // Azure Document Intelligence APIにリクエスト
-      const response = await fetch('/api/process-document', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          fileBase64,
-          fileName: file.name,
-          fileType: file.type,
-          azureApiKey,
-          azureEndpoint,
-          modelId,
-          gemmaModelPath
-        }),
+      const completedJob = await watchDocumentJob(jobId, {
+        onJobUpdate: setJob,
+        onEvent: (event) => setEvents(prev => [...prev, event]),
+        onEventsReplaced: setEvents,
       });
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `APIエラー: ${response.status}`);
+      if (completedJob.stage === 'failed' || !completedJob.result) {
+        throw new Error(completedJob.error || 'ドキュメント処理に失敗しました');
       }
       
-      const apiResult = await response.json();
+      const apiResult = completedJob.result;
       
       // APIから返されたテキストがある場合
       if (apiResult.content) {
-        let formattedContent = apiResult.formattedContent;
+        let formattedContent: string | null = apiResult.formattedContent;
         
         // APIからフォーマット済みテキストが返されなかった場合、
-        // かつGemmaモデルパスが指定されている場合は、
+        // かつGemmaモデルが指定されている場合は、
         // クライアント側でGemma LLMを使用して整形
-        if (!formattedContent && gemmaModelPath) {
+        if (!formattedContent && (settings.gemmaModelPath || settings.gemmaModel)) {
           formattedContent = await processText(apiResult.content, {
-            modelPath: gemmaModelPath,
+            modelPath: settings.gemmaModelPath || '',
+            model: settings.gemmaModel,
+            baseUrl: settings.gemmaBaseUrl,
+            timeoutMs: settings.gemmaTimeoutMs,
+            backend: settings.gemmaBackend,
             temperature: 0.2,
             maxTokens: 1000
           });
         }
         
-        setResult({
+        const processed: DocumentProcessingResult = {
           content: apiResult.content,
-          formattedContent: formattedContent || undefined
-        });
+          formattedContent: formattedContent || undefined,
+          intakeRecord: apiResult.intakeRecord,
+          medicationReview: apiResult.medicationReview,
+          structuredData: apiResult.structuredData,
+          cached: apiResult.cached,
+          ocrProvider: apiResult.ocrProvider
+        };
+        setResult(processed);
+        return processed;
       } else {
         throw new Error('テキストの抽出に失敗しました');
       }
     } catch (error) {
       console.error('ドキュメント処理エラー:', error);
-      setResult({
+      const failed: DocumentProcessingResult = {
         error: error instanceof Error ? error.message : String(error)
-      });
+      };
+      setResult(failed);
+      return failed;
     } finally {
       setIsProcessing(false);
     }
@@ -104,6 +253,10 @@ export function useDocumentProcessing() {
   return {
     isProcessing: isProcessing || isGemmaLoading,
     result,
-    processDocument
+    job,
+    events,
+    processDocument,
+    restoreResult,
+    cancelProcessing
   };
 }
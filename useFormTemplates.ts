@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { FormTemplate, validateFormTemplate } from '../lib/form-template';
+
+// テンプレートを保存するローカルストレージのキー
+const STORAGE_KEY = 'formTemplates';
+
+// 医療機関ごとの問診票テンプレートをローカルストレージで管理するカスタムフック
+export function useFormTemplates() {
+  const [templates, setTemplates] = useState<FormTemplate[]>([]);
+
+  // ページロード時にローカルストレージから読み込み（形式が不正なテンプレートは読み飛ばす）
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      const loaded: FormTemplate[] = [];
+      for (const item of Array.isArray(saved) ? saved : []) {
+        try {
+          loaded.push(validateFormTemplate(item));
+        } catch (error) {
+          console.warn('保存された問診票テンプレートを読み込めませんでした:', error);
+        }
+      }
+      setTemplates(loaded);
+    } catch (error) {
+      console.warn('保存された問診票テンプレートを読み込めませんでした:', error);
+    }
+  }, []);
+
+  const persist = (next: FormTemplate[]) => {
+    setTemplates(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // 同じIDのテンプレートがあれば上書きし、なければ追加
+  const saveTemplate = (template: FormTemplate) => {
+    const exists = templates.some((t) => t.id === template.id);
+    persist(exists ? templates.map((t) => (t.id === template.id ? template : t)) : [...templates, template]);
+  };
+
+  const deleteTemplate = (id: string) => {
+    persist(templates.filter((t) => t.id !== id));
+  };
+
+  return { templates, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { KarteTemplate, validateKarteTemplate } from '../lib/karte-template';
+
+// テンプレートを保存するローカルストレージのキー
+const STORAGE_KEY = 'karteTemplates';
+
+// ユーザーが作成したカルテのテンプレートをローカルストレージで管理するカスタムフック
+export function useKarteTemplates() {
+  const [templates, setTemplates] = useState<KarteTemplate[]>([]);
+
+  // ページロード時にローカルストレージから読み込み（形式が不正なテンプレートは読み飛ばす）
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      const loaded: KarteTemplate[] = [];
+      for (const item of Array.isArray(saved) ? saved : []) {
+        try {
+          loaded.push(validateKarteTemplate(item));
+        } catch (error) {
+          console.warn('保存されたカルテのテンプレートを読み込めませんでした:', error);
+        }
+      }
+      setTemplates(loaded);
+    } catch (error) {
+      console.warn('保存されたカルテのテンプレートを読み込めませんでした:', error);
+    }
+  }, []);
+
+  const persist = (next: KarteTemplate[]) => {
+    setTemplates(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // 同じIDのテンプレートがあれば上書きし、なければ追加
+  const saveTemplate = (template: KarteTemplate) => {
+    const exists = templates.some((t) => t.id === template.id);
+    persist(exists ? templates.map((t) => (t.id === template.id ? template : t)) : [...templates, template]);
+  };
+
+  const deleteTemplate = (id: string) => {
+    persist(templates.filter((t) => t.id !== id));
+  };
+
+  return { templates, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  HistoryEntry,
+  HistoryQuery,
+  addHistoryEntry,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  purgeHistoryEntries
+} from '../lib/history-store';
+
+// IndexedDBに保存した処理履歴を管理するカスタムフック
+export function useProcessingHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState<HistoryQuery>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries(query));
+      setError(null);
+    } catch (err) {
+      console.error('履歴の読み込みに失敗しました:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [query]);
+
+  // 検索条件が変わったら一覧を読み込み直す
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // 保持期間（日数）を過ぎた履歴を削除
+  // 設定の入力途中の値で削除しないよう、呼び出し側で確定した保持期間を渡す
+  const purgeExpired = useCallback(async (retentionDays: number) => {
+    try {
+      if (await purgeHistoryEntries(retentionDays) > 0) {
+        await refresh();
+      }
+    } catch (err) {
+      console.error('古い履歴の削除に失敗しました:', err);
+    }
+  }, [refresh]);
+
+  // 履歴を保存し、保持期間を過ぎた履歴を削除（保持期間が0の場合は保存しない）
+  const addEntry = async (entry: Omit<HistoryEntry, 'id' | 'createdAt'>, retentionDays: number) => {
+    if (retentionDays <= 0) return;
+
+    try {
+      await addHistoryEntry(entry);
+      await purgeHistoryEntries(retentionDays);
+      await refresh();
+    } catch (err) {
+      console.error('履歴の保存に失敗しました:', err);
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      await refresh();
+    } catch (err) {
+      console.error('履歴の削除に失敗しました:', err);
+    }
+  };
+
+  return { entries, query, setQuery, error, addEntry, removeEntry, purgeExpired };
+}
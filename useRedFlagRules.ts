@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_RED_FLAG_RULES, RedFlagRule, validateRedFlagRule } from '../lib/red-flags';
+
+// ルールを保存するローカルストレージのキー
+const STORAGE_KEY = 'redFlagRules';
+
+// 見落としてはならない記載の検出ルールをローカルストレージで管理するカスタムフック
+// 保存されていない場合は組み込みのルールを使用する
+export function useRedFlagRules() {
+  const [rules, setRules] = useState<RedFlagRule[]>(DEFAULT_RED_FLAG_RULES);
+
+  // ページロード時にローカルストレージから読み込み（形式が不正なルールは読み飛ばす）
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (!saved) return;
+
+      const parsed = JSON.parse(saved);
+      const loaded: RedFlagRule[] = [];
+      for (const item of Array.isArray(parsed) ? parsed : []) {
+        try {
+          loaded.push(validateRedFlagRule(item));
+        } catch (error) {
+          console.warn('保存された検出ルールを読み込めませんでした:', error);
+        }
+      }
+      setRules(loaded);
+    } catch (error) {
+      console.warn('保存された検出ルールを読み込めませんでした:', error);
+    }
+  }, []);
+
+  const saveRules = (next: RedFlagRule[]) => {
+    setRules(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // 組み込みのルールに戻す
+  const resetRules = () => {
+    setRules(DEFAULT_RED_FLAG_RULES);
+    localStorage.removeItem(STORAGE_KEY);
+  };
+
+  return { rules, saveRules, resetRules };
+}